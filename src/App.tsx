@@ -1,6 +1,8 @@
 import React, { useEffect } from 'react';
     import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
     import { AuthProvider } from './contexts/AuthContext';
+    import { SyncProvider } from './contexts/SyncContext';
+    import { UnitsProvider } from './contexts/UnitsContext';
     import PrivateRoute from './components/PrivateRoute';
     import Navbar from './components/Navbar';
     import Login from './pages/Login';
@@ -12,6 +14,8 @@ import React, { useEffect } from 'react';
     import Leaderboard from './pages/Leaderboard';
     import Welcome from './pages/Welcome';
     import MessageBoard from './pages/MessageBoard';
+    import Calendar from './pages/Calendar';
+    import Programs from './pages/Programs';
 
     function App() {
       useEffect(() => {
@@ -43,71 +47,91 @@ import React, { useEffect } from 'react';
       return (
         <Router>
           <AuthProvider>
-            <div className="min-h-screen dark:bg-gray-700 dark:text-gray-100 dark:bg-gray-800 dark:text-white">
-              <Navbar />
-              <div className="container mx-auto px-4 py-8 bg-gray-200">
-                <Routes>
-                  <Route path="/login" element={<Login />} />
-                  <Route path="/register" element={<Register />} />
-                  <Route
-                    path="/"
-                    element={
-                      <PrivateRoute>
-                        <Welcome />
-                      </PrivateRoute>
-                    }
-                  />
-                  <Route
-                    path="/wod"
-                    element={
-                      <PrivateRoute>
-                        <Dashboard />
-                      </PrivateRoute>
-                    }
-                  />
-                  <Route
-                    path="/profile"
-                    element={
-                      <PrivateRoute>
-                        <Profile />
-                      </PrivateRoute>
-                    }
-                  />
-                  <Route
-                    path="/settings"
-                    element={
-                      <PrivateRoute>
-                        <Settings />
-                      </PrivateRoute>
-                    }
-                  />
-                  <Route
-                    path="/workouts"
-                    element={
-                      <PrivateRoute>
-                        <Workouts />
-                      </PrivateRoute>
-                    }
-                  />
-                  <Route
-                    path="/leaderboard"
-                    element={
-                      <PrivateRoute>
-                        <Leaderboard />
-                      </PrivateRoute>
-                    }
-                  />
-                  <Route
-                    path="/message-board"
-                    element={
-                      <PrivateRoute>
-                        <MessageBoard />
-                      </PrivateRoute>
-                    }
-                  />
-                </Routes>
-              </div>
-            </div>
+            <SyncProvider>
+              <UnitsProvider>
+                <div className="min-h-screen dark:bg-gray-700 dark:text-gray-100 dark:bg-gray-800 dark:text-white">
+                  <Navbar />
+                  <div className="container mx-auto px-4 py-8 bg-gray-200">
+                    <Routes>
+                      <Route path="/login" element={<Login />} />
+                      <Route path="/register" element={<Register />} />
+                      <Route
+                        path="/"
+                        element={
+                          <PrivateRoute>
+                            <Welcome />
+                          </PrivateRoute>
+                        }
+                      />
+                      <Route
+                        path="/wod"
+                        element={
+                          <PrivateRoute>
+                            <Dashboard />
+                          </PrivateRoute>
+                        }
+                      />
+                      <Route
+                        path="/profile"
+                        element={
+                          <PrivateRoute>
+                            <Profile />
+                          </PrivateRoute>
+                        }
+                      />
+                      <Route
+                        path="/settings"
+                        element={
+                          <PrivateRoute>
+                            <Settings />
+                          </PrivateRoute>
+                        }
+                      />
+                      <Route
+                        path="/workouts"
+                        element={
+                          <PrivateRoute>
+                            <Workouts />
+                          </PrivateRoute>
+                        }
+                      />
+                      <Route
+                        path="/calendar"
+                        element={
+                          <PrivateRoute roles={['coach', 'admin']}>
+                            <Calendar />
+                          </PrivateRoute>
+                        }
+                      />
+                      <Route
+                        path="/programs"
+                        element={
+                          <PrivateRoute>
+                            <Programs />
+                          </PrivateRoute>
+                        }
+                      />
+                      <Route
+                        path="/leaderboard"
+                        element={
+                          <PrivateRoute>
+                            <Leaderboard />
+                          </PrivateRoute>
+                        }
+                      />
+                      <Route
+                        path="/message-board"
+                        element={
+                          <PrivateRoute>
+                            <MessageBoard />
+                          </PrivateRoute>
+                        }
+                      />
+                    </Routes>
+                  </div>
+                </div>
+              </UnitsProvider>
+            </SyncProvider>
           </AuthProvider>
         </Router>
       );
@@ -1,10 +1,11 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { Dumbbell, User, Settings, Trophy, LogOut, Calendar, NotebookPen, Home, MessageSquare } from 'lucide-react';
+import { NotificationBell } from './notifications/NotificationBell';
+import { Dumbbell, User, Settings, Trophy, LogOut, Calendar, NotebookPen, Home, MessageSquare, Layers } from 'lucide-react';
 
 export default function Navbar() {
-  const { user, signOut } = useAuth();
+  const { user, isStaff, signOut } = useAuth();
   const navigate = useNavigate();
 
   if (!user) return null;
@@ -40,6 +41,20 @@ export default function Navbar() {
             >
               <NotebookPen className="h-5 w-5" />
             </Link>
+            {isStaff && (
+              <Link
+                to="/calendar"
+                className="dark:text-gray-300 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium dark:text-gray-300 dark:hover:text-indigo-400"
+              >
+                <Calendar className="h-5 w-5" />
+              </Link>
+            )}
+            <Link
+              to="/programs"
+              className="dark:text-gray-300 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium dark:text-gray-300 dark:hover:text-indigo-400"
+            >
+              <Layers className="h-5 w-5" />
+            </Link>
             <Link
               to="/leaderboard"
               className="dark:text-gray-300 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium dark:text-gray-300 dark:hover:text-indigo-400"
@@ -64,6 +79,7 @@ export default function Navbar() {
             >
               <MessageSquare className="h-5 w-5" />
             </Link>
+            <NotificationBell />
             <button
               onClick={handleSignOut}
               className="dark:text-gray-300 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium dark:text-gray-300 dark:hover:text-indigo-400"
@@ -1,9 +1,19 @@
 import React from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import type { Role } from '../lib/roles';
 
-export default function PrivateRoute({ children }: { children: React.ReactNode }) {
-  const { user } = useAuth();
+interface PrivateRouteProps {
+  children: React.ReactNode;
+  // Restricts the route to these roles; any signed-in user when omitted
+  roles?: Role[];
+}
+
+export default function PrivateRoute({ children, roles }: PrivateRouteProps) {
+  const { user, role } = useAuth();
+
+  if (!user) return <Navigate to="/login" />;
+  if (roles && (!role || !roles.includes(role))) return <Navigate to="/" />;
 
-  return user ? <>{children}</> : <Navigate to="/login" />;
+  return <>{children}</>;
 }
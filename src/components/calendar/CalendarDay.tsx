@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { format, isToday } from 'date-fns';
+import { Copy, ClipboardPaste } from 'lucide-react';
+import type { Workout } from '../../types/workout';
+
+interface CalendarDayProps {
+  date: Date;
+  workouts: Workout[];
+  outsideMonth: boolean;
+  copying: boolean;
+  isCopySource: boolean;
+  onDropWorkout: (workoutId: string) => void;
+  onSelectWorkout: (workout: Workout) => void;
+  onCopy: () => void;
+  onPaste: () => void;
+}
+
+export function CalendarDay({
+  date,
+  workouts,
+  outsideMonth,
+  copying,
+  isCopySource,
+  onDropWorkout,
+  onSelectWorkout,
+  onCopy,
+  onPaste,
+}: CalendarDayProps) {
+  const [dragOver, setDragOver] = useState(false);
+  const empty = workouts.length === 0;
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    const workoutId = e.dataTransfer.getData('text/plain');
+    if (workoutId) onDropWorkout(workoutId);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={handleDrop}
+      className={`min-h-[7rem] rounded-md p-2 flex flex-col transition-colors ${
+        dragOver
+          ? 'bg-indigo-50 ring-2 ring-indigo-400 dark:bg-indigo-900/40'
+          : empty
+            ? 'border-2 border-dashed border-gray-300 bg-gray-50 dark:border-gray-600 dark:bg-gray-800/50'
+            : 'border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-800'
+      } ${outsideMonth ? 'opacity-50' : ''} ${isCopySource ? 'ring-2 ring-green-500' : ''}`}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <span
+          className={`text-sm font-medium ${
+            isToday(date)
+              ? 'bg-indigo-600 text-white rounded-full w-6 h-6 flex items-center justify-center'
+              : 'text-gray-700 dark:text-gray-300'
+          }`}
+        >
+          {format(date, 'd')}
+        </span>
+        {copying && !isCopySource ? (
+          <button
+            onClick={onPaste}
+            title="Paste day here"
+            className="text-green-600 hover:text-green-700"
+          >
+            <ClipboardPaste className="h-4 w-4" />
+          </button>
+        ) : !empty && !copying && (
+          <button
+            onClick={onCopy}
+            title="Duplicate this day"
+            className="text-gray-400 hover:text-indigo-600"
+          >
+            <Copy className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-1 flex-1">
+        {workouts.map((workout) => (
+          <button
+            key={workout.id}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData('text/plain', workout.id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            onClick={() => onSelectWorkout(workout)}
+            className="w-full text-left text-xs px-2 py-1 rounded bg-indigo-100 text-indigo-800 hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-100 cursor-move truncate"
+          >
+            {workout.is_wod && (
+              <span className="font-bold mr-1">WOD</span>
+            )}
+            {workout.name}
+          </button>
+        ))}
+        {empty && (
+          <p className="text-xs text-gray-400 text-center pt-4">Rest / unprogrammed</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { addMonths, addWeeks, format, isSameMonth } from 'date-fns';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { CalendarDay } from './CalendarDay';
+import { WorkoutEditor } from '../workouts/WorkoutEditor';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { useWorkoutCalendar } from '../../hooks/useWorkoutCalendar';
+import {
+  calendarDays,
+  groupByDate,
+  toDateKey,
+  weekdayLabels,
+  type CalendarView,
+} from '../../lib/calendar';
+import type { Workout } from '../../types/workout';
+
+export function ProgrammingCalendar() {
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchor, setAnchor] = useState(new Date());
+  const [copySource, setCopySource] = useState<string | null>(null);
+  const [editingWorkout, setEditingWorkout] = useState<Workout | null>(null);
+
+  const days = useMemo(() => calendarDays(view, anchor), [view, anchor]);
+  const { workouts, loading, moveWorkout, duplicateDay, refresh } = useWorkoutCalendar(
+    toDateKey(days[0]),
+    toDateKey(days[days.length - 1])
+  );
+  const workoutsByDate = useMemo(() => groupByDate(workouts), [workouts]);
+
+  // Only count days in the period being planned, not the padding from adjacent months
+  const periodDays = view === 'month' ? days.filter((day) => isSameMonth(day, anchor)) : days;
+  const emptyDays = periodDays.filter((day) => !workoutsByDate[toDateKey(day)]).length;
+
+  const step = (direction: 1 | -1) => {
+    setAnchor((current) => (view === 'month' ? addMonths(current, direction) : addWeeks(current, direction)));
+  };
+
+  const handleDrop = async (workoutId: string, date: Date) => {
+    const target = toDateKey(date);
+    const workout = workouts.find((w) => w.id === workoutId);
+    if (!workout || workout.scheduled_date?.slice(0, 10) === target) return;
+
+    try {
+      await moveWorkout(workoutId, target);
+    } catch {
+      // The hook has already logged the failure and rolled back
+      alert('Failed to reschedule workout. Please try again.');
+    }
+  };
+
+  const handlePaste = async (date: Date) => {
+    if (!copySource) return;
+    try {
+      await duplicateDay(copySource, toDateKey(date));
+      setCopySource(null);
+    } catch {
+      alert('Failed to duplicate day. Please try again.');
+    }
+  };
+
+  const title = view === 'month'
+    ? format(anchor, 'MMMM yyyy')
+    : `${format(days[0], 'MMM d')} – ${format(days[days.length - 1], 'MMM d, yyyy')}`;
+
+  return (
+    <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 transition-all duration-300">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => step(-1)}
+            className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <h2 className="text-xl font-bold dark:text-gray-100 min-w-[12rem] text-center">{title}</h2>
+          <button
+            onClick={() => step(1)}
+            className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <ChevronRight className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => setAnchor(new Date())}
+            className="px-3 py-1 text-sm rounded-md border border-gray-300 hover:bg-gray-100 dark:border-gray-600 dark:hover:bg-gray-700"
+          >
+            Today
+          </button>
+        </div>
+
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-gray-500">
+            {emptyDays} empty {emptyDays === 1 ? 'day' : 'days'}
+          </span>
+          <div className="flex rounded-md overflow-hidden border border-gray-300 dark:border-gray-600">
+            {(['month', 'week'] as CalendarView[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 text-sm font-medium capitalize ${
+                  view === option
+                    ? 'bg-indigo-600 text-white'
+                    : 'text-gray-700 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {copySource && (
+        <div className="flex items-center justify-between mb-4 px-3 py-2 rounded-md bg-green-50 text-green-800 dark:bg-green-900 dark:text-green-100 text-sm">
+          <span>
+            Copying {format(new Date(`${copySource}T00:00:00`), 'EEE, MMM d')} — choose a day to paste onto.
+          </span>
+          <button onClick={() => setCopySource(null)} className="hover:text-green-600">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <LoadingSpinner />
+      ) : (
+        <div className="grid grid-cols-7 gap-2">
+          {weekdayLabels().map((label) => (
+            <div key={label} className="text-xs font-medium text-gray-500 text-center">
+              {label}
+            </div>
+          ))}
+          {days.map((day) => {
+            const key = toDateKey(day);
+            return (
+              <CalendarDay
+                key={key}
+                date={day}
+                workouts={workoutsByDate[key] || []}
+                outsideMonth={view === 'month' && !isSameMonth(day, anchor)}
+                copying={copySource !== null}
+                isCopySource={copySource === key}
+                onDropWorkout={(workoutId) => handleDrop(workoutId, day)}
+                onSelectWorkout={setEditingWorkout}
+                onCopy={() => setCopySource(key)}
+                onPaste={() => handlePaste(day)}
+              />
+            );
+          })}
+        </div>
+      )}
+
+      {editingWorkout && (
+        <WorkoutEditor
+          workout={editingWorkout}
+          onClose={() => {
+            setEditingWorkout(null);
+            refresh();
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { DURATION_FORMAT_HINT, formatDuration, parseDuration } from '../../lib/duration';
+
+interface DurationInputProps {
+  id?: string;
+  // Seconds
+  value: number | null | undefined;
+  onChange: (seconds: number | null) => void;
+  className?: string;
+}
+
+// Text input for a duration. What the athlete types is kept as typed and only
+// reported once it parses; clearing the field reports null.
+export function DurationInput({ id, value, onChange, className = 'w-full rounded-md border-gray-300' }: DurationInputProps) {
+  const [text, setText] = useState(value ? formatDuration(value) : '');
+  const invalid = text.trim() !== '' && parseDuration(text) == null;
+
+  // Follow changes made outside the input, e.g. a time filled in from the timer
+  useEffect(() => {
+    setText((current) => (parseDuration(current) === (value || null) ? current : value ? formatDuration(value) : ''));
+  }, [value]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const next = e.target.value;
+    setText(next);
+    if (next.trim() === '') {
+      onChange(null);
+    } else {
+      const seconds = parseDuration(next);
+      if (seconds != null) onChange(seconds);
+    }
+  };
+
+  return (
+    <div>
+      <input
+        type="text"
+        id={id}
+        value={text}
+        onChange={handleChange}
+        onBlur={() => !invalid && value && setText(formatDuration(value))}
+        placeholder="m:ss"
+        aria-invalid={invalid}
+        className={`${className} ${invalid ? 'border-red-500' : ''}`}
+      />
+      {invalid && (
+        <p className="text-xs text-red-600 mt-1">Use {DURATION_FORMAT_HINT}</p>
+      )}
+    </div>
+  );
+}
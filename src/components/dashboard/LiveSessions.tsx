@@ -0,0 +1,80 @@
+import React, { useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { PlayCircle, Trash2 } from 'lucide-react';
+import { WorkoutLogger } from '../workouts/WorkoutLogger';
+import { useLiveSessions, type LiveSession } from '../../hooks/useLiveSessions';
+import { discardLiveSession } from '../../lib/workoutLogSync';
+
+// Sessions the athlete started but hasn't finished, ready to pick up again.
+// Renders nothing when there are none.
+export function LiveSessions() {
+  const { sessions, refresh } = useLiveSessions();
+  const [resuming, setResuming] = useState<LiveSession | null>(null);
+  // The logger reloads whenever `previousLogs` changes, so it has to stay the same array
+  const resumingLogs = useMemo(() => (resuming ? [resuming] : []), [resuming]);
+
+  const handleDiscard = async (session: LiveSession) => {
+    if (!confirm(`Discard your unfinished ${session.workout.name} session and the sets saved so far?`)) return;
+    try {
+      await discardLiveSession(session.id);
+      await refresh();
+    } catch (error) {
+      console.error('Error discarding session:', error);
+      alert('Failed to discard the session. Please try again.');
+    }
+  };
+
+  const handleClose = () => {
+    setResuming(null);
+    refresh();
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 transition-all duration-300">
+      <h2 className="text-2xl font-bold dark:text-gray-100 mb-4">In Progress</h2>
+      <div className="space-y-4">
+        {sessions.map((session) => {
+          const setCount = session.exercise_scores[0]?.count ?? 0;
+          return (
+            <div key={session.id} className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium dark:text-gray-100">{session.workout.name}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {setCount} {setCount === 1 ? 'set' : 'sets'} saved · started{' '}
+                  {formatDistanceToNow(new Date(session.created_at), { addSuffix: true })}
+                </p>
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => handleDiscard(session)}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Discard session"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => setResuming(session)}
+                  className="flex items-center px-3 py-1 rounded-md bg-indigo-600 text-white text-sm hover:bg-indigo-700"
+                >
+                  <PlayCircle className="h-4 w-4 mr-1" />
+                  Resume
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {resuming && (
+        <WorkoutLogger
+          workout={resuming.workout}
+          onClose={handleClose}
+          previousLogs={resumingLogs}
+          workoutLogId={resuming.id}
+        />
+      )}
+    </div>
+  );
+}
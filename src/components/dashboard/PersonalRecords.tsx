@@ -1,54 +1,83 @@
 import React, { useEffect, useState } from 'react';
+    import { format } from 'date-fns';
+    import { Trophy } from 'lucide-react';
     import { supabase } from '../../lib/supabase';
-    import { useAuth } from '../../contexts/AuthContext';
-    import type { ExerciseScore } from '../../types/workout';
+    import { useUnits } from '../../hooks/useUnits';
+    import { PERSONAL_RECORD_LABELS, describeRecordValue } from '../../lib/personalRecords';
+    import type { PersonalRecord } from '../../types/workout';
 
-    export function PersonalRecords() {
-      const { user } = useAuth();
-      const [personalRecords, setPersonalRecords] = useState<ExerciseScore[]>([]);
+    interface PersonalRecordsProps {
+      // Limits the feed to one athlete, e.g. on their profile; otherwise shows the whole gym
+      userId?: string;
+      limit?: number;
+    }
+
+    export function PersonalRecords({ userId, limit = 10 }: PersonalRecordsProps) {
+      const [personalRecords, setPersonalRecords] = useState<PersonalRecord[]>([]);
+      const { units } = useUnits();
 
       useEffect(() => {
         async function fetchPersonalRecords() {
-          if (!user) return;
-
-          const { data, error } = await supabase
-            .from('exercise_scores')
+          let query = supabase
+            .from('personal_records')
             .select(`
               *,
-              exercise:exercises (*)
+              exercise:exercises (*),
+              profiles (profile_name)
             `)
-            .eq('user_id', user.id)
-            .order('weight', { ascending: false })
-            .limit(5);
+            .order('achieved_at', { ascending: false })
+            .limit(limit);
+
+          if (userId) {
+            query = query.eq('user_id', userId);
+          }
+
+          const { data, error } = await query;
 
           if (error) {
             console.error('Error fetching personal records:', error);
             return;
           }
 
-          setPersonalRecords(data);
+          setPersonalRecords(data || []);
         }
 
         fetchPersonalRecords();
-      }, [user]);
+      }, [userId, limit]);
 
 
       return (
         <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 transition-all duration-300">
           <h2 className="text-2xl font-bold dark:text-gray-100 mb-4">Personal Records</h2>
           
-          <div className="space-y-4">
-            {personalRecords.map((record) => (
-              <div key={record.id} className="flex items-center justify-between">
-                <div>
-                  <p className="font-medium dark:text-gray-100">{record.exercise.name}</p>
-                  <p className="text-sm dark:text-gray-300">
-                    {record.reps} reps @ {record.weight}lbs
-                  </p>
+          {personalRecords.length === 0 ? (
+            <p className="text-gray-500 dark:text-gray-400">No personal records yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {personalRecords.map((record) => (
+                <div key={record.id} className="flex items-start gap-3">
+                  <Trophy className="h-5 w-5 text-yellow-500 mt-0.5 flex-shrink-0" />
+                  <div>
+                    <p className="font-medium dark:text-gray-100">
+                      {!userId && `${record.profiles?.profile_name || 'Anonymous'} · `}
+                      {record.exercise?.name}
+                    </p>
+                    <p className="text-sm dark:text-gray-300">
+                      {PERSONAL_RECORD_LABELS[record.record_type]}: {describeRecordValue(record, units)}
+                      {record.previous_value != null && (
+                        <span className="text-gray-500">
+                          {' '}(was {describeRecordValue({ ...record, value: record.previous_value }, units)})
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {format(new Date(record.achieved_at), 'PPP')}
+                    </p>
+                  </div>
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          )}
         </div>
       );
     }
@@ -2,14 +2,29 @@ import React, { useEffect, useState } from 'react';
 import { format, subDays } from 'date-fns';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { useSync } from '../../hooks/useSync';
+import { useUnits } from '../../hooks/useUnits';
+import { describeLogResult, getLogTitle } from '../../lib/workoutFormats';
+import { CheckCircle, CloudOff } from 'lucide-react';
+import { WorkoutLogDetail } from '../results/WorkoutLogDetail';
+import { CommentCount } from '../results/CommentCount';
 import type { WorkoutLog } from '../../types/workout';
 
+type RecentLog = Pick<WorkoutLog, 'id' | 'completed_at' | 'total' | 'result_time_seconds' | 'result_rounds' | 'result_reps' | 'title'> & {
+  workout: Pick<WorkoutLog['workout'], 'name' | 'format' | 'workout_exercises'> | null;
+  workout_log_comments?: { count: number }[];
+  pendingSync?: boolean;
+};
+
 interface RecentWorkoutsProps {}
 
 export function RecentWorkouts({}: RecentWorkoutsProps) {
   const { user } = useAuth();
-  const [recentWorkouts, setRecentWorkouts] = useState<WorkoutLog[]>([]);
+  const { units } = useUnits();
+  const { pending, syncedLogIds, lastSyncedAt } = useSync();
+  const [recentWorkouts, setRecentWorkouts] = useState<RecentLog[]>([]);
   const [loading, setLoading] = useState(true);
+  const [selectedLogId, setSelectedLogId] = useState<string | null>(null);
 
   useEffect(() => {
     async function fetchRecentWorkouts() {
@@ -22,9 +37,14 @@ export function RecentWorkouts({}: RecentWorkoutsProps) {
           .from('workout_logs')
           .select(`
             *,
-            workout:workouts (*)
+            workout:workouts (
+              *,
+              workout_exercises (exercise:exercises (scoring_metric))
+            ),
+            workout_log_comments (count)
           `)
           .eq('user_id', user.id)
+          .eq('in_progress', false)
           .gte('completed_at', sevenDaysAgo)
           .order('completed_at', { ascending: false })
           .limit(5);
@@ -41,7 +61,13 @@ export function RecentWorkouts({}: RecentWorkoutsProps) {
     }
 
     fetchRecentWorkouts();
-  }, [user]);
+  }, [user, lastSyncedAt]);
+
+  // Logs saved offline show up first until the queue has been flushed
+  const queuedLogs: RecentLog[] = pending
+    .filter((entry) => !recentWorkouts.some((log) => log.id === entry.id))
+    .map((entry) => ({ ...entry.log, title: null, workout: entry.workout, pendingSync: true }));
+  const displayedWorkouts: RecentLog[] = [...queuedLogs, ...recentWorkouts];
 
   return (
     <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 transition-all duration-300">
@@ -49,23 +75,50 @@ export function RecentWorkouts({}: RecentWorkoutsProps) {
 
       {loading ? (
         <p className="text-gray-500 dark:text-gray-400">Loading...</p>
-      ) : recentWorkouts.length === 0 ? (
+      ) : displayedWorkouts.length === 0 ? (
         <p className="text-gray-500 dark:text-gray-400">No workouts found.</p>
       ) : (
         <div className="space-y-4">
-          {recentWorkouts.map((log) => (
-            <div key={log.id} className="flex items-center justify-between">
+          {displayedWorkouts.map((log) => (
+            <div
+              key={log.id}
+              // Queued logs aren't on the server yet, so there's nothing to open
+              onClick={log.pendingSync ? undefined : () => setSelectedLogId(log.id)}
+              className={`flex items-center justify-between ${log.pendingSync ? '' : 'cursor-pointer'}`}
+            >
               <div>
-                <p className="font-medium dark:text-gray-100">{log.workout.name}</p>
+                <p className="font-medium dark:text-gray-100">{getLogTitle(log)}</p>
                 <p className="text-sm dark:text-gray-300">
                   {format(new Date(log.completed_at), 'PPP')}
                 </p>
+                {log.pendingSync ? (
+                  <span className="inline-flex items-center text-xs font-medium text-amber-600 dark:text-amber-400">
+                    <CloudOff className="h-3 w-3 mr-1" />
+                    Pending sync
+                  </span>
+                ) : syncedLogIds.includes(log.id) && (
+                  <span className="inline-flex items-center text-xs font-medium text-green-600 dark:text-green-400">
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                    Synced
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                {!log.pendingSync && (
+                  <CommentCount count={log.workout_log_comments?.[0]?.count ?? 0} />
+                )}
+                <span className="text-indigo-600 font-medium">
+                  {describeLogResult(log, units)}
+                </span>
               </div>
-              <span className="text-indigo-600 font-medium">Score: {log.total}</span>
             </div>
           ))}
         </div>
       )}
+
+      {selectedLogId && (
+        <WorkoutLogDetail logId={selectedLogId} onClose={() => setSelectedLogId(null)} />
+      )}
     </div>
   );
 }
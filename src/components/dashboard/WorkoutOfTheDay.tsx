@@ -3,10 +3,11 @@ import React, { useState, useEffect } from 'react';
     import { format } from 'date-fns';
     import { LoadingSpinner } from '../common/LoadingSpinner';
     import type { Workout, WorkoutExercise } from '../../types/workout';
-    import { Dumbbell, Calendar, Clock } from 'lucide-react';
+    import { Dumbbell, Calendar, Clock, Timer } from 'lucide-react';
     import { Link } from 'react-router-dom';
     import { WorkoutLogger } from '../workouts/WorkoutLogger';
     import { WorkoutEditor } from '../workouts/WorkoutEditor';
+    import { WorkoutTimer } from '../workouts/WorkoutTimer';
     import { parseISO } from 'date-fns';
     import { useAuth } from '../../contexts/AuthContext';
 
@@ -20,9 +21,11 @@ import React, { useState, useEffect } from 'react';
       const [exercises, setExercises] = useState<WorkoutExercise[]>([]);
       const [isLogging, setIsLogging] = useState(false);
       const [isEditing, setIsEditing] = useState(false);
+      const [isTiming, setIsTiming] = useState(false);
+      const [timerSeconds, setTimerSeconds] = useState<number | null>(null);
       const [isCompleted, setIsCompleted] = useState(false);
       const [previousLogs, setPreviousLogs] = useState<any[]>([]);
-      const { user } = useAuth();
+      const { user, isStaff } = useAuth();
 
       useEffect(() => {
         async function fetchWOD() {
@@ -73,7 +76,7 @@ import React, { useState, useEffect } from 'react';
           }
 
           if (data && data.length > 0) {
-            setIsCompleted(true);
+            setIsCompleted(!data[0].in_progress);
             setPreviousLogs(data);
           } else {
             setIsCompleted(false);
@@ -85,14 +88,22 @@ import React, { useState, useEffect } from 'react';
       };
 
       const handleStartWorkout = () => {
+        setTimerSeconds(null);
         setIsLogging(true);
       };
 
       const handleViewWorkout = () => {
+        setTimerSeconds(null);
         setIsLogging(true);
         setRefreshKey(prev => prev + 1);
       };
 
+      const handleTimerStop = (elapsedSeconds: number) => {
+        setIsTiming(false);
+        setTimerSeconds(elapsedSeconds);
+        setIsLogging(true);
+      };
+
       const handleClose = () => {
         setIsEditing(false);
         if (onWorkoutComplete) {
@@ -137,11 +148,20 @@ import React, { useState, useEffect } from 'react';
                 ))}
               </div>
               <div className="mt-6 flex justify-end space-x-4">
+                {isStaff && (
+                  <button
+                    onClick={() => setIsEditing(true)}
+                    className="text-indigo-600 hover:text-indigo-700 font-medium"
+                  >
+                    Edit
+                  </button>
+                )}
                 <button
-                  onClick={() => setIsEditing(true)}
-                  className="text-indigo-600 hover:text-indigo-700 font-medium"
+                  onClick={() => setIsTiming(true)}
+                  className="flex items-center text-indigo-600 hover:text-indigo-700 font-medium"
                 >
-                  Edit
+                  <Timer className="h-4 w-4 mr-1" />
+                  Timer
                 </button>
                 <button
                   onClick={isCompleted ? handleViewWorkout : handleStartWorkout}
@@ -151,7 +171,7 @@ import React, { useState, useEffect } from 'react';
                       : 'bg-indigo-600 hover:bg-indigo-700'
                   }`}
                 >
-                  {isCompleted ? 'View Workout' : 'Start Workout'}
+                  {isCompleted ? 'View Workout' : previousLogs.length > 0 ? 'Resume Workout' : 'Start Workout'}
                 </button>
               </div>
             </>
@@ -164,6 +184,14 @@ import React, { useState, useEffect } from 'react';
               onClose={handleClose}
               previousLogs={previousLogs}
               workoutLogId={previousLogs.length > 0 ? previousLogs[0].id : null}
+              elapsedSeconds={timerSeconds}
+            />
+          )}
+          {isTiming && wodWorkout && (
+            <WorkoutTimer
+              workout={wodWorkout}
+              onClose={() => setIsTiming(false)}
+              onStop={handleTimerStop}
             />
           )}
           {isEditing && (
@@ -2,13 +2,14 @@ import React, { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
 import { Dumbbell } from 'lucide-react';
 import { LoadingSpinner } from '../common/LoadingSpinner';
-import type { ExerciseScore } from '../../types/workout';
+import { useUnits } from '../../hooks/useUnits';
+import { getScoringMetric, pickBestSet } from '../../lib/scoring';
+import { formatDuration } from '../../lib/duration';
+import { formatDistance, formatWeight } from '../../lib/units';
+import type { Exercise, ExerciseScore } from '../../types/workout';
 
-interface EnhancedExerciseScore extends ExerciseScore {
-  exercise?: {
-    id: string;
-    name: string;
-  };
+interface EnhancedExerciseScore extends Omit<ExerciseScore, 'exercise'> {
+  exercise?: Exercise;
 }
 
 export function ExerciseRecords() {
@@ -100,32 +101,12 @@ export function ExerciseRecords() {
           exerciseGroups[exerciseName].push(score);
         });
 
-        // 7. Find the best score for each exercise based on its type
+        // 7. Find the best score for each exercise based on its scoring metric
         const bestScores: EnhancedExerciseScore[] = [];
         
-        Object.entries(exerciseGroups).forEach(([exerciseName, scores]) => {
-          if (exerciseName === 'Run') {
-            // For Run, find the score with the highest distance
-            const bestScore = scores.reduce((best, current) => {
-              return (current.distance || 0) > (best.distance || 0) ? current : best;
-            }, scores[0]);
-            
-            bestScores.push(bestScore);
-          } else if (exerciseName === 'Assault Bike') {
-            // For Assault Bike, find the score with the highest calories
-            const bestScore = scores.reduce((best, current) => {
-              return (current.calories || 0) > (best.calories || 0) ? current : best;
-            }, scores[0]);
-            
-            bestScores.push(bestScore);
-          } else {
-            // For weight training, find the score with the heaviest weight
-            const bestScore = scores.reduce((best, current) => {
-              return (current.weight || 0) > (best.weight || 0) ? current : best;
-            }, scores[0]);
-            
-            bestScores.push(bestScore);
-          }
+        Object.values(exerciseGroups).forEach((scores) => {
+          const bestScore = pickBestSet(getScoringMetric(scores[0].exercise), scores);
+          if (bestScore) bestScores.push(bestScore);
         });
         
         // 8. Sort by date (newest first) and take the top 5
@@ -169,13 +150,7 @@ export function ExerciseRecords() {
               <div>
                 <p className="font-medium dark:text-gray-100">{record.exercise?.name || 'Unknown Exercise'}</p>
                 <div className="text-sm text-gray-500">
-                  {record.exercise?.name === 'Run' ? (
-                    <>{record.distance || 0} meters</>
-                  ) : record.exercise?.name === 'Assault Bike' ? (
-                    <>{record.calories || 0} calories</>
-                  ) : (
-                    <>{record.weight || 0} lbs {record.reps > 0 && `× ${record.reps} reps`}</>
-                  )}
+                  <RecordValue record={record} />
                 </div>
               </div>
             </div>
@@ -193,3 +168,20 @@ export function ExerciseRecords() {
     </div>
   );
 }
+
+// Shown in the viewer's units whatever units the athlete logged in
+const RecordValue = ({ record }: { record: EnhancedExerciseScore }) => {
+  const { units } = useUnits();
+  switch (getScoringMetric(record.exercise)) {
+    case 'distance':
+      return <>{formatDistance(record.distance, units.distance_unit)}</>;
+    case 'calories':
+      return <>{record.calories || 0} calories</>;
+    case 'time':
+      return <>{formatDuration(record.time || 0)}</>;
+    case 'reps':
+      return <>{record.reps || 0} reps</>;
+    default:
+      return <>{formatWeight(record.weight, units.weight_unit)} {record.reps > 0 && `× ${record.reps} reps`}</>;
+  }
+};
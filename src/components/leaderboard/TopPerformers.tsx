@@ -34,7 +34,8 @@ export function TopPerformers() {
               profile_name
             )
           `)
-          .gte('completed_at', sevenDaysAgo);
+          .gte('completed_at', sevenDaysAgo)
+          .eq('in_progress', false);
         
         if (error) throw error;
         
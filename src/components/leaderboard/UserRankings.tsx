@@ -1,93 +1,158 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { supabase } from '../../lib/supabase';
-import { Trophy, Medal, Heart } from 'lucide-react';
+import { Trophy, Medal } from 'lucide-react';
 import { LoadingSpinner } from '../common/LoadingSpinner';
+import { KudosButton } from '../results/KudosButton';
+import { WorkoutLogDetail } from '../results/WorkoutLogDetail';
+import { CommentCount } from '../results/CommentCount';
 import { format, startOfDay, endOfDay, subDays, addDays } from 'date-fns';
 import { useAuth } from '../../contexts/AuthContext';
+import { useUnits } from '../../hooks/useUnits';
+import { useRealtime } from '../../hooks/useRealtime';
+import { hasGivenKudos, toggleKudos, toggleKudosList, type KudosGiver } from '../../lib/kudos';
+import {
+  DEFAULT_WORKOUT_FORMAT,
+  compareResults,
+  describeResult,
+  describeTotal,
+  getWorkoutFormat,
+  hasFormatResult,
+  type FormatResult,
+  type ScoredExercise,
+} from '../../lib/workoutFormats';
+import { DEFAULT_DIVISION, DIVISIONS, getDivision } from '../../lib/divisions';
+import { totalLowerIsBetter } from '../../lib/scoring';
+import type { Division, WorkoutFormat } from '../../types/workout';
 
 interface UserRanking {
   id: string;
+  log_id: string;
   profile_name: string;
   daily_score: number;
-  likes: number;
-  hasLiked: boolean;
+  division: Division;
+  result: FormatResult;
+  kudos: KudosGiver[];
+  comments: number;
 }
 
+// Negative when `a` ranks above `b`; formatted WODs rank by their result, the
+// rest by total, lowest first when the total is a time.
+const compareRankings = (format: WorkoutFormat, lowestFirst: boolean) => (a: UserRanking, b: UserRanking) => {
+  if (hasFormatResult(format)) return compareResults(format, a.result, b.result);
+  return lowestFirst ? a.daily_score - b.daily_score : b.daily_score - a.daily_score;
+};
+
+// Keeps each athlete's best result; run per division so nobody is ranked twice.
+const bestPerAthlete = (entries: UserRanking[], compare: (a: UserRanking, b: UserRanking) => number) =>
+  entries.reduce((acc, curr) => {
+    const existing = acc.find(u => u.id === curr.id);
+    if (!existing) {
+      acc.push({ ...curr });
+    } else if (compare(curr, existing) < 0) {
+      existing.log_id = curr.log_id;
+      existing.daily_score = curr.daily_score;
+      existing.result = curr.result;
+      existing.kudos = curr.kudos;
+      existing.comments = curr.comments;
+    }
+    return acc;
+  }, [] as UserRanking[]);
+
 export function UserRankings() {
-  const [rankings, setRankings] = useState<UserRanking[]>([]);
+  const [entries, setEntries] = useState<UserRanking[]>([]);
+  const [division, setDivision] = useState<Division>(DEFAULT_DIVISION);
   const [loading, setLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState(new Date());
+  const [leaderboardFormat, setLeaderboardFormat] = useState<WorkoutFormat>(DEFAULT_WORKOUT_FORMAT);
+  // Tells the unit a standard WOD's totals are scored in
+  const [leaderboardExercises, setLeaderboardExercises] = useState<ScoredExercise[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [selectedLogId, setSelectedLogId] = useState<string | null>(null);
+  const wodIds = useRef<string[]>([]);
   const { user: authUser } = useAuth();
+  const { units } = useUnits();
+
+  // New scores, kudos and comments update the board in place while a class is logging
+  useRealtime(['workout_logs', 'kudos', 'workout_log_comments'], (change) => {
+    const row = change.eventType === 'DELETE' ? change.old : change.new;
+    if (change.table === 'workout_logs' && row.workout_id && !wodIds.current.includes(row.workout_id as string)) return;
+    setRefreshKey((key) => key + 1);
+  });
 
   useEffect(() => {
     async function fetchRankings() {
       try {
-        setLoading(true);
         const selectedDateStr = format(selectedDate, 'yyyy-MM-dd');
 
         // Get wod workouts for selected date
         const { data: wodWorkouts, error: wodError } = await supabase
           .from('workouts')
-          .select('id')
+          .select('id, format, workout_exercises (exercise:exercises (scoring_metric))')
           .eq('is_wod', true)
           .eq('scheduled_date', selectedDateStr);
 
+        wodIds.current = (wodWorkouts || []).map(w => w.id);
         if (wodError || !wodWorkouts?.length) {
-          setRankings([]);
+          setEntries([]);
           return;
         }
 
+        setLeaderboardFormat(getWorkoutFormat(wodWorkouts[0]));
+        setLeaderboardExercises((wodWorkouts[0].workout_exercises || []).map((exercise) => ({
+          // Typed as an array by the untyped client, returned as an object for this many-to-one join
+          exercise: Array.isArray(exercise.exercise) ? exercise.exercise[0] : exercise.exercise,
+        })));
+
         // Get all logs for these wod workouts
         const { data: logs, error: logsError } = await supabase
           .from('workout_logs')
           .select(`
+            id,
             total,
-            profiles!inner(id, profile_name)
+            division,
+            result_time_seconds,
+            result_rounds,
+            result_reps,
+            profiles!inner(id, profile_name),
+            kudos (
+              user_id,
+              profiles (profile_name)
+            ),
+            workout_log_comments (count)
           `)
-          .in('workout_id', wodWorkouts.map(w => w.id));
+          .in('workout_id', wodWorkouts.map(w => w.id))
+          .eq('in_progress', false);
 
         if (logsError) {
           console.error('Error fetching logs:', logsError);
           return;
         }
 
-        // Aggregate scores and likes
-        const userStats = await Promise.all(
-          logs.map(async (log) => {
-            const profile = log.profiles;
-            if (!profile) return null;
-
-            // Get likes count
-            const { count } = await supabase
-              .from('likes')
-              .select('*', { count: 'exact', head: true })
-              .eq('profile_id', profile.id);
-
-            return {
-              id: profile.id,
-              profile_name: profile.profile_name || 'Anonymous',
-              daily_score: log.total || 0,
-              likes: count || 0,
-              hasLiked: false,
-            };
-          })
-        );
-
-        // Merge duplicates and sort
-        const mergedStats = userStats.reduce((acc, curr) => {
-          if (!curr) return acc;
-          const existing = acc.find(u => u.id === curr.id);
-          if (existing) {
-            existing.daily_score = Math.max(existing.daily_score, curr.daily_score);
-          } else {
-            acc.push(curr);
-          }
-          return acc;
-        }, [] as UserRanking[]);
-
-        setRankings(
-          mergedStats.sort((a, b) => b.daily_score - a.daily_score).slice(0, 10)
-        );
+        const userStats = logs.map((log): UserRanking | null => {
+          // Typed as an array by the untyped client, returned as an object for this many-to-one join
+          const profile = Array.isArray(log.profiles) ? log.profiles[0] : log.profiles;
+          if (!profile) return null;
+
+          return {
+            id: profile.id,
+            log_id: log.id,
+            profile_name: profile.profile_name || 'Anonymous',
+            daily_score: log.total || 0,
+            division: getDivision(log),
+            result: {
+              result_time_seconds: log.result_time_seconds,
+              result_rounds: log.result_rounds,
+              result_reps: log.result_reps,
+            },
+            kudos: (log.kudos || []).map((entry) => ({
+              user_id: entry.user_id,
+              profiles: Array.isArray(entry.profiles) ? entry.profiles[0] : entry.profiles,
+            })),
+            comments: log.workout_log_comments?.[0]?.count ?? 0,
+          };
+        });
+
+        setEntries(userStats.filter((entry): entry is UserRanking => entry !== null));
       } catch (error) {
         console.error('Error fetching rankings:', error);
       } finally {
@@ -96,46 +161,57 @@ export function UserRankings() {
     }
 
     fetchRankings();
-  }, [selectedDate]);
+  }, [selectedDate, refreshKey]);
+
+  const rankings = useMemo(() => {
+    const compare = compareRankings(leaderboardFormat, totalLowerIsBetter(leaderboardExercises));
+    return bestPerAthlete(entries.filter(entry => entry.division === division), compare)
+      .sort(compare)
+      .slice(0, 10);
+  }, [entries, division, leaderboardFormat, leaderboardExercises]);
+
+  const setEntryKudos = (logId: string, update: (kudos: KudosGiver[]) => KudosGiver[]) => {
+    setEntries(prev => prev.map(entry =>
+      entry.log_id === logId ? { ...entry, kudos: update(entry.kudos) } : entry
+    ));
+  };
 
-  const handleLike = async (profileId: string) => {
-    if (!authUser || profileId === authUser.id) return;
+  const handleKudos = async (entry: UserRanking) => {
+    if (!authUser || entry.id === authUser.id) return;
+    const given = hasGivenKudos(entry.kudos, authUser.id);
 
+    // Update UI immediately, then roll back if the write fails
+    setEntryKudos(entry.log_id, kudos => toggleKudosList(kudos, authUser.id));
     try {
-      // Update UI immediately
-      setRankings(prev => prev.map(user => 
-        user.id === profileId 
-          ? { ...user, likes: user.likes + 1, hasLiked: true } 
-          : user
-      ));
-
-      // Record like in database
-      const { error } = await supabase
-        .from('likes')
-        .insert({ user_id: authUser.id, profile_id: profileId });
-
-      if (error) throw error;
+      await toggleKudos(entry.log_id, authUser.id, given);
     } catch (error) {
-      // Rollback on error
-      setRankings(prev => prev.map(user => 
-        user.id === profileId 
-          ? { ...user, likes: user.likes - 1, hasLiked: false } 
-          : user
-      ));
-      console.error('Like failed:', error);
+      setEntryKudos(entry.log_id, () => entry.kudos);
+      console.error('Kudos failed:', error);
     }
   };
 
-  // Date navigation handlers
-  const handlePrevDay = () => setSelectedDate(d => subDays(d, 1));
-  const handleNextDay = () => setSelectedDate(d => addDays(d, 1));
+  // Only a new date shows the spinner; live refreshes swap the list in place
+  const handlePrevDay = () => {
+    setLoading(true);
+    setSelectedDate(d => subDays(d, 1));
+  };
+  const handleNextDay = () => {
+    setLoading(true);
+    setSelectedDate(d => addDays(d, 1));
+  };
 
   return (
     <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 transition-all duration-300">
       {/* Header and date navigation */}
       <div className="flex justify-between items-center mb-4">
         <div>
-          <h2 className="text-xl font-bold dark:text-gray-100">WOD Leaderboard</h2>
+          <h2 className="flex items-center text-xl font-bold dark:text-gray-100">
+            WOD Leaderboard
+            <span className="ml-2 flex items-center text-xs font-medium text-green-600">
+              <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse mr-1" />
+              Live
+            </span>
+          </h2>
           <p className="text-sm text-gray-500">
             {format(selectedDate, 'MMM do, yyyy')}
           </p>
@@ -150,12 +226,36 @@ export function UserRankings() {
         </div>
       </div>
 
+      {/* Division tabs */}
+      <div className="flex gap-2 mb-4">
+        {DIVISIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setDivision(option.value)}
+            className={`px-3 py-1 rounded-md text-sm font-medium ${
+              division === option.value
+                ? 'bg-indigo-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200'
+            }`}
+          >
+            {option.label}
+            <span className="ml-1 opacity-75">
+              ({new Set(entries.filter(entry => entry.division === option.value).map(entry => entry.id)).size})
+            </span>
+          </button>
+        ))}
+      </div>
+
       {/* Rankings list */}
       {loading ? (
         <LoadingSpinner />
       ) : rankings.length > 0 ? (
         rankings.map((user, index) => (
-          <div key={user.id} className="flex items-center justify-between p-3 dark:bg-gray-800 rounded-lg">
+          <div
+            key={user.id}
+            onClick={() => setSelectedLogId(user.log_id)}
+            className="flex items-center justify-between p-3 dark:bg-gray-800 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
             <div className="flex items-center gap-4 ">
               <RankIcon index={index} />
               <div>
@@ -163,16 +263,20 @@ export function UserRankings() {
                   {user.profile_name}
                 </p>
                 <p className="text-sm text-gray-500">
-                  Score: {user.daily_score}
+                  {hasFormatResult(leaderboardFormat)
+                    ? describeResult(leaderboardFormat, user.result)
+                    : describeTotal(user.daily_score, leaderboardExercises, units)}
                 </p>
               </div>
             </div>
-            <LikeButton
-              likes={user.likes}
-              hasLiked={user.hasLiked}
-              isSelf={user.id === authUser?.id}
-              onClick={() => handleLike(user.id)}
-            />
+            <div className="flex items-center gap-3">
+              <CommentCount count={user.comments} />
+              <KudosButton
+                kudos={user.kudos}
+                isOwn={user.id === authUser?.id}
+                onToggle={() => handleKudos(user)}
+              />
+            </div>
           </div>
         ))
       ) : (
@@ -180,6 +284,10 @@ export function UserRankings() {
           No WOD results for this date
         </p>
       )}
+
+      {selectedLogId && (
+        <WorkoutLogDetail logId={selectedLogId} onClose={() => setSelectedLogId(null)} />
+      )}
     </div>
   );
 }
@@ -191,19 +299,3 @@ const RankIcon = ({ index }: { index: number }) => {
   if (index === 2) return <Medal className="h-6 w-6 text-amber-600" />;
   return <span className="w-6 text-center font-medium text-gray-500">{index + 1}</span>;
 };
-
-const LikeButton = ({ likes, hasLiked, isSelf, onClick }: { 
-  likes: number;
-  hasLiked: boolean;
-  isSelf: boolean;
-  onClick: () => void;
-}) => (
-  <button
-    onClick={onClick}
-    disabled={hasLiked || isSelf}
-    className="like-button"
-  >
-    <Heart className={`h-5 w-5 ${hasLiked ? 'text-red-600' : 'text-gray-500'}`} />
-    <span className="ml-1">{likes}</span>
-  </button>
-);
@@ -0,0 +1,23 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { Dumbbell } from 'lucide-react';
+import { useUnits } from '../../hooks/useUnits';
+import { describeLogResult, getLogTitle } from '../../lib/workoutFormats';
+import { getDivision, getDivisionLabel } from '../../lib/divisions';
+import type { AttachedWorkoutLog as AttachedLog } from '../../types/message';
+
+export function AttachedWorkoutLog({ log }: { log: AttachedLog }) {
+  const { units } = useUnits();
+
+  return (
+    <div className="mt-3 flex items-center p-3 rounded-md bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+      <Dumbbell className="h-5 w-5 text-indigo-600 dark:text-indigo-400 mr-3" />
+      <div>
+        <p className="font-medium dark:text-gray-100">{getLogTitle(log)}</p>
+        <p className="text-sm text-gray-500">
+          {format(new Date(log.completed_at), 'PP')} · {getDivisionLabel(getDivision(log))} · {describeLogResult(log, units)}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Eye, EyeOff, Pencil, Pin, PinOff, Reply, ThumbsDown, ThumbsUp, Trash2 } from 'lucide-react';
+import { MessageEditHistory } from './MessageEditHistory';
+import { MessageContent } from './MessageContent';
+import { AttachedWorkoutLog } from './AttachedWorkoutLog';
+import { useAuth } from '../../contexts/AuthContext';
+import { summarizeReactions } from '../../lib/messages';
+import type { MentionableProfile } from '../../lib/mentions';
+import type { Message, MessageEdit, Reaction } from '../../types/message';
+
+interface MessageCardProps {
+  message: Message;
+  profiles: MentionableProfile[];
+  // Posts fill their thread's card; replies are indented beneath them
+  isReply?: boolean;
+  onReply?: () => void;
+  onReact: (messageId: string, reaction: Reaction) => Promise<void>;
+  onEdit: (messageId: string, content: string) => Promise<void>;
+  onDelete: (messageId: string) => Promise<void>;
+  onHide: (messageId: string, isHidden: boolean) => Promise<void>;
+  onPin: (messageId: string, isPinned: boolean) => Promise<void>;
+  fetchEditHistory: (messageId: string) => Promise<MessageEdit[]>;
+}
+
+export function MessageCard({
+  message,
+  profiles,
+  isReply = false,
+  onReply,
+  onReact,
+  onEdit,
+  onDelete,
+  onHide,
+  onPin,
+  fetchEditHistory,
+}: MessageCardProps) {
+  const { user, isAdmin } = useAuth();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [showHistory, setShowHistory] = useState(false);
+  const isAuthor = user?.id === message.profile_id;
+  const { likes, dislikes, userReaction } = summarizeReactions(message.message_reactions, user?.id);
+
+  const handleSave = async () => {
+    if (!draft.trim()) return;
+    try {
+      await onEdit(message.id, draft.trim());
+      setEditing(false);
+    } catch {
+      // The board shows the error
+    }
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm('Delete this message?')) return;
+    onDelete(message.id).catch(() => {});
+  };
+
+  return (
+    <div
+      id={`message-${message.id}`}
+      className={`${
+        isReply
+          ? 'pl-4 border-l-2 border-gray-200 dark:border-gray-700'
+          : 'p-6 rounded-lg'
+      } ${message.is_pinned ? 'ring-2 ring-indigo-400' : ''} ${message.is_hidden ? 'opacity-60' : ''}`}
+    >
+      <div className="flex justify-between items-start">
+        <div className="flex-1">
+          <div className="flex items-center gap-2">
+            <p className="font-medium dark:text-gray-100">
+              {message.profiles?.profile_name || 'Anonymous'}
+            </p>
+            {message.is_pinned && (
+              <span className="flex items-center text-xs text-indigo-600 dark:text-indigo-400">
+                <Pin className="h-3 w-3 mr-1" />
+                Pinned
+              </span>
+            )}
+            {message.is_hidden && (
+              <span className="flex items-center text-xs text-red-600">
+                <EyeOff className="h-3 w-3 mr-1" />
+                Hidden by a moderator
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-500">
+            {new Date(message.created_at).toLocaleDateString()}
+            {message.edited_at && (
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="ml-2 hover:text-indigo-600"
+                title={`Edited ${format(new Date(message.edited_at), 'PPp')}`}
+              >
+                {showHistory ? '(hide edits)' : '(edited)'}
+              </button>
+            )}
+          </p>
+
+          {editing ? (
+            <div className="mt-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50"
+              />
+              <div className="flex justify-end space-x-2 mt-2">
+                <button
+                  onClick={() => {
+                    setDraft(message.content);
+                    setEditing(false);
+                  }}
+                  className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-300"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  className="px-3 py-1 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <MessageContent content={message.content} profiles={profiles} />
+          )}
+
+          {message.workout_log && <AttachedWorkoutLog log={message.workout_log} />}
+
+          {showHistory && (
+            <MessageEditHistory messageId={message.id} fetchEditHistory={fetchEditHistory} />
+          )}
+        </div>
+
+        <div className="flex items-center space-x-2 ml-4">
+          {isAuthor && !editing && (
+            <button onClick={() => setEditing(true)} title="Edit" className="text-gray-400 hover:text-indigo-600">
+              <Pencil className="h-4 w-4" />
+            </button>
+          )}
+          {isAdmin && (
+            <>
+              <button
+                onClick={() => onPin(message.id, !message.is_pinned).catch(() => {})}
+                title={message.is_pinned ? 'Unpin' : 'Pin'}
+                className="text-gray-400 hover:text-indigo-600"
+              >
+                {message.is_pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+              </button>
+              <button
+                onClick={() => onHide(message.id, !message.is_hidden).catch(() => {})}
+                title={message.is_hidden ? 'Unhide' : 'Hide'}
+                className="text-gray-400 hover:text-indigo-600"
+              >
+                {message.is_hidden ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+              </button>
+            </>
+          )}
+          {(isAuthor || isAdmin) && (
+            <button onClick={handleDelete} title="Delete" className="text-red-600 hover:text-red-700">
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className={`flex items-center space-x-4 ${isReply ? 'mt-2' : 'mt-4'}`}>
+        <button
+          onClick={() => onReact(message.id, 'like')}
+          className={`flex items-center space-x-1 ${
+            userReaction === 'like' ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-500 hover:text-indigo-600'
+          }`}
+        >
+          <ThumbsUp className="h-5 w-5" />
+          <span>{likes}</span>
+        </button>
+        <button
+          onClick={() => onReact(message.id, 'dislike')}
+          className={`flex items-center space-x-1 ${
+            userReaction === 'dislike' ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-500 hover:text-indigo-600'
+          }`}
+        >
+          <ThumbsDown className="h-5 w-5" />
+          <span>{dislikes}</span>
+        </button>
+        {onReply && (
+          <button
+            onClick={onReply}
+            className="flex items-center space-x-1 text-gray-500 hover:text-indigo-600"
+          >
+            <Reply className="h-5 w-5" />
+            <span>Reply</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import React, { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { useRecentWorkoutLogs } from '../../hooks/useRecentWorkoutLogs';
+import { getLogTitle } from '../../lib/workoutFormats';
+import { activeMentionQuery, mentionHandle, mentionKey, type MentionableProfile } from '../../lib/mentions';
+
+interface MessageComposerProps {
+  profiles: MentionableProfile[];
+  onSubmit: (content: string, workoutLogId: string | null) => Promise<void>;
+  placeholder?: string;
+  submitLabel?: string;
+  onCancel?: () => void;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+export function MessageComposer({
+  profiles,
+  onSubmit,
+  placeholder = "What's on your mind?",
+  submitLabel = 'Post Message',
+  onCancel,
+}: MessageComposerProps) {
+  const { logs } = useRecentWorkoutLogs();
+  const [content, setContent] = useState('');
+  const [workoutLogId, setWorkoutLogId] = useState('');
+  const [caret, setCaret] = useState(0);
+  const [posting, setPosting] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const query = activeMentionQuery(content, caret);
+  const suggestions = query === null
+    ? []
+    : profiles
+      .filter((profile) => mentionKey(profile.profile_name || '').startsWith(mentionKey(query)))
+      .slice(0, MAX_SUGGESTIONS);
+
+  const insertMention = (profile: MentionableProfile) => {
+    const before = content.slice(0, caret).replace(/@[\w.-]*$/, `@${mentionHandle(profile)} `);
+    const next = before + content.slice(caret);
+    setContent(next);
+    setCaret(before.length);
+    textareaRef.current?.focus();
+  };
+
+  const handleSubmit = async () => {
+    if (!content.trim()) return;
+    setPosting(true);
+    try {
+      await onSubmit(content.trim(), workoutLogId || null);
+      setContent('');
+      setWorkoutLogId('');
+    } catch {
+      // The board shows the error
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={content}
+          onChange={(e) => {
+            setContent(e.target.value);
+            setCaret(e.target.selectionStart);
+          }}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          placeholder={placeholder}
+          className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50"
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 left-0 mt-1 w-64 bg-white dark:bg-gray-800 rounded-md shadow-lg">
+            {suggestions.map((profile) => (
+              <li key={profile.id}>
+                <button
+                  type="button"
+                  // Keep focus in the textarea so the caret position survives the click
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertMention(profile)}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 dark:hover:bg-gray-700 dark:text-gray-200"
+                >
+                  {profile.profile_name}
+                  <span className="text-gray-500 ml-2">@{mentionHandle(profile)}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 mt-2">
+        <select
+          value={workoutLogId}
+          onChange={(e) => setWorkoutLogId(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm text-sm"
+        >
+          <option value="">Attach a workout log...</option>
+          {logs.map((log) => (
+            <option key={log.id} value={log.id}>
+              {getLogTitle(log)} · {format(new Date(log.completed_at), 'PP')}
+            </option>
+          ))}
+        </select>
+        <div className="flex space-x-2">
+          {onCancel && (
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 dark:text-gray-300"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSubmit}
+            disabled={posting}
+            className="bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {submitLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
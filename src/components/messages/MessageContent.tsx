@@ -0,0 +1,23 @@
+import React from 'react';
+import { splitMentions, type MentionableProfile } from '../../lib/mentions';
+
+interface MessageContentProps {
+  content: string;
+  profiles: MentionableProfile[];
+}
+
+export function MessageContent({ content, profiles }: MessageContentProps) {
+  return (
+    <p className="mt-2 dark:text-gray-300 whitespace-pre-wrap">
+      {splitMentions(content, profiles).map((segment, index) =>
+        segment.profileId ? (
+          <span key={index} className="font-medium text-indigo-600 dark:text-indigo-400">
+            {segment.text}
+          </span>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </p>
+  );
+}
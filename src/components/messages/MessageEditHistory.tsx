@@ -0,0 +1,38 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import type { MessageEdit } from '../../types/message';
+
+interface MessageEditHistoryProps {
+  messageId: string;
+  fetchEditHistory: (messageId: string) => Promise<MessageEdit[]>;
+}
+
+export function MessageEditHistory({ messageId, fetchEditHistory }: MessageEditHistoryProps) {
+  const [edits, setEdits] = useState<MessageEdit[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEditHistory(messageId)
+      .then(setEdits)
+      .catch(() => setEdits([]))
+      .finally(() => setLoading(false));
+  }, [messageId, fetchEditHistory]);
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="mt-3 border-l-2 border-gray-200 dark:border-gray-700 pl-3 space-y-2">
+      {edits.length === 0 ? (
+        <p className="text-sm text-gray-500">No earlier versions</p>
+      ) : (
+        edits.map((edit) => (
+          <div key={edit.id}>
+            <p className="text-xs text-gray-500">Before {format(new Date(edit.edited_at), 'PPp')}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-wrap">{edit.content}</p>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { MessageCard } from './MessageCard';
+import { MessageComposer } from './MessageComposer';
+import type { MentionableProfile } from '../../lib/mentions';
+import type { PostOptions } from '../../hooks/useMessageBoard';
+import type { MessageEdit, MessageThread as Thread, Reaction } from '../../types/message';
+
+interface MessageThreadProps {
+  thread: Thread;
+  profiles: MentionableProfile[];
+  onPost: (content: string, options: PostOptions) => Promise<void>;
+  onReact: (messageId: string, reaction: Reaction) => Promise<void>;
+  onEdit: (messageId: string, content: string) => Promise<void>;
+  onDelete: (messageId: string) => Promise<void>;
+  onHide: (messageId: string, isHidden: boolean) => Promise<void>;
+  onPin: (messageId: string, isPinned: boolean) => Promise<void>;
+  fetchEditHistory: (messageId: string) => Promise<MessageEdit[]>;
+}
+
+export function MessageThread({ thread, profiles, onPost, ...actions }: MessageThreadProps) {
+  const [replying, setReplying] = useState(false);
+  const { replies, ...post } = thread;
+
+  const handleReply = async (content: string, workoutLogId: string | null) => {
+    await onPost(content, { parentId: thread.id, workoutLogId });
+    setReplying(false);
+  };
+
+  return (
+    <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md transition-all duration-300">
+      <MessageCard
+        message={post}
+        profiles={profiles}
+        onReply={() => setReplying(!replying)}
+        {...actions}
+      />
+
+      {(replies.length > 0 || replying) && (
+        <div className="px-6 pb-6 space-y-4">
+          {replies.map((reply) => (
+            <MessageCard key={reply.id} message={reply} profiles={profiles} isReply {...actions} />
+          ))}
+          {replying && (
+            <MessageComposer
+              profiles={profiles}
+              onSubmit={handleReply}
+              placeholder={`Reply to ${post.profiles?.profile_name || 'this post'}...`}
+              submitLabel="Reply"
+              onCancel={() => setReplying(false)}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
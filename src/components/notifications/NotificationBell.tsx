@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { WorkoutLogDetail } from '../results/WorkoutLogDetail';
+import { useNotifications } from '../../hooks/useNotifications';
+import type { Notification } from '../../types/message';
+
+const DESCRIPTIONS: Record<Notification['type'], string> = {
+  mention: 'mentioned you in a post',
+  reply: 'replied to your post',
+  comment: 'commented on your workout',
+};
+
+export function NotificationBell() {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markAllRead, refresh } = useNotifications();
+  const [open, setOpen] = useState(false);
+  const [selectedLogId, setSelectedLogId] = useState<string | null>(null);
+
+  const toggle = () => {
+    if (!open) refresh();
+    setOpen(!open);
+  };
+
+  const handleSelect = (notification: Notification) => {
+    setOpen(false);
+    markAllRead();
+    if (notification.message_id) {
+      navigate(`/message-board#message-${notification.message_id}`);
+    } else if (notification.workout_log_id) {
+      setSelectedLogId(notification.workout_log_id);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className="relative dark:text-gray-300 hover:text-indigo-600 px-3 py-2 rounded-md text-sm font-medium dark:hover:text-indigo-400"
+      >
+        <Bell className="h-5 w-5" />
+        {unreadCount > 0 && (
+          <span className="absolute top-0 right-0 bg-red-600 text-white text-xs rounded-full h-4 min-w-[1rem] px-1 flex items-center justify-center">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white dark:bg-gray-800 rounded-lg shadow-lg z-50">
+          <div className="flex justify-between items-center px-4 py-2 border-b dark:border-gray-700">
+            <span className="font-medium dark:text-gray-100">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={markAllRead} className="text-xs text-indigo-600 hover:text-indigo-700">
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-6">You're all caught up</p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleSelect(notification)}
+                  className={`w-full text-left px-4 py-3 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                    notification.read_at ? '' : 'bg-indigo-50 dark:bg-indigo-900/30'
+                  }`}
+                >
+                  <p className="dark:text-gray-200">
+                    <span className="font-medium">{notification.actor?.profile_name || 'Someone'}</span>{' '}
+                    {DESCRIPTIONS[notification.type]}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      {selectedLogId && (
+        <WorkoutLogDetail logId={selectedLogId} onClose={() => setSelectedLogId(null)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Trophy } from 'lucide-react';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { ProgressChart } from './ProgressChart';
+import { useExerciseProgress } from '../../hooks/useExerciseProgress';
+import { useUserPreferences } from '../../hooks/useUserPreferences';
+import { useUnits } from '../../hooks/useUnits';
+import { fromStoredMeasure, measureUnit } from '../../lib/units';
+import {
+  PROGRESS_RANGES,
+  PROGRESS_SERIES,
+  availableSeries,
+  buildProgress,
+  filterByRange,
+  type ProgressRange,
+  type ProgressSeries,
+} from '../../lib/progress';
+
+interface ExerciseProgressProps {
+  exerciseId: string;
+  exerciseName: string;
+}
+
+export function ExerciseProgress({ exerciseId, exerciseName }: ExerciseProgressProps) {
+  const { sessions, loading } = useExerciseProgress(exerciseId);
+  const { preferences } = useUserPreferences();
+  const { units } = useUnits();
+  const [series, setSeries] = useState<ProgressSeries>('max_weight');
+  const [range, setRange] = useState<ProgressRange>('3m');
+
+  if (loading) return <LoadingSpinner />;
+
+  const seriesOptions = availableSeries(sessions);
+  // Fall back to a series this exercise actually has data for, e.g. distance for runs
+  const activeSeries = seriesOptions.includes(series) ? series : seriesOptions[0] || series;
+  const { measure } = PROGRESS_SERIES[activeSeries];
+  const unit = measureUnit(measure, units, 'cal');
+  const allPoints = buildProgress(sessions, activeSeries, preferences.one_rm_formula)
+    .map((point) => ({ ...point, value: fromStoredMeasure(measure, point.value, units) }));
+  const points = filterByRange(allPoints, range);
+  const best = allPoints.reduce((top, point) => Math.max(top, point.value), 0);
+  const prCount = points.filter((point) => point.isPr).length;
+
+  return (
+    <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 mb-4 transition-all duration-300">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-xl font-bold dark:text-gray-100">{exerciseName} Progress</h2>
+        <div className="flex gap-1">
+          {PROGRESS_RANGES.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setRange(option.value)}
+              className={`px-2 py-1 rounded text-sm font-medium ${
+                range === option.value
+                  ? 'bg-indigo-600 text-white'
+                  : 'text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-700'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {seriesOptions.length === 0 ? (
+        <p className="text-center text-gray-500 py-8">No logged sets for this exercise yet</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-4">
+            {seriesOptions.map((option) => (
+              <button
+                key={option}
+                onClick={() => setSeries(option)}
+                className={`px-3 py-1 rounded-md text-sm font-medium ${
+                  activeSeries === option
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200'
+                }`}
+              >
+                {PROGRESS_SERIES[option].label}
+              </button>
+            ))}
+          </div>
+
+          <ProgressChart points={points} unit={unit} />
+
+          <div className="flex justify-between text-sm mt-2">
+            <span className="dark:text-gray-300">
+              All-time best: <span className="font-medium">{best} {unit}</span>
+            </span>
+            <span className="flex items-center text-gray-500">
+              <Trophy className="h-4 w-4 text-yellow-500 mr-1" />
+              {prCount} {prCount === 1 ? 'PR' : 'PRs'} in range
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
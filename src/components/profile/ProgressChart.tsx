@@ -0,0 +1,83 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import type { ProgressPoint } from '../../lib/progress';
+
+interface ProgressChartProps {
+  points: ProgressPoint[];
+  unit: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 48 };
+
+export function ProgressChart({ points, unit }: ProgressChartProps) {
+  if (points.length === 0) {
+    return <p className="text-center text-gray-500 py-8">No data in this range</p>;
+  }
+
+  const times = points.map((point) => parseISO(point.date).getTime());
+  const values = points.map((point) => point.value);
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  // Pad the value axis so a flat line doesn't sit on the edge of the chart
+  const minValue = Math.min(...values) * 0.95;
+  const maxValue = Math.max(...values) * 1.05 || 1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: number) =>
+    PADDING.left + (maxTime === minTime ? plotWidth / 2 : ((time - minTime) / (maxTime - minTime)) * plotWidth);
+  const y = (value: number) =>
+    PADDING.top + plotHeight - ((value - minValue) / (maxValue - minValue || 1)) * plotHeight;
+
+  const path = points
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(times[index])},${y(point.value)}`)
+    .join(' ');
+  const gridValues = [minValue, (minValue + maxValue) / 2, maxValue];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Progress chart">
+      {gridValues.map((value) => (
+        <g key={value}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(value)}
+            y2={y(value)}
+            className="stroke-gray-200 dark:stroke-gray-600"
+            strokeDasharray="4 4"
+          />
+          <text x={PADDING.left - 6} y={y(value) + 4} textAnchor="end" className="fill-gray-500 text-[10px]">
+            {Math.round(value)}
+          </text>
+        </g>
+      ))}
+
+      <text x={PADDING.left} y={HEIGHT - 8} className="fill-gray-500 text-[10px]">
+        {format(minTime, 'MMM d, yyyy')}
+      </text>
+      {maxTime !== minTime && (
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 8} textAnchor="end" className="fill-gray-500 text-[10px]">
+          {format(maxTime, 'MMM d, yyyy')}
+        </text>
+      )}
+
+      <path d={path} fill="none" className="stroke-indigo-600" strokeWidth={2} />
+
+      {points.map((point, index) => (
+        <circle
+          key={`${point.date}-${index}`}
+          cx={x(times[index])}
+          cy={y(point.value)}
+          r={point.isPr ? 6 : 3}
+          className={point.isPr ? 'fill-yellow-500 stroke-white' : 'fill-indigo-600'}
+        >
+          <title>
+            {`${format(times[index], 'PP')}: ${point.value} ${unit}${point.isPr ? ' (PR)' : ''}`}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
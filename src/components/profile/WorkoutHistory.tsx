@@ -2,40 +2,55 @@ import React, { useState, useEffect } from 'react';
     import { format } from 'date-fns';
     import { supabase } from '../../lib/supabase';
     import { useAuth } from '../../contexts/AuthContext';
+    import { useUnits } from '../../hooks/useUnits';
     import { LoadingSpinner } from '../common/LoadingSpinner';
+    import { WorkoutLogDetail } from '../results/WorkoutLogDetail';
+    import { CommentCount } from '../results/CommentCount';
+    import { describeLogResult, getLogTitle } from '../../lib/workoutFormats';
     import type { WorkoutLog } from '../../types/workout';
 
+    type HistoryLog = WorkoutLog & {
+      workout_log_comments?: { count: number }[];
+    };
+
     interface WorkoutHistoryProps {
       exerciseId?: string | null;
     }
 
     export function WorkoutHistory({ exerciseId }: WorkoutHistoryProps) {
       const { user } = useAuth();
-      const [workouts, setWorkouts] = useState<WorkoutLog[]>([]);
+      const { units } = useUnits();
+      const [workouts, setWorkouts] = useState<HistoryLog[]>([]);
       const [loading, setLoading] = useState(true);
+      const [selectedLogId, setSelectedLogId] = useState<string | null>(null);
 
       useEffect(() => {
         async function fetchWorkoutHistory() {
           if (!user) return;
 
           try {
+            // With an exercise selected, only logs with sets of it are listed
+            const columns: string = `
+                *,
+                workout:workouts (
+                  *,
+                  workout_exercises (exercise:exercises (scoring_metric))
+                ),
+                workout_log_comments (count)${exerciseId ? ', exercise_scores!inner (exercise_id)' : ''}
+              `;
             let query = supabase
               .from('workout_logs')
-              .select(`
-                *,
-                workouts (
-                  *
-                )
-              `)
+              .select(columns)
               .eq('user_id', user.id)
+              .eq('in_progress', false)
               .order('completed_at', { ascending: false })
               .limit(20);
 
             if (exerciseId) {
-              query = query.contains('workouts->workout_exercises->exercise_id', [exerciseId]);
+              query = query.eq('exercise_scores.exercise_id', exerciseId);
             }
 
-            const { data, error } = await query;
+            const { data, error } = await query.returns<HistoryLog[]>();
 
             if (error) throw error;
             setWorkouts(data || []);
@@ -59,10 +74,11 @@ import React, { useState, useEffect } from 'react';
             {workouts.map((log) => (
               <div
                 key={log.id}
-                className="flex items-center justify-between p-4 dark:bg-gray-800 rounded-lg"
+                onClick={() => setSelectedLogId(log.id)}
+                className="flex items-center justify-between p-4 dark:bg-gray-800 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
               >
                 <div>
-                  <h3 className="font-medium dark:text-gray-100">{log.workouts.name}</h3>
+                  <h3 className="font-medium dark:text-gray-100">{getLogTitle(log)}</h3>
                   <p className="text-sm dark:text-gray-300">
                     {format(new Date(log.completed_at), 'PPP')}
                   </p>
@@ -70,14 +86,19 @@ import React, { useState, useEffect } from 'react';
                     <p className="text-sm text-gray-500 mt-1">{log.notes}</p>
                   )}
                 </div>
-                <div className="text-right">
+                <div className="flex items-center gap-3">
+                  <CommentCount count={log.workout_log_comments?.[0]?.count ?? 0} />
                   <span className="text-indigo-600 font-medium">
-                    Score: {log.score}
+                    {describeLogResult(log, units)}
                   </span>
                 </div>
               </div>
             ))}
           </div>
+
+          {selectedLogId && (
+            <WorkoutLogDetail logId={selectedLogId} onClose={() => setSelectedLogId(null)} />
+          )}
         </div>
       );
     }
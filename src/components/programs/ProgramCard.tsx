@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronUp, Play, Plus, Trash2, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { DAYS_PER_WEEK } from '../../lib/programs';
+import type { ProgramSlot } from '../../hooks/usePrograms';
+import type { Program, Workout } from '../../types/workout';
+
+interface ProgramCardProps {
+  program: Program;
+  templates: Workout[];
+  onAddWorkout: (program: Program, slot: ProgramSlot) => Promise<void>;
+  onRemoveWorkout: (programWorkoutId: string) => Promise<void>;
+  onStart: (program: Program, startDate: string) => Promise<void>;
+  onDelete: (programId: string) => Promise<void>;
+}
+
+export function ProgramCard({
+  program,
+  templates,
+  onAddWorkout,
+  onRemoveWorkout,
+  onStart,
+  onDelete,
+}: ProgramCardProps) {
+  const { user, isAdmin } = useAuth();
+  const [expanded, setExpanded] = useState(false);
+  const [slot, setSlot] = useState<ProgramSlot>({ workout_id: '', week: 1, day: 1 });
+  const [startDate, setStartDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [busy, setBusy] = useState(false);
+  const isOwner = user?.id === program.created_by || isAdmin;
+  const programWorkouts = program.program_workouts || [];
+  const weeks = Array.from({ length: program.weeks }, (_, index) => index + 1);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch {
+      alert(failure);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!slot.workout_id) return;
+    run(() => onAddWorkout(program, slot), 'Failed to add workout. Please try again.');
+  };
+
+  const handleStart = () => {
+    run(async () => {
+      await onStart(program, startDate);
+      alert(`${program.name} scheduled from ${startDate}.`);
+    }, 'Failed to start program. Please try again.');
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete ${program.name}? Members following it will lose their scheduled workouts.`)) return;
+    run(() => onDelete(program.id), 'Failed to delete program. Please try again.');
+  };
+
+  return (
+    <div className="bg-white dark:bg-darkBackground dark:text-gray-100 rounded-lg shadow-md p-6 transition-all duration-300">
+      <div className="flex justify-between items-start">
+        <div>
+          <h3 className="text-lg font-bold dark:text-gray-100">{program.name}</h3>
+          <p className="text-sm text-gray-500">
+            {program.weeks} {program.weeks === 1 ? 'week' : 'weeks'} · {programWorkouts.length} workouts
+          </p>
+          {program.description && (
+            <p className="text-gray-600 dark:text-gray-300 mt-1">{program.description}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {isOwner && (
+            <button onClick={handleDelete} disabled={busy} className="p-2 text-red-600 hover:text-red-700">
+              <Trash2 className="h-5 w-5" />
+            </button>
+          )}
+          <button onClick={() => setExpanded(!expanded)} className="p-2 text-gray-500 hover:text-indigo-600">
+            {expanded ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-4">
+        <input
+          type="date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+        />
+        <button
+          onClick={handleStart}
+          disabled={busy || programWorkouts.length === 0 || !startDate}
+          className="flex items-center px-3 py-2 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Play className="h-4 w-4 mr-1" />
+          Start Program
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-4 space-y-4">
+          {weeks.map((week) => {
+            const weekWorkouts = programWorkouts.filter((entry) => entry.week === week);
+            return (
+              <div key={week}>
+                <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">Week {week}</h4>
+                {weekWorkouts.length === 0 ? (
+                  <p className="text-sm text-gray-400">No workouts</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {weekWorkouts.map((entry) => (
+                      <li key={entry.id} className="flex items-center justify-between text-sm p-2 rounded bg-gray-50 dark:bg-gray-800">
+                        <span>
+                          <span className="text-gray-500 mr-2">Day {entry.day}</span>
+                          {entry.workout?.name}
+                        </span>
+                        {isOwner && (
+                          <button
+                            onClick={() => run(() => onRemoveWorkout(entry.id), 'Failed to remove workout. Please try again.')}
+                            disabled={busy}
+                            className="text-gray-400 hover:text-red-600"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+
+          {isOwner && (
+            <form onSubmit={handleAdd} className="flex flex-wrap items-end gap-2 pt-2 border-t dark:border-gray-700">
+              <select
+                value={slot.week}
+                onChange={(e) => setSlot({ ...slot, week: parseInt(e.target.value) })}
+                className="rounded-md border-gray-300 shadow-sm text-sm"
+              >
+                {weeks.map((week) => (
+                  <option key={week} value={week}>Week {week}</option>
+                ))}
+              </select>
+              <select
+                value={slot.day}
+                onChange={(e) => setSlot({ ...slot, day: parseInt(e.target.value) })}
+                className="rounded-md border-gray-300 shadow-sm text-sm"
+              >
+                {Array.from({ length: DAYS_PER_WEEK }, (_, index) => index + 1).map((day) => (
+                  <option key={day} value={day}>Day {day}</option>
+                ))}
+              </select>
+              <select
+                value={slot.workout_id}
+                onChange={(e) => setSlot({ ...slot, workout_id: e.target.value })}
+                className="flex-1 min-w-[10rem] rounded-md border-gray-300 shadow-sm text-sm"
+                required
+              >
+                <option value="">Select a workout</option>
+                {templates.map((workout) => (
+                  <option key={workout.id} value={workout.id}>{workout.name}</option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={busy}
+                className="flex items-center px-3 py-2 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
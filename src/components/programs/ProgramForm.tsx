@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import type { ProgramFormData } from '../../hooks/usePrograms';
+
+interface ProgramFormProps {
+  onSubmit: (formData: ProgramFormData) => Promise<void>;
+}
+
+const EMPTY_PROGRAM: ProgramFormData = { name: '', description: '', weeks: 8 };
+
+export function ProgramForm({ onSubmit }: ProgramFormProps) {
+  const [formData, setFormData] = useState<ProgramFormData>(EMPTY_PROGRAM);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSubmit(formData);
+      setFormData(EMPTY_PROGRAM);
+    } catch {
+      alert('Failed to create program. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white dark:bg-darkBackground dark:text-gray-100 rounded-lg shadow-md p-6 space-y-4">
+      <h2 className="text-xl font-bold dark:text-gray-100">New Program</h2>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="md:col-span-3">
+          <label className="block text-sm font-medium dark:text-gray-300">Name</label>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium dark:text-gray-300">Weeks</label>
+          <input
+            type="number"
+            min="1"
+            max="52"
+            value={formData.weeks}
+            onChange={(e) => setFormData({ ...formData, weeks: parseInt(e.target.value) || 1 })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            required
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium dark:text-gray-300">Description</label>
+        <textarea
+          value={formData.description}
+          onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+          rows={2}
+          className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        />
+      </div>
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {saving ? 'Creating...' : 'Create Program'}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,99 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { CheckCircle, Circle } from 'lucide-react';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { WorkoutCard } from '../workouts/WorkoutCard';
+import { useProgramEnrollments } from '../../hooks/useProgramEnrollments';
+import { currentProgramWeek, programDate } from '../../lib/programs';
+
+interface ProgramProgressProps {
+  userId: string;
+  // On the programs page members log this week's workouts straight from the list
+  showCurrentWeek?: boolean;
+}
+
+export function ProgramProgress({ userId, showCurrentWeek = false }: ProgramProgressProps) {
+  const { enrollments, loading, leaveProgram, refresh } = useProgramEnrollments(userId);
+
+  const handleLeave = async (enrollmentId: string, name: string) => {
+    if (!window.confirm(`Leave ${name}? Its scheduled workouts will be removed.`)) return;
+    try {
+      await leaveProgram(enrollmentId);
+    } catch {
+      alert('Failed to leave program. Please try again.');
+    }
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 transition-all duration-300">
+      <h2 className="text-xl font-bold dark:text-gray-100 mb-4">Programs</h2>
+
+      {enrollments.length === 0 ? (
+        <p className="text-gray-500 text-center py-4">Not following any programs</p>
+      ) : (
+        <div className="space-y-6">
+          {enrollments.map((enrollment) => {
+            const weeks = enrollment.program?.weeks || 1;
+            const week = currentProgramWeek(enrollment.start_date, weeks);
+            const weekStart = programDate(enrollment.start_date, week, 1);
+            const weekEnd = programDate(enrollment.start_date, week, 7);
+            const thisWeek = enrollment.workouts.filter(
+              (workout) => workout.scheduled_date && workout.scheduled_date >= weekStart && workout.scheduled_date <= weekEnd
+            );
+
+            return (
+              <div key={enrollment.id}>
+                <div className="flex justify-between items-baseline">
+                  <p className="font-medium dark:text-gray-100">{enrollment.program?.name}</p>
+                  <span className="text-sm text-gray-500">
+                    {enrollment.completion.completed}/{enrollment.completion.total} workouts
+                  </span>
+                </div>
+                <p className="text-sm text-gray-500">
+                  Started {format(parseISO(enrollment.start_date), 'PP')} · Week {week} of {weeks}
+                </p>
+                <div className="mt-2 h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-600"
+                    style={{ width: `${enrollment.completion.percent}%` }}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{enrollment.completion.percent}% complete</p>
+
+                {showCurrentWeek && (
+                  <div className="mt-4 space-y-4">
+                    {thisWeek.length === 0 ? (
+                      <p className="text-sm text-gray-500">Nothing scheduled this week</p>
+                    ) : (
+                      thisWeek.map((workout) => (
+                        <div key={workout.id}>
+                          <p className="flex items-center text-sm text-gray-500 mb-1">
+                            {workout.completed ? (
+                              <CheckCircle className="h-4 w-4 text-green-500 mr-1" />
+                            ) : (
+                              <Circle className="h-4 w-4 mr-1" />
+                            )}
+                            {format(parseISO(workout.scheduled_date!), 'EEEE, MMM d')}
+                          </p>
+                          <WorkoutCard workout={workout} onDelete={refresh} />
+                        </div>
+                      ))
+                    )}
+                    <button
+                      onClick={() => handleLeave(enrollment.id, enrollment.program?.name || 'this program')}
+                      className="text-sm text-red-600 hover:text-red-700"
+                    >
+                      Leave program
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import React from 'react';
+import { MessageCircle } from 'lucide-react';
+
+interface CommentCountProps {
+  count: number;
+}
+
+export function CommentCount({ count }: CommentCountProps) {
+  return (
+    <span className="flex items-center text-sm text-gray-500" title="Comments">
+      <MessageCircle className="h-5 w-5" />
+      <span className="ml-1">{count}</span>
+    </span>
+  );
+}
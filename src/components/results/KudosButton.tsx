@@ -0,0 +1,33 @@
+import React from 'react';
+import { Heart } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { hasGivenKudos, type KudosGiver } from '../../lib/kudos';
+
+interface KudosButtonProps {
+  kudos: KudosGiver[];
+  // Athletes can't give kudos to their own logs
+  isOwn: boolean;
+  onToggle: () => void;
+}
+
+export function KudosButton({ kudos, isOwn, onToggle }: KudosButtonProps) {
+  const { user } = useAuth();
+  const given = hasGivenKudos(kudos, user?.id);
+  const names = kudos.map((entry) => entry.profiles?.profile_name).filter(Boolean).join(', ');
+
+  return (
+    <button
+      onClick={(e) => {
+        // Rows that open the log detail shouldn't open it on a kudos click
+        e.stopPropagation();
+        onToggle();
+      }}
+      disabled={isOwn}
+      title={isOwn ? names || 'Kudos' : given ? 'Take back kudos' : 'Give kudos'}
+      className="flex items-center text-sm disabled:cursor-default"
+    >
+      <Heart className={`h-5 w-5 ${given ? 'text-red-600 fill-red-600' : 'text-gray-500'}`} />
+      <span className="ml-1">{kudos.length}</span>
+    </button>
+  );
+}
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Trash2 } from 'lucide-react';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { useAuth } from '../../contexts/AuthContext';
+import { useLogComments } from '../../hooks/useLogComments';
+
+interface LogCommentsProps {
+  logId: string;
+  athleteId: string;
+}
+
+export function LogComments({ logId, athleteId }: LogCommentsProps) {
+  const { user, isAdmin } = useAuth();
+  const { comments, loading, addComment, deleteComment } = useLogComments(logId, athleteId);
+  const [content, setContent] = useState('');
+  const [posting, setPosting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    setPosting(true);
+    try {
+      await addComment(content.trim());
+      setContent('');
+    } catch {
+      alert('Failed to post comment. Please try again.');
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!window.confirm('Delete this comment?')) return;
+    try {
+      await deleteComment(commentId);
+    } catch {
+      alert('Failed to delete comment. Please try again.');
+    }
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div>
+      <h3 className="font-medium dark:text-gray-100 mb-2">Comments</h3>
+      {comments.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments yet</p>
+      ) : (
+        <ul className="space-y-3">
+          {comments.map((comment) => (
+            <li key={comment.id} className="flex justify-between items-start gap-2">
+              <div>
+                <p className="text-sm">
+                  <span className="font-medium dark:text-gray-100">{comment.profiles?.profile_name || 'Anonymous'}</span>
+                  <span className="text-gray-500 ml-2">
+                    {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                  </span>
+                </p>
+                <p className="text-sm dark:text-gray-300 whitespace-pre-wrap">{comment.content}</p>
+              </div>
+              {(comment.profile_id === user?.id || athleteId === user?.id || isAdmin) && (
+                <button
+                  onClick={() => handleDelete(comment.id)}
+                  className="text-gray-400 hover:text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="mt-4 flex gap-2">
+        <input
+          type="text"
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          placeholder="Add a comment..."
+          className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50 text-sm"
+        />
+        <button
+          type="submit"
+          disabled={posting || !content.trim()}
+          className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Post
+        </button>
+      </form>
+    </div>
+  );
+}
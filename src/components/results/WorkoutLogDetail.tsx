@@ -0,0 +1,95 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { X } from 'lucide-react';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { KudosButton } from './KudosButton';
+import { LogComments } from './LogComments';
+import { useAuth } from '../../contexts/AuthContext';
+import { useUnits } from '../../hooks/useUnits';
+import { useWorkoutLogDetail } from '../../hooks/useWorkoutLogDetail';
+import { hasGivenKudos, toggleKudos } from '../../lib/kudos';
+import { describeLogResult, getLogTitle } from '../../lib/workoutFormats';
+import { getDivision, getDivisionLabel } from '../../lib/divisions';
+
+interface WorkoutLogDetailProps {
+  logId: string;
+  onClose: () => void;
+}
+
+export function WorkoutLogDetail({ logId, onClose }: WorkoutLogDetailProps) {
+  const { user } = useAuth();
+  const { units } = useUnits();
+  const { log, loading, refresh } = useWorkoutLogDetail(logId);
+
+  const handleKudos = async () => {
+    if (!user || !log) return;
+    try {
+      await toggleKudos(log.id, user.id, hasGivenKudos(log.kudos, user.id));
+      await refresh();
+    } catch (error) {
+      console.error('Error updating kudos:', error);
+      alert('Failed to update kudos. Please try again.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6 max-w-lg w-full max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {loading ? (
+          <LoadingSpinner />
+        ) : !log ? (
+          <p className="text-center text-gray-500 py-4">This log is no longer available</p>
+        ) : (
+          <>
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h2 className="text-xl font-bold dark:text-gray-100">{getLogTitle(log)}</h2>
+                <p className="text-sm text-gray-500">
+                  {log.profiles?.profile_name || 'Anonymous'} · {format(new Date(log.completed_at), 'PPP')}
+                </p>
+              </div>
+              <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="flex items-center justify-between p-3 rounded-md bg-gray-50 dark:bg-gray-700">
+              <div>
+                <p className="text-indigo-600 dark:text-indigo-400 font-medium">{describeLogResult(log, units)}</p>
+                <p className="text-sm text-gray-500">{getDivisionLabel(getDivision(log))}</p>
+              </div>
+              <KudosButton kudos={log.kudos} isOwn={log.user_id === user?.id} onToggle={handleKudos} />
+            </div>
+
+            {log.notes && (
+              <p className="mt-4 dark:text-gray-300 whitespace-pre-wrap">{log.notes}</p>
+            )}
+
+            <div className="mt-6">
+              <h3 className="font-medium dark:text-gray-100 mb-2">Kudos</h3>
+              {log.kudos.length === 0 ? (
+                <p className="text-sm text-gray-500">No kudos yet</p>
+              ) : (
+                <ul className="space-y-1">
+                  {log.kudos.map((entry) => (
+                    <li key={entry.id} className="flex justify-between text-sm">
+                      <span className="dark:text-gray-200">{entry.profiles?.profile_name || 'Anonymous'}</span>
+                      <span className="text-gray-500">{format(new Date(entry.created_at), 'PP')}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="mt-6">
+              <LogComments logId={log.id} athleteId={log.user_id} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
     import cloudinary from '../../lib/cloudinary';
     import { supabase } from '../../lib/supabase';
     import { Trash2 } from 'lucide-react';
+    import { PlateInventorySettings } from './PlateInventorySettings';
+    import { DEFAULT_SCORING_METRIC, SCORING_METRICS, getScoringMetric } from '../../lib/scoring';
+    import type { Exercise, ScoringMetric } from '../../types/workout';
     
     export function AdminSettings() {
       const [loading, setLoading] = useState(false);
@@ -10,8 +13,9 @@ import React, { useState, useEffect } from 'react';
       const [newExerciseName, setNewExerciseName] = useState('');
       const [newExerciseDescription, setNewExerciseDescription] = useState('');
       const [newExerciseCategory, setNewExerciseCategory] = useState('');
+      const [newExerciseMetric, setNewExerciseMetric] = useState<ScoringMetric>(DEFAULT_SCORING_METRIC);
       const [exerciseMessage, setExerciseMessage] = useState('');
-      const [exercises, setExercises] = useState([]);
+      const [exercises, setExercises] = useState<Exercise[]>([]);
       const [selectedExercise, setSelectedExercise] = useState('');
     
       useEffect(() => {
@@ -108,6 +112,7 @@ import React, { useState, useEffect } from 'react';
                 name: newExerciseName,
                 description: newExerciseDescription,
                 category: newExerciseCategory,
+                scoring_metric: newExerciseMetric,
               },
             ]);
     
@@ -116,6 +121,7 @@ import React, { useState, useEffect } from 'react';
           setNewExerciseName('');
           setNewExerciseDescription('');
           setNewExerciseCategory('');
+          setNewExerciseMetric(DEFAULT_SCORING_METRIC);
           // Refresh exercises
           const { data, error: fetchError } = await supabase
             .from('exercises')
@@ -161,7 +167,31 @@ import React, { useState, useEffect } from 'react';
         }
       };
     
+      const handleUpdateMetric = async (metric: ScoringMetric) => {
+        setLoading(true);
+        setExerciseMessage('');
+    
+        try {
+          const { error } = await supabase
+            .from('exercises')
+            .update({ scoring_metric: metric })
+            .eq('id', selectedExercise);
+    
+          if (error) throw error;
+          setExercises(prev => prev.map(exercise =>
+            exercise.id === selectedExercise ? { ...exercise, scoring_metric: metric } : exercise
+          ));
+          setExerciseMessage('Scoring metric updated successfully');
+        } catch (error) {
+          console.error('Error updating scoring metric:', error);
+          setExerciseMessage('Error updating scoring metric');
+        } finally {
+          setLoading(false);
+        }
+      };
+    
       const categoryOptions = ['weight training', 'cardio', 'metcon'];
+      const selectedExerciseRow = exercises.find(exercise => exercise.id === selectedExercise);
     
       return (
         <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 transition-all duration-300">
@@ -195,7 +225,7 @@ import React, { useState, useEffect } from 'react';
           <div className="mt-8">
             <h3 className="text-lg font-medium dark:text-gray-100 mb-4">Create New Exercise</h3>
             <p className="text-sm text-gray-500 mb-4">
-              Note: Exercise names are case-sensitive.
+              Note: Exercise names are case-sensitive. The scoring metric decides how logged sets count towards scores and records.
             </p>
             <div className="space-y-4">
               <div>
@@ -239,6 +269,23 @@ import React, { useState, useEffect } from 'react';
                   ))}
                 </select>
               </div>
+              <div>
+                <label htmlFor="new_exercise_metric" className="block text-sm font-medium dark:text-gray-300">
+                  Scoring Metric
+                </label>
+                <select
+                  id="new_exercise_metric"
+                  value={newExerciseMetric}
+                  onChange={(e) => setNewExerciseMetric(e.target.value as ScoringMetric)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50"
+                >
+                  {SCORING_METRICS.map((metric) => (
+                    <option key={metric.value} value={metric.value}>
+                      {metric.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
               <button
                 onClick={handleCreateExercise}
                 disabled={loading}
@@ -262,7 +309,7 @@ import React, { useState, useEffect } from 'react';
                 onChange={(e) => setSelectedExercise(e.target.value)}
                 className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50"
               >
-                <option value="">Select an exercise to delete</option>
+                <option value="">Select an exercise</option>
                 {exercises.map((exercise) => (
                   <option key={exercise.id} value={exercise.id}>
                     {exercise.name}
@@ -277,6 +324,30 @@ import React, { useState, useEffect } from 'react';
                 <Trash2 className="h-4 w-4" />
               </button>
             </div>
+            {selectedExerciseRow && (
+              <div className="mt-4">
+                <label htmlFor="selected_exercise_metric" className="block text-sm font-medium dark:text-gray-300">
+                  Scoring Metric
+                </label>
+                <select
+                  id="selected_exercise_metric"
+                  value={getScoringMetric(selectedExerciseRow)}
+                  onChange={(e) => handleUpdateMetric(e.target.value as ScoringMetric)}
+                  disabled={loading}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50"
+                >
+                  {SCORING_METRICS.map((metric) => (
+                    <option key={metric.value} value={metric.value}>
+                      {metric.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div className="mt-8">
+            <PlateInventorySettings />
           </div>
         </div>
       );
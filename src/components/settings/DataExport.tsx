@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Download } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useUnits } from '../../hooks/useUnits';
+import { archiveToSetsCsv, downloadFile, fetchTrainingArchive } from '../../lib/dataExport';
+
+type ExportFormat = 'csv' | 'json';
+
+export function DataExport() {
+  const { user } = useAuth();
+  const { units } = useUnits();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (!user) return;
+
+    setExporting(exportFormat);
+    try {
+      const archive = await fetchTrainingArchive(user.id);
+      const filename = `training-history-${format(new Date(), 'yyyy-MM-dd')}`;
+      if (exportFormat === 'csv') {
+        downloadFile(`${filename}.csv`, archiveToSetsCsv(archive, units), 'text/csv;charset=utf-8');
+      } else {
+        downloadFile(`${filename}.json`, JSON.stringify(archive, null, 2), 'application/json');
+      }
+    } catch (error) {
+      console.error('Error exporting training history:', error);
+      alert('Failed to export your training history. Please try again.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 transition-all duration-300">
+      <h2 className="text-xl font-bold dark:text-gray-100 mb-2">Export Data</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Download your full training history. The CSV has one row per set; the JSON archive
+        also includes workout notes, results, personal records and tested maxes.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => handleExport('csv')}
+          disabled={exporting !== null}
+          className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          {exporting === 'csv' ? 'Exporting...' : 'Sets (CSV)'}
+        </button>
+        <button
+          onClick={() => handleExport('json')}
+          disabled={exporting !== null}
+          className="flex items-center px-4 py-2 border border-indigo-600 text-indigo-600 rounded-md hover:bg-indigo-50 dark:hover:bg-gray-700 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          {exporting === 'json' ? 'Exporting...' : 'Full archive (JSON)'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import React, { useMemo, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useUnits } from '../../hooks/useUnits';
+import { useExercises } from '../../hooks/useExercises';
+import { parseCsv } from '../../lib/csv';
+import {
+  IMPORT_FIELDS,
+  fetchExistingSetCounts,
+  guessMapping,
+  importSessions,
+  matchExercises,
+  missingFields,
+  planImport,
+  PartialImportError,
+  readImportRows,
+  type ColumnMapping,
+  type ExerciseMatch,
+  type ImportField,
+} from '../../lib/historyImport';
+
+type ImportStep = 'upload' | 'map' | 'review' | 'done';
+
+const MATCH_LABELS: Record<ExerciseMatch['status'], { label: string; className: string }> = {
+  exact: { label: 'Matched', className: 'text-green-600 dark:text-green-400' },
+  suggested: { label: 'Check match', className: 'text-amber-600 dark:text-amber-400' },
+  unmatched: { label: 'No match', className: 'text-red-600 dark:text-red-400' },
+};
+
+export function HistoryImport() {
+  const { user } = useAuth();
+  const { exercises } = useExercises();
+  const { units } = useUnits();
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [matches, setMatches] = useState<ExerciseMatch[]>([]);
+  const [selected, setSelected] = useState<Record<string, string | null>>({});
+  const [existingCounts, setExistingCounts] = useState<Map<string, number>>(new Map());
+  const [working, setWorking] = useState(false);
+  const [imported, setImported] = useState({ sessions: 0, sets: 0 });
+
+  const header = csvRows[0] || [];
+  const { rows, invalid } = useMemo(() => readImportRows(csvRows, mapping, units), [csvRows, mapping, units]);
+  const plan = useMemo(() => planImport(rows, selected, existingCounts), [rows, selected, existingCounts]);
+  const setCount = plan.sessions.reduce((count, session) => count + session.sets.length, 0);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setCsvRows([]);
+    setMapping({});
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const parsed = parseCsv(await file.text());
+    if (parsed.length < 2) {
+      alert('That file has no rows to import.');
+      return;
+    }
+    setFileName(file.name);
+    setCsvRows(parsed);
+    setMapping(guessMapping(parsed[0]));
+    setStep('map');
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const handleReview = async () => {
+    if (!user) return;
+
+    setWorking(true);
+    try {
+      const found = matchExercises(rows, exercises);
+      setMatches(found);
+      setSelected(Object.fromEntries(found.map((match) => [match.name, match.exercise_id])));
+      setExistingCounts(await fetchExistingSetCounts(user.id));
+      setStep('review');
+    } catch (error) {
+      console.error('Error checking for duplicates:', error);
+      alert('Failed to check your existing history. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user || plan.sessions.length === 0) return;
+
+    setWorking(true);
+    try {
+      await importSessions(user.id, plan.sessions, exercises);
+      setImported({ sessions: plan.sessions.length, sets: setCount });
+      setStep('done');
+    } catch (error) {
+      alert(error instanceof PartialImportError
+        ? 'Failed to import your history, and some sessions may have been saved. Check your workout history before importing again.'
+        : 'Failed to import your history. Nothing was saved, please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 transition-all duration-300">
+      <h2 className="text-xl font-bold dark:text-gray-100 mb-2">Import History</h2>
+
+      {step === 'upload' && (
+        <>
+          <p className="text-sm text-gray-500 mb-4">
+            Bring in lifts from a spreadsheet or another tracker. Upload a CSV with one row per set;
+            you'll match its columns and exercise names before anything is saved.
+          </p>
+          <label className="inline-flex items-center px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 cursor-pointer">
+            <Upload className="h-4 w-4 mr-2" />
+            Choose CSV file
+            <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+          </label>
+        </>
+      )}
+
+      {step === 'map' && (
+        <>
+          <p className="text-sm text-gray-500 mb-4">
+            Match the columns in <span className="font-medium">{fileName}</span> ({csvRows.length - 1} rows).
+            Weights are read in {units.weight_unit} and distances in {units.distance_unit}, as set under Units.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+            {IMPORT_FIELDS.map((field) => (
+              <label key={field.value} className="block">
+                <span className="text-sm font-medium dark:text-gray-300">
+                  {field.label}{field.required && ' *'}
+                </span>
+                <select
+                  value={mapping[field.value] ?? ''}
+                  onChange={(e) => handleMappingChange(field.value, e.target.value)}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50 text-sm"
+                >
+                  <option value="">Not in file</option>
+                  {header.map((column, index) => (
+                    <option key={index} value={index}>{column || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button onClick={reset} className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:text-gray-900">
+              Cancel
+            </button>
+            <button
+              onClick={handleReview}
+              disabled={working || missingFields(mapping).length > 0}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {working ? 'Checking...' : 'Review'}
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === 'review' && (
+        <>
+          <h3 className="font-medium dark:text-gray-100 mb-2">Exercises</h3>
+          <div className="space-y-2 mb-4">
+            {matches.map((match) => {
+              const chosen = selected[match.name];
+              // Picking an exercise by hand counts as a confirmed match
+              const status = !chosen ? 'unmatched' : chosen === match.exercise_id ? match.status : 'exact';
+              return (
+                <div key={match.name} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <div>
+                    <span className="font-medium dark:text-gray-100">{match.name}</span>
+                    <span className="text-gray-500 ml-2">{match.rows} {match.rows === 1 ? 'set' : 'sets'}</span>
+                    <span className={`ml-2 text-xs font-medium ${MATCH_LABELS[status].className}`}>
+                      {MATCH_LABELS[status].label}
+                    </span>
+                  </div>
+                  <select
+                    value={selected[match.name] || ''}
+                    onChange={(e) => setSelected((prev) => ({ ...prev, [match.name]: e.target.value || null }))}
+                    className="rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50 text-sm"
+                  >
+                    <option value="">Skip these sets</option>
+                    {exercises.map((exercise) => (
+                      <option key={exercise.id} value={exercise.id}>{exercise.name}</option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="rounded-md bg-gray-50 dark:bg-gray-800 p-4 text-sm space-y-1 mb-4">
+            <p className="dark:text-gray-200">
+              <span className="font-medium">{setCount}</span> sets in{' '}
+              <span className="font-medium">{plan.sessions.length}</span> workouts ready to import
+            </p>
+            {plan.duplicates.length > 0 && (
+              <p className="text-amber-600 dark:text-amber-400">
+                {plan.duplicates.length} duplicate {plan.duplicates.length === 1 ? 'set' : 'sets'} already
+                logged will be skipped (lines {plan.duplicates.map((row) => row.line).join(', ')})
+              </p>
+            )}
+            {plan.unmatched.length > 0 && (
+              <p className="text-red-600 dark:text-red-400">
+                {plan.unmatched.length} {plan.unmatched.length === 1 ? 'set has' : 'sets have'} no exercise and will be skipped
+              </p>
+            )}
+            {invalid.length > 0 && (
+              <div className="text-red-600 dark:text-red-400">
+                <p>{invalid.length} {invalid.length === 1 ? 'row' : 'rows'} can't be read:</p>
+                <ul className="list-disc list-inside max-h-32 overflow-y-auto">
+                  {invalid.map((row) => (
+                    <li key={row.line}>Line {row.line}: {row.reason}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setStep('map')} className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:text-gray-900">
+              Back
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={working || plan.sessions.length === 0}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {working ? 'Importing...' : `Import ${setCount} sets`}
+            </button>
+          </div>
+        </>
+      )}
+
+      {step === 'done' && (
+        <>
+          <p className="text-sm text-green-600 dark:text-green-400 mb-4">
+            Imported {imported.sets} sets across {imported.sessions} workouts.
+          </p>
+          <button onClick={reset} className="px-4 py-2 border border-indigo-600 text-indigo-600 rounded-md hover:bg-indigo-50 dark:hover:bg-gray-700">
+            Import another file
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
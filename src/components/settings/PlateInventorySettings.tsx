@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { usePlateInventory } from '../../hooks/usePlateInventory';
+import { WEIGHT_UNITS, type WeightUnit } from '../../lib/units';
+import type { GymPlateInventory, PlateStock } from '../../lib/plates';
+
+const inputClassName =
+  'rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50 text-sm';
+
+const parseBars = (input: string) =>
+  input.split(',').map((value) => Number(value.trim())).filter((value) => value > 0);
+
+export function PlateInventorySettings() {
+  const { inventory, loading, saveInventory } = usePlateInventory();
+  const [draft, setDraft] = useState<GymPlateInventory>(inventory);
+  const [barsInput, setBarsInput] = useState<Record<WeightUnit, string>>({ lb: '', kg: '' });
+  const [unit, setUnit] = useState<WeightUnit>('lb');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    setDraft(inventory);
+    setBarsInput({ lb: inventory.lb.bars.join(', '), kg: inventory.kg.bars.join(', ') });
+  }, [inventory]);
+
+  const updatePlates = (update: (plates: PlateStock[]) => PlateStock[]) => {
+    setDraft((prev) => ({ ...prev, [unit]: { ...prev[unit], plates: update(prev[unit].plates) } }));
+  };
+
+  const handlePlateChange = (index: number, field: keyof PlateStock, value: string) => {
+    updatePlates((plates) => plates.map((plate, i) => (i === index ? { ...plate, [field]: Number(value) } : plate)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage('');
+    try {
+      const inventoryFor = (key: WeightUnit) => ({
+        bars: parseBars(barsInput[key]),
+        plates: draft[key].plates.filter((plate) => plate.weight > 0 && plate.pairs > 0),
+      });
+      await saveInventory({ lb: inventoryFor('lb'), kg: inventoryFor('kg') });
+      setMessage('Plate inventory saved');
+    } catch {
+      setMessage('Error saving plate inventory');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return null;
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium dark:text-gray-100 mb-2">Bars and Plates</h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Used by the plate calculator in the workout logger. Athletes load from the set matching their unit.
+      </p>
+
+      <div className="flex gap-2 mb-4">
+        {WEIGHT_UNITS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setUnit(option.value)}
+            className={`px-3 py-1 rounded-md text-sm font-medium ${
+              unit === option.value
+                ? 'bg-indigo-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <label className="block mb-4">
+        <span className="text-sm font-medium dark:text-gray-300">Bars ({unit}, comma separated)</span>
+        <input
+          type="text"
+          value={barsInput[unit]}
+          onChange={(e) => setBarsInput((prev) => ({ ...prev, [unit]: e.target.value }))}
+          className={`mt-1 block w-full ${inputClassName}`}
+        />
+      </label>
+
+      <div className="space-y-2">
+        <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-sm font-medium dark:text-gray-300">
+          <span>Plate ({unit})</span>
+          <span>Pairs</span>
+          <span className="w-4" />
+        </div>
+        {draft[unit].plates.map((plate, index) => (
+          <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={plate.weight || ''}
+              onChange={(e) => handlePlateChange(index, 'weight', e.target.value)}
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min={0}
+              value={plate.pairs || ''}
+              onChange={(e) => handlePlateChange(index, 'pairs', e.target.value)}
+              className={inputClassName}
+            />
+            <button
+              onClick={() => updatePlates((plates) => plates.filter((_, i) => i !== index))}
+              className="text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => updatePlates((plates) => [...plates, { weight: 0, pairs: 1 }])}
+          className="text-sm text-indigo-600 font-medium hover:underline"
+        >
+          Add plate
+        </button>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="mt-4 bg-indigo-600 text-white py-2 px-4 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save Bars and Plates'}
+      </button>
+      {message && (
+        <p className={`mt-4 text-sm ${message.includes('Error') ? 'text-red-600' : 'text-green-600'}`}>
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
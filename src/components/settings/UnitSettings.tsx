@@ -0,0 +1,51 @@
+import React from 'react';
+import { useUnits } from '../../hooks/useUnits';
+import { DISTANCE_UNITS, WEIGHT_UNITS, type DistanceUnit, type UnitPreferences, type WeightUnit } from '../../lib/units';
+
+export function UnitSettings() {
+  const { units, updateUnits } = useUnits();
+
+  const handleChange = async (update: Partial<UnitPreferences>) => {
+    try {
+      await updateUnits(update);
+    } catch {
+      alert('Failed to save your units. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 transition-all duration-300">
+      <h2 className="text-xl font-bold dark:text-gray-100 mb-2">Units</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Weights and distances are entered and shown in these units everywhere, including leaderboards.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="block">
+          <span className="text-sm font-medium dark:text-gray-300">Weight</span>
+          <select
+            value={units.weight_unit}
+            onChange={(e) => handleChange({ weight_unit: e.target.value as WeightUnit })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50"
+          >
+            {WEIGHT_UNITS.map((unit) => (
+              <option key={unit.value} value={unit.value}>{unit.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium dark:text-gray-300">Distance</span>
+          <select
+            value={units.distance_unit}
+            onChange={(e) => handleChange({ distance_unit: e.target.value as DistanceUnit })}
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50"
+          >
+            {DISTANCE_UNITS.map((unit) => (
+              <option key={unit.value} value={unit.value}>{unit.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
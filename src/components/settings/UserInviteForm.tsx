@@ -1,12 +1,13 @@
 import React, { useState } from 'react';
     import { supabase } from '../../lib/supabase';
+    import { DEFAULT_ROLE, ROLES, type Role } from '../../lib/roles';
 
     export function UserInviteForm() {
       const [email, setEmail] = useState('');
       const [firstName, setFirstName] = useState('');
       const [lastName, setLastName] = useState('');
       const [password, setPassword] = useState('');
-      const [role, setRole] = useState('user'); // Default to 'user'
+      const [role, setRole] = useState<Role>(DEFAULT_ROLE);
       const [loading, setLoading] = useState(false);
       const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
 
@@ -51,7 +52,7 @@ import React, { useState } from 'react';
             setFirstName('');
             setLastName('');
             setPassword('');
-            setRole('user'); // Reset role to default
+            setRole(DEFAULT_ROLE);
           }
         } catch (error: any) {
           console.error('Error creating user:', error);
@@ -133,12 +134,18 @@ import React, { useState } from 'react';
               <select
                 id="role"
                 value={role}
-                onChange={(e) => setRole(e.target.value)}
+                onChange={(e) => setRole(e.target.value as Role)}
                 className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50"
               >
-                <option value="user">User</option>
-                <option value="admin">Admin</option>
+                {ROLES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
               </select>
+              <p className="mt-1 text-sm text-gray-500">
+                {ROLES.find((option) => option.value === role)?.description}
+              </p>
             </div>
 
             {message && (
@@ -1,5 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { ROLES, getRole, type Role } from '../../lib/roles';
 import { LoadingSpinner } from '../common/LoadingSpinner';
 import { User } from 'lucide-react';
 import type { Profile } from '../../types/profile';
@@ -7,6 +9,7 @@ import type { Profile } from '../../types/profile';
 export function UserList() {
   const [users, setUsers] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(true);
+  const { user: currentUser } = useAuth();
 
   useEffect(() => {
     async function fetchUsers() {
@@ -17,7 +20,7 @@ export function UserList() {
           .order('created_at', { ascending: false });
 
         if (error) throw error;
-        setUsers(data || []);
+        setUsers((data || []).map((profile) => ({ ...profile, role: getRole(profile.role) })));
       } catch (error) {
         console.error('Error fetching users:', error);
       } finally {
@@ -28,6 +31,22 @@ export function UserList() {
     fetchUsers();
   }, []);
 
+  const handleRoleChange = async (userId: string, role: Role) => {
+    const previous = users;
+    setUsers(users.map((profile) => (profile.id === userId ? { ...profile, role } : profile)));
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ role })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Error updating role:', error);
+      setUsers(previous);
+      alert('Failed to update role. Please try again.');
+    }
+  };
+
   if (loading) return <LoadingSpinner />;
 
   return (
@@ -60,9 +79,24 @@ export function UserList() {
                 <p className="text-sm text-gray-500">{user.email}</p>
               </div>
             </div>
-            <span className="text-sm text-gray-500">
-              {new Date(user.created_at).toLocaleDateString()}
-            </span>
+            <div className="flex items-center space-x-4">
+              <select
+                value={user.role}
+                onChange={(e) => handleRoleChange(user.id, e.target.value as Role)}
+                // Admins can't demote themselves and lock everyone out of user management
+                disabled={user.id === currentUser?.id}
+                className="rounded-md border-gray-300 shadow-sm text-sm disabled:opacity-50"
+              >
+                {ROLES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <span className="text-sm text-gray-500">
+                {new Date(user.created_at).toLocaleDateString()}
+              </span>
+            </div>
           </div>
         ))}
       </div>
@@ -57,6 +57,7 @@ export function WeeklyExercises({ completedExercises: initialCompletedExercises
               )
             `)
             .eq('user_id', user.id)
+            .eq('in_progress', false)
             .gte('completed_at', `${weekStart}T00:00:00`)
             .lte('completed_at', `${weekEnd}T23:59:59`);
 
@@ -1,42 +1,177 @@
-import React from 'react';
+import React, { useState } from 'react';
+    import { format, parseISO } from 'date-fns';
     import { useExerciseHistory } from '../../hooks/useExerciseHistory';
+    import { useUserPreferences } from '../../hooks/useUserPreferences';
+    import { useUnits } from '../../hooks/useUnits';
+    import { formatWeight, toStoredWeight } from '../../lib/units';
+    import {
+      ONE_RM_FORMULAS,
+      findPercentagePrescription,
+      parsePercentageTable,
+      type OneRepMaxFormula,
+    } from '../../lib/oneRepMax';
     import { Trophy } from 'lucide-react';
 
     interface ExercisePercentagesProps {
       exerciseId: string;
       exerciseName: string;
+      // Free text to look for a "5x5 @ 75%" prescription in, usually the workout description
+      prescription?: string | null;
     }
 
-    export function ExercisePercentages({ exerciseId, exerciseName }: ExercisePercentagesProps) {
-      const { history, loading } = useExerciseHistory(exerciseId);
+    export function ExercisePercentages({ exerciseId, exerciseName, prescription }: ExercisePercentagesProps) {
+      const { preferences, updatePreferences } = useUserPreferences();
+      const { units } = useUnits();
+      const { history, loading, recordTestedMax } = useExerciseHistory(exerciseId, preferences.one_rm_formula);
+      const [testedInput, setTestedInput] = useState('');
+      const [editingTable, setEditingTable] = useState(false);
+      const [tableInput, setTableInput] = useState('');
 
       if (loading) return null;
-      if (!history) return null;
 
+      const handleRecordTestedMax = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const weight = Number(testedInput);
+        if (!weight || weight <= 0) return;
+        try {
+          await recordTestedMax(toStoredWeight(weight, units.weight_unit));
+          setTestedInput('');
+        } catch (error) {
+          alert(`Failed to record tested 1RM: ${(error as Error).message || 'Unknown error'}`);
+        }
+      };
+
+      const handleEditTable = () => {
+        setTableInput(preferences.percentage_table.join(', '));
+        setEditingTable(true);
+      };
+
+      const handleSaveTable = () => {
+        const percentages = parsePercentageTable(tableInput);
+        if (percentages.length > 0) {
+          updatePreferences({ percentage_table: percentages });
+        }
+        setEditingTable(false);
+      };
+
+      const recordForm = (
+        <form onSubmit={handleRecordTestedMax} className="flex items-center gap-2">
+          <input
+            type="number"
+            min={0}
+            step="0.5"
+            value={testedInput}
+            onChange={(e) => setTestedInput(e.target.value)}
+            placeholder={`Tested 1RM (${units.weight_unit})`}
+            className="w-36 rounded-md border-gray-300 text-sm"
+          />
+          <button type="submit" className="text-sm text-indigo-600 font-medium hover:underline">
+            Record
+          </button>
+        </form>
+      );
+
+      if (!history) {
+        return <div className="mt-2">{recordForm}</div>;
+      }
+
+      const target = findPercentagePrescription(prescription, exerciseName);
+      // Percentages are worked out in stored pounds and rounded in the athlete's unit
+      const weightAt = (percentage: number) => formatWeight((history.oneRepMax * percentage) / 100, units.weight_unit);
 
       return (
-        <div className="mt-2 dark:bg-gray-800 rounded-lg p-3">
-          <div className="flex items-center gap-2 mb-2">
-            <Trophy className="h-4 w-4 text-yellow-500" />
-            <span className="text-sm font-medium">
-              Personal Best: {(history.maxWeight)}lbs
-            </span>
-          </div>
-          
-          <div className="grid grid-cols-3 gap-2">
-            {history.percentages.map(({ percentage, weight }) => (
-              <div 
-                key={percentage}
-                className="bg-white rounded p-2 text-center shadow-sm dark:bg-gray-700"
-              >
-                <div className="text-sm font-medium text-indigo-600">
-                  {percentage}%
+        <div className="mt-2 dark:bg-gray-800 rounded-lg p-3 space-y-3">
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div className="space-y-1">
+              {history.estimated && (
+                <div className="flex items-center gap-2">
+                  <Trophy className="h-4 w-4 text-yellow-500" />
+                  <span className="text-sm font-medium">
+                    Estimated 1RM: {formatWeight(history.estimated.estimate, units.weight_unit)}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    from {formatWeight(history.estimated.weight, units.weight_unit)} × {history.estimated.reps}
+                  </span>
                 </div>
-                <div className="text-sm dark:text-gray-300">
-                  {weight}lbs
+              )}
+              {history.tested && (
+                <div className="text-sm">
+                  Tested 1RM: <span className="font-medium">{formatWeight(history.tested.weight, units.weight_unit)}</span>
+                  <span className="text-xs text-gray-500 ml-2">
+                    {format(parseISO(history.tested.tested_at), 'PP')}
+                  </span>
                 </div>
+              )}
+            </div>
+            <select
+              value={preferences.one_rm_formula}
+              onChange={(e) => updatePreferences({ one_rm_formula: e.target.value as OneRepMaxFormula })}
+              className="rounded-md border-gray-300 text-sm"
+              aria-label="1RM formula"
+            >
+              {ONE_RM_FORMULAS.map((formula) => (
+                <option key={formula.value} value={formula.value}>
+                  {formula.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {recordForm}
+
+          {target && (
+            <div className="rounded-md border border-indigo-200 p-2">
+              <p className="text-sm font-medium text-indigo-600">
+                {target.sets}×{target.reps} @ {target.percentage}% of {weightAt(100)}
+              </p>
+              <div className="mt-1 grid grid-cols-5 gap-1 text-xs">
+                {Array.from({ length: target.sets }).map((_, index) => (
+                  <div key={index} className="bg-white rounded p-1 text-center shadow-sm dark:bg-gray-700">
+                    Set {index + 1}: {weightAt(target.percentage)} × {target.reps}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium">Percentages</span>
+              {editingTable ? (
+                <button onClick={handleSaveTable} className="text-xs text-indigo-600 font-medium hover:underline">
+                  Save
+                </button>
+              ) : (
+                <button onClick={handleEditTable} className="text-xs text-indigo-600 font-medium hover:underline">
+                  Edit
+                </button>
+              )}
+            </div>
+            {editingTable ? (
+              <input
+                type="text"
+                value={tableInput}
+                onChange={(e) => setTableInput(e.target.value)}
+                placeholder="100, 90, 80, 70"
+                className="w-full rounded-md border-gray-300 text-sm"
+              />
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {preferences.percentage_table.map((percentage) => (
+                  <div
+                    key={percentage}
+                    className="bg-white rounded p-2 text-center shadow-sm dark:bg-gray-700"
+                  >
+                    <div className="text-sm font-medium text-indigo-600">
+                      {percentage}%
+                    </div>
+                    <div className="text-sm dark:text-gray-300">
+                      {weightAt(percentage)}
+                    </div>
+                  </div>
+                ))}
               </div>
-            ))}
+            )}
           </div>
         </div>
       );
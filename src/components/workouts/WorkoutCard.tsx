@@ -1,11 +1,12 @@
-import React, { useState, useEffect } from 'react';
-    import { Calendar, Clock, Dumbbell } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+    import { Calendar, Clock, CloudOff, Dumbbell } from 'lucide-react';
     import { WorkoutLogger } from './WorkoutLogger';
     import { WorkoutEditor } from './WorkoutEditor';
     import { supabase } from '../../lib/supabase';
     import type { Workout, WorkoutExercise } from '../../types/workout';
     import { format, parseISO } from 'date-fns';
     import { useAuth } from '../../contexts/AuthContext';
+    import { useSync } from '../../hooks/useSync';
     
     interface WorkoutCardProps {
       workout: Workout;
@@ -20,7 +21,15 @@ import React, { useState, useEffect } from 'react';
       const [isCompleted, setIsCompleted] = useState(false);
       const [previousLogs, setPreviousLogs] = useState<any[]>([]);
       const [refreshTrigger, setRefreshTrigger] = useState(0);
-      const { user } = useAuth();
+      const { user, isStaff } = useAuth();
+      const { pending, lastSyncedAt } = useSync();
+      const pendingLog = pending.find((entry) => entry.log.workout_id === workout.id);
+      // Fall back to the queued copy until it reaches the server
+      const latestLogs = useMemo(
+        () => (previousLogs.length > 0 ? previousLogs : pendingLog ? [pendingLog.log] : []),
+        [previousLogs, pendingLog]
+      );
+      const completed = isCompleted || !!pendingLog;
     
       const fetchExercises = async () => {
         setLoadingExercises(true);
@@ -60,7 +69,8 @@ import React, { useState, useEffect } from 'react';
           }
     
           if (data && data.length > 0) {
-            setIsCompleted(true);
+            // An in-progress session is resumed rather than viewed
+            setIsCompleted(!data[0].in_progress);
             setPreviousLogs(data);
           } else {
             setIsCompleted(false);
@@ -74,7 +84,7 @@ import React, { useState, useEffect } from 'react';
       useEffect(() => {
         fetchExercises();
         checkCompletion();
-      }, [workout.id, refreshTrigger, user]);
+      }, [workout.id, refreshTrigger, user, lastSyncedAt]);
     
       const handleClose = () => {
         setIsEditing(false);
@@ -106,6 +116,12 @@ import React, { useState, useEffect } from 'react';
           <div className="flex justify-between items-start mb-4">
             <div>
               <h3 className="text-xl font-semibold dark:text-gray-100 dark:text-gray-100">{workout.name}</h3>
+              {pendingLog && (
+                <span className="inline-flex items-center mt-1 text-xs font-medium text-amber-600 dark:text-amber-400">
+                  <CloudOff className="h-3 w-3 mr-1" />
+                  Pending sync
+                </span>
+              )}
               {workout.description && (
                 <p className="dark:text-gray-300 dark:text-gray-400 mt-1">{workout.description}</p>
               )}
@@ -149,21 +165,23 @@ import React, { useState, useEffect } from 'react';
           </div>
     
           <div className="mt-6 flex justify-end space-x-4">
+            {isStaff && (
+              <button
+                onClick={() => setIsEditing(true)}
+                className="text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium"
+              >
+                Edit
+              </button>
+            )}
             <button
-              onClick={() => setIsEditing(true)}
-              className="text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300 font-medium"
-            >
-              Edit
-            </button>
-            <button
-              onClick={isCompleted ? handleViewWorkout : handleStartWorkout}
+              onClick={completed ? handleViewWorkout : handleStartWorkout}
               className={`px-4 py-2 rounded-md text-white dark:bg-gray-400 bg-gray-400 ${
-                isCompleted
+                completed
                   ? 'dark:bg-gray-800 hover:bg-gray-600 dark:bg-gray-400 dark:hover:dark:bg-gray-800'
                   : 'bg-indigo-600 hover:bg-indigo-700 dark:bg-indigo-400 dark:hover:bg-indigo-300'
               }`}
             >
-              {isCompleted ? 'View Workout' : 'Start Workout'}
+              {completed ? 'View Workout' : previousLogs.length > 0 ? 'Resume Workout' : 'Start Workout'}
             </button>
           </div>
     
@@ -171,8 +189,8 @@ import React, { useState, useEffect } from 'react';
             <WorkoutLogger
               workout={workout}
               onClose={() => setIsLogging(false)}
-              previousLogs={previousLogs}
-              workoutLogId={previousLogs.length > 0 ? previousLogs[0].id : null}
+              previousLogs={latestLogs}
+              workoutLogId={latestLogs.length > 0 ? latestLogs[0].id : null}
             />
           )}
     
@@ -20,7 +20,9 @@ import React, { useState } from "react";
         formData,
         loading,
         handleChange,
+        handleFormatChange,
         handleExerciseChange,
+        handleBlockChange,
         handleSubmit,
         addExercise,
         removeExercise,
@@ -63,13 +65,18 @@ import React, { useState } from "react";
             )}
 
             <form onSubmit={handleSubmit} className="space-y-6">
-              <WorkoutDetailsEditor formData={formData} onChange={handleChange} />
+              <WorkoutDetailsEditor
+                formData={formData}
+                onChange={handleChange}
+                onFormatChange={handleFormatChange}
+              />
 
               <WorkoutExerciseEditor
                 exercises={formData.exercises}
                 onChange={handleExerciseChange}
                 onAdd={addExercise}
                 onRemove={removeExercise}
+                onBlockChange={handleBlockChange}
               />
 
               <div className="flex justify-end space-x-4">
@@ -2,10 +2,47 @@ import React, { useState, useEffect } from "react";
     import { supabase } from "../../lib/supabase";
     import { useAuth } from "../../contexts/AuthContext";
     import { useExercises } from "../../hooks/useExercises";
-    import type { Exercise } from "../../types/workout";
+    import type { Exercise, IntensityType, WorkoutFormat } from "../../types/workout";
+    import { WorkoutFormatFields, type WorkoutFormatValues } from "./editor/WorkoutFormatFields";
+    import { DivisionPrescriptionFields } from "./editor/DivisionPrescriptionFields";
+    import { IntensityFields } from "./editor/IntensityFields";
+    import { BlockFields } from "./editor/BlockFields";
+    import { DEFAULT_INTENSITY_TYPE, isRelativeIntensity } from "../../lib/prescriptions";
+    import { DEFAULT_WORKOUT_FORMAT } from "../../lib/workoutFormats";
+    import { applyBlockChange, type BlockUpdate } from "../../lib/blocks";
     import { v4 as uuidv4 } from 'uuid';
     import { format, parseISO } from 'date-fns';
 
+    interface WorkoutFormExercise {
+      id: string;
+      exercise_id: string;
+      sets: number;
+      reps: number;
+      weight: number;
+      scaled_weight?: number | null;
+      scaled_notes?: string | null;
+      foundations_weight?: number | null;
+      foundations_notes?: string | null;
+      intensity_type?: IntensityType;
+      percentage?: number | null;
+      percentage_of_exercise_id?: string | null;
+      rpe?: number | null;
+      rest_seconds?: number | null;
+      block: string | null;
+      block_rounds: number | null;
+      distance?: number;
+      time?: number;
+    }
+
+    interface WorkoutFormState extends WorkoutFormatValues {
+      name: string;
+      description: string;
+      type: string;
+      is_wod: boolean;
+      scheduled_date: string;
+      exercises: WorkoutFormExercise[];
+    }
+
     interface WorkoutFormProps {
       onClose: () => void;
       onCreate?: (workout: any) => void;
@@ -16,15 +53,12 @@ import React, { useState, useEffect } from "react";
         type: string;
         is_wod: boolean;
         scheduled_date: string;
-        exercises: {
-          id: string;
-          exercise_id: string;
-          sets: number;
-          reps: number;
-          weight: number;
-          distance?: number;
-          time?: number;
-        }[];
+        format?: WorkoutFormat;
+        time_cap_seconds?: number | null;
+        rounds?: number | null;
+        interval_seconds?: number | null;
+        rest_seconds?: number | null;
+        exercises: WorkoutFormExercise[];
       };
     }
 
@@ -32,12 +66,17 @@ import React, { useState, useEffect } from "react";
       const { user } = useAuth();
       const { exercises, loading, error: exercisesError } = useExercises();
 
-      const [formData, setFormData] = useState({
+      const [formData, setFormData] = useState<WorkoutFormState>({
         name: "",
         description: "",
         type: "weight training",
         is_wod: false,
         scheduled_date: format(new Date(), 'yyyy-MM-dd'),
+        format: DEFAULT_WORKOUT_FORMAT,
+        time_cap_seconds: null,
+        rounds: null,
+        interval_seconds: null,
+        rest_seconds: null,
         exercises: [],
       });
 
@@ -49,6 +88,11 @@ import React, { useState, useEffect } from "react";
             type: workout.type || "weight training",
             is_wod: workout.is_wod || false,
             scheduled_date: workout.scheduled_date ? format(parseISO(workout.scheduled_date), 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd'),
+            format: workout.format || DEFAULT_WORKOUT_FORMAT,
+            time_cap_seconds: workout.time_cap_seconds ?? null,
+            rounds: workout.rounds ?? null,
+            interval_seconds: workout.interval_seconds ?? null,
+            rest_seconds: workout.rest_seconds ?? null,
             exercises: workout.exercises || [],
           });
         }
@@ -69,6 +113,11 @@ import React, { useState, useEffect } from "react";
                 type: formData.type,
                 is_wod: formData.is_wod,
                 scheduled_date: formData.scheduled_date,
+                format: formData.format,
+                time_cap_seconds: formData.time_cap_seconds,
+                rounds: formData.rounds,
+                interval_seconds: formData.interval_seconds,
+                rest_seconds: formData.rest_seconds,
               })
               .eq("id", workout.id);
 
@@ -84,6 +133,11 @@ import React, { useState, useEffect } from "react";
                   type: formData.type,
                   is_wod: formData.is_wod,
                   scheduled_date: formData.scheduled_date,
+                  format: formData.format,
+                  time_cap_seconds: formData.time_cap_seconds,
+                  rounds: formData.rounds,
+                  interval_seconds: formData.interval_seconds,
+                  rest_seconds: formData.rest_seconds,
                   created_by: user.id,
                 },
               ])
@@ -106,6 +160,17 @@ import React, { useState, useEffect } from "react";
             sets: exercise.sets,
             reps: exercise.reps,
             weight: exercise.weight,
+            scaled_weight: exercise.scaled_weight ?? null,
+            scaled_notes: exercise.scaled_notes ?? null,
+            foundations_weight: exercise.foundations_weight ?? null,
+            foundations_notes: exercise.foundations_notes ?? null,
+            intensity_type: exercise.intensity_type || DEFAULT_INTENSITY_TYPE,
+            percentage: exercise.percentage ?? null,
+            percentage_of_exercise_id: exercise.percentage_of_exercise_id ?? null,
+            rpe: exercise.rpe ?? null,
+            rest_seconds: exercise.rest_seconds ?? null,
+            block: exercise.block ?? null,
+            block_rounds: exercise.block_rounds ?? null,
             distance: exercise.distance,
             time: exercise.time,
             order_index: index,
@@ -134,7 +199,11 @@ import React, { useState, useEffect } from "react";
         });
       };
 
-      const handleExerciseChange = (index: number, field: string, value: string | number) => {
+      const handleFormatChange = (update: Partial<WorkoutFormatValues>) => {
+        setFormData({ ...formData, ...update });
+      };
+
+      const handleExerciseChange = (index: number, field: string, value: string | number | null) => {
         const updatedExercises = [...formData.exercises];
         updatedExercises[index] = {
           ...updatedExercises[index],
@@ -143,10 +212,14 @@ import React, { useState, useEffect } from "react";
         setFormData({ ...formData, exercises: updatedExercises });
       };
 
+      const handleBlockChange = (index: number, update: BlockUpdate) => {
+        setFormData({ ...formData, exercises: applyBlockChange(formData.exercises, index, update) });
+      };
+
       const addExercise = () => {
         setFormData({
           ...formData,
-          exercises: [...formData.exercises, { id: uuidv4(), exercise_id: "", sets: null, reps: null, weight: null }],
+          exercises: [...formData.exercises, { id: uuidv4(), exercise_id: "", sets: null, reps: null, weight: null, block: null, block_rounds: null }],
         });
       };
 
@@ -195,6 +268,7 @@ import React, { useState, useEffect } from "react";
                 <option value="metcon">Metcon</option>
               </select>
             </div>
+            <WorkoutFormatFields values={formData} onChange={handleFormatChange} />
             <div className="flex items-center">
               <input
                 type="checkbox"
@@ -220,26 +294,39 @@ import React, { useState, useEffect } from "react";
             <div>
               <label className="block text-sm font-medium dark:text-gray-300">Exercises</label>
               {formData.exercises?.map((exercise, index) => (
-                <div key={index} className="flex items-center gap-2 mb-2">
-                  <select
-                    value={exercise.exercise_id}
-                    onChange={(e) => handleExerciseChange(index, "exercise_id", e.target.value)}
-                    className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
-                  >
-                    <option value="">Select exercise</option>
-                    {exercises.map((ex: Exercise) => (
-                      <option key={ex.id} value={ex.id}>
-                        {ex.name}
-                      </option>
-                    ))}
-                  </select>
-                  <button
-                    type="button"
-                    onClick={() => removeExercise(index)}
-                    className="text-red-500 text-sm font-medium"
-                  >
-                    Remove
-                  </button>
+                <div key={index} className="mb-4 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={exercise.exercise_id}
+                      onChange={(e) => handleExerciseChange(index, "exercise_id", e.target.value)}
+                      className="block w-full border-gray-300 rounded-md shadow-sm focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    >
+                      <option value="">Select exercise</option>
+                      {exercises.map((ex: Exercise) => (
+                        <option key={ex.id} value={ex.id}>
+                          {ex.name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => removeExercise(index)}
+                      className="text-red-500 text-sm font-medium"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  <IntensityFields
+                    values={exercise}
+                    exercises={exercises}
+                    onChange={(field, value) => handleExerciseChange(index, field, value)}
+                  />
+                  <DivisionPrescriptionFields
+                    values={exercise}
+                    showWeights={!isRelativeIntensity(exercise)}
+                    onChange={(field, value) => handleExerciseChange(index, field, value)}
+                  />
+                  <BlockFields values={exercise} onChange={(update) => handleBlockChange(index, update)} />
                 </div>
               ))}
               <button
@@ -3,11 +3,13 @@ import React, { useState, useEffect } from 'react';
     import { LoadingSpinner } from '../common/LoadingSpinner';
     import { WorkoutCard } from './WorkoutCard';
     import { WorkoutCreator } from './WorkoutCreator';
+    import { useAuth } from '../../contexts/AuthContext';
     import type { Workout } from '../../types/workout';
 
     export function WorkoutList() {
       const [workouts, setWorkouts] = useState<Workout[]>([]);
       const [loading, setLoading] = useState(true);
+      const { isStaff } = useAuth();
 
       const fetchWorkouts = async () => {
         try {
@@ -20,6 +22,7 @@ import React, { useState, useEffect } from 'react';
                 exercise:exercises (*)
               )
             `)
+            .is('program_enrollment_id', null)
             .order('created_at', { ascending: false });
 
           if (error) throw error;
@@ -39,7 +42,7 @@ import React, { useState, useEffect } from 'react';
 
       return (
         <div className="space-y-6">
-          <WorkoutCreator onWorkoutCreated={fetchWorkouts} />
+          {isStaff && <WorkoutCreator onWorkoutCreated={fetchWorkouts} />}
           {workouts.map((workout) => (
             <WorkoutCard
               key={workout.id}
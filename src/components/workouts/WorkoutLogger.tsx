@@ -1,10 +1,42 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { useSync } from '../../hooks/useSync';
+import { useUnits } from '../../hooks/useUnits';
 import { ExercisePercentages } from './ExercisePercentages';
-import type { Workout, WorkoutExercise, ExerciseScore } from '../../types/workout';
+import { SetInputs, type SetField } from './logger/SetInputs';
+import { FormatResultInputs } from './logger/FormatResultInputs';
+import { SaveConfirmation } from './logger/SaveConfirmation';
+import { PlateLoading } from './logger/PlateLoading';
+import { RestTimer, type RestPeriod } from './logger/RestTimer';
+import { calculateWorkoutResult, getScoringMetric, isLoadMetric } from '../../lib/scoring';
+import {
+  EMPTY_FORMAT_RESULT,
+  formatResultScore,
+  getWorkoutFormat,
+  hasFormatResult,
+  type FormatResult,
+} from '../../lib/workoutFormats';
+import { DEFAULT_DIVISION, DIVISIONS, describePrescription, getDivision, getPrescription } from '../../lib/divisions';
+import { describeIntensity, getBaseExerciseId, isRelativeIntensity, prescribedWeight } from '../../lib/prescriptions';
+import { fetchLiftHistory, fetchOneRmFormula, trainingMax } from '../../lib/exerciseHistory';
+import { formatDuration } from '../../lib/duration';
+import { DEFAULT_REST_SECONDS, requestRestAlerts, unlockTimerAudio } from '../../lib/timer';
+import { describeBlock, groupBlocks, memberLabel, type ExerciseBlock } from '../../lib/blocks';
+import { useExercises } from '../../hooks/useExercises';
+import { usePlateInventory } from '../../hooks/usePlateInventory';
+import {
+  formatWeight,
+  fromStoredDistance,
+  fromStoredWeight,
+  toStoredDistance,
+  toStoredWeight,
+} from '../../lib/units';
+import { deleteLiveSets, saveLiveSet, type ExerciseScoreRow } from '../../lib/workoutLogSync';
+import type { NewPersonalRecord } from '../../lib/personalRecords';
+import type { Division, Workout, WorkoutExercise, ExerciseLog, LoggedSet } from '../../types/workout';
 import { format, startOfWeek, endOfWeek } from 'date-fns';
-import { Trash2 } from 'lucide-react';
+import { CheckCircle2, Circle, Trash2 } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
 
 interface WorkoutLoggerProps {
@@ -13,86 +45,132 @@ interface WorkoutLoggerProps {
   previousLogs?: any[];
   workoutLogId?: string | null;
   isCompleted?: boolean;
+  // Time from the workout timer, filled into the result or timed sets
+  elapsedSeconds?: number | null;
 }
 
-interface ExerciseLog {
-  exercise_id: string;
-  sets: Array<{
-    id?: string;
-    weight: number;
-    reps: number;
-    distance?: number;
-    time?: string | number | null;
-    calories?: number;
-  }>;
-}
-
-export function WorkoutLogger({ workout, onClose, previousLogs, workoutLogId: initialWorkoutLogId, isCompleted }: WorkoutLoggerProps) {
+export function WorkoutLogger({ workout, onClose, previousLogs, workoutLogId: initialWorkoutLogId, isCompleted, elapsedSeconds }: WorkoutLoggerProps) {
   const { user } = useAuth();
+  const { pending, submitWorkoutLog } = useSync();
+  // Read when the log loads; the queue changing later mustn't reset the form
+  const pendingRef = useRef(pending);
+  pendingRef.current = pending;
+  const { units } = useUnits();
   const [logs, setLogs] = useState<ExerciseLog[]>([]);
   const [notes, setNotes] = useState('');
   const [saving, setSaving] = useState(false);
   const [workoutLogId, setWorkoutLogId] = useState<string | null>(initialWorkoutLogId);
-  const [existingScores, setExistingScores] = useState<ExerciseScore[]>([]);
+  const workoutLogIdRef = useRef(workoutLogId);
+  workoutLogIdRef.current = workoutLogId;
+  // What the form was last filled for; a refetched copy of the same log mustn't
+  // overwrite unsaved edits
+  const initializedFor = useRef<string | null>(null);
+  const [existingScores, setExistingScores] = useState<ExerciseScoreRow[]>([]);
+  const [result, setResult] = useState<FormatResult>(EMPTY_FORMAT_RESULT);
+  const [division, setDivision] = useState<Division>(DEFAULT_DIVISION);
+  const [targetWeights, setTargetWeights] = useState<Record<string, number>>({});
+  // Bar chosen for each workout exercise, in the athlete's unit
+  const [barWeights, setBarWeights] = useState<Record<string, number>>({});
+  const [rest, setRest] = useState<RestPeriod | null>(null);
+  const [autosave, setAutosave] = useState<'saving' | 'saved' | 'failed' | null>(null);
+  const [confirmation, setConfirmation] = useState<{
+    queued: boolean;
+    records: NewPersonalRecord[];
+    completedExercises?: { exercise_id: string; completed_at: string }[];
+  } | null>(null);
+  const { exercises: allExercises } = useExercises();
+  const { inventory: plateInventory } = usePlateInventory();
+  const plates = plateInventory[units.weight_unit];
+  const showFormatResult = hasFormatResult(getWorkoutFormat(workout));
+  const workoutExercises = workout.workout_exercises || [];
+  const blocks = groupBlocks(workoutExercises);
+  const blockOf = (exerciseIndex: number) => blocks.find((block) => block.indexes.includes(exerciseIndex));
+  // Sets of a new or unfinished log are saved as they're done; a finished log
+  // only changes when the athlete saves it again
+  const liveSession = !previousLogs?.[0] || !!previousLogs[0].in_progress;
 
   useEffect(() => {
     const fetchInitialData = async () => {
       if (!user) return;
 
-      let initialLogs: ExerciseLog[] = [];
-      let fetchedExistingScores: ExerciseScore[] = [];
+      // The log's first autosave hands back the id this session already uses
+      const logId = initialWorkoutLogId || previousLogs?.[0]?.id || null;
+      const formKey = `${workout.id}|${units.weight_unit}|${units.distance_unit}`;
+      if (initializedFor.current === formKey && (!logId || logId === workoutLogIdRef.current)) return;
+      initializedFor.current = formKey;
 
-      if (initialWorkoutLogId) {
-        setWorkoutLogId(initialWorkoutLogId);
+      // Sets are edited in the athlete's units and stored in pounds and meters
+      const toDisplayWeight = (weight: number | null | undefined) =>
+        weight ? fromStoredWeight(weight, units.weight_unit) : weight ?? null;
+      const toDisplayDistance = (distance: number | null | undefined) =>
+        distance ? fromStoredDistance(distance, units.distance_unit) : distance ?? undefined;
+
+      let initialLogs: ExerciseLog[] = [];
+      let fetchedExistingScores: ExerciseScoreRow[] = [];
+
+      // Sets of a log still waiting in the offline queue come from the device
+      const loadScores = async (logId: string) => {
+        const queued = pendingRef.current.find((entry) => entry.id === logId);
+        if (queued) {
+          fetchedExistingScores = queued.scores;
+          return;
+        }
         try {
           const { data, error } = await supabase
             .from('exercise_scores')
             .select('*')
-            .eq('workout_log_id', initialWorkoutLogId)
-            .eq('user_id', user.id);
+            .eq('workout_log_id', logId)
+            .eq('user_id', user.id)
+            .order('set_index');
 
           if (error) throw error;
           fetchedExistingScores = data || [];
         } catch (error) {
           console.error('Error fetching previous exercise scores:', error);
         }
+      };
+
+      if (initialWorkoutLogId) {
+        setWorkoutLogId(initialWorkoutLogId);
+        await loadScores(initialWorkoutLogId);
       } else if (previousLogs && previousLogs.length > 0) {
         const lastLog = previousLogs[0];
         setNotes(lastLog.notes || '');
         setWorkoutLogId(lastLog.id);
-        try {
-          const { data, error } = await supabase
-            .from('exercise_scores')
-            .select('*')
-            .eq('workout_log_id', lastLog.id)
-            .eq('user_id', user.id);
-
-          if (error) throw error;
-          fetchedExistingScores = data || [];
-        } catch (error) {
-          console.error('Error fetching previous exercise scores:', error);
-        }
+        await loadScores(lastLog.id);
+      } else {
+        setWorkoutLogId((current) => current || uuidv4());
       }
 
       initialLogs = workout.workout_exercises?.map((exercise) => {
-        const exerciseScores = fetchedExistingScores.filter((score) => score.exercise_id === exercise.exercise_id);
+        // Sets saved before they recorded their workout exercise go to the first
+        // entry for the movement, so a repeated movement doesn't load them twice
+        const firstEntry = workout.workout_exercises?.find((entry) => entry.exercise_id === exercise.exercise_id);
+        const exerciseScores = fetchedExistingScores.filter((score) => (
+          score.workout_exercise_id
+            ? score.workout_exercise_id === exercise.id
+            : score.exercise_id === exercise.exercise_id && firstEntry?.id === exercise.id
+        ));
         const sets = exerciseScores.map((score) => ({
           id: score.id,
-          weight: score.weight || 0,
+          weight: toDisplayWeight(score.weight) || 0,
           reps: score.reps,
-          distance: score.distance,
-          time: formatTime(score.time),
+          distance: toDisplayDistance(score.distance),
+          time: score.time ?? null,
           calories: score.calories,
+          completed_at: score.completed_at ?? null,
+          rest_seconds: score.rest_seconds ?? null,
         }));
 
         if (sets.length === 0) {
           return {
             exercise_id: exercise.exercise_id,
+            workout_exercise_id: exercise.id,
             sets: Array(exercise.sets).fill({
               weight: null,
               reps: exercise.reps,
-              distance: exercise.distance,
-              time: formatTime(exercise.time),
+              distance: toDisplayDistance(exercise.distance),
+              time: exercise.time ?? null,
               calories: exercise.calories,
             }),
           };
@@ -100,49 +178,189 @@ export function WorkoutLogger({ workout, onClose, previousLogs, workoutLogId: in
 
         return {
           exercise_id: exercise.exercise_id,
+          workout_exercise_id: exercise.id,
           sets: sets,
         };
       }) || [];
 
+      // Percentage and RPE work is prescribed off each athlete's own 1RM
+      const relativeExercises = (workout.workout_exercises || []).filter(isRelativeIntensity);
+      if (relativeExercises.length > 0) {
+        try {
+          const [formula, lifts] = await Promise.all([
+            fetchOneRmFormula(user.id),
+            fetchLiftHistory(user.id, relativeExercises.map(getBaseExerciseId)),
+          ]);
+          const targets: Record<string, number> = {};
+          relativeExercises.forEach((exercise) => {
+            const weight = prescribedWeight(exercise, trainingMax(lifts[getBaseExerciseId(exercise)], formula));
+            if (weight) targets[exercise.id] = weight;
+          });
+          setTargetWeights(targets);
+
+          // Only sets that haven't been logged yet are pre-filled
+          initialLogs = initialLogs.map((log, index) => {
+            const target = targets[workout.workout_exercises?.[index]?.id || ''];
+            if (!target || log.sets.some((set) => set.id)) return log;
+            return { ...log, sets: log.sets.map((set) => ({ ...set, weight: toDisplayWeight(target) })) };
+          });
+        } catch (error) {
+          console.error('Error calculating prescribed weights:', error);
+        }
+      }
+
+      const lastLog = previousLogs?.[0];
+      if (lastLog) {
+        setResult({
+          result_time_seconds: lastLog.result_time_seconds ?? null,
+          result_rounds: lastLog.result_rounds ?? null,
+          result_reps: lastLog.result_reps ?? null,
+        });
+        setDivision(getDivision(lastLog));
+      }
+
+      if (elapsedSeconds) {
+        if (getWorkoutFormat(workout) === 'for_time') {
+          // Reaching the cap means the athlete was capped and scores by reps instead
+          const capped = !!workout.time_cap_seconds && elapsedSeconds >= workout.time_cap_seconds;
+          if (!capped) setResult((prev) => ({ ...prev, result_time_seconds: elapsedSeconds }));
+        } else if (!hasFormatResult(getWorkoutFormat(workout))) {
+          // Only sets without a time are filled
+          initialLogs = initialLogs.map((log, index) => {
+            if (getScoringMetric(workout.workout_exercises?.[index]?.exercise) !== 'time') return log;
+            return {
+              ...log,
+              sets: log.sets.map((set) => (set.time ? set : { ...set, time: elapsedSeconds })),
+            };
+          });
+        }
+      }
+
       setLogs(initialLogs);
       setExistingScores(fetchedExistingScores);
     };
 
     fetchInitialData();
-  }, [previousLogs, workout, user, initialWorkoutLogId]);
-
-  const formatTime = (time: string | number | null): string => {
-    if (time == null) return '00:00';
-    if (typeof time === 'number') {
-      const mins = Math.floor(time);
-      const hours = Math.floor(mins / 60);
-      const remainingMins = mins % 60;
-      return `${String(hours).padStart(2, '0')}:${String(remainingMins).padStart(2, '0')}`;
+  }, [previousLogs, workout, user, initialWorkoutLogId, units, elapsedSeconds]);
+
+  const toStoredSet = (set: LoggedSet): LoggedSet => ({
+    ...set,
+    weight: set.weight ? toStoredWeight(set.weight, units.weight_unit) : set.weight,
+    distance: set.distance ? toStoredDistance(set.distance, units.distance_unit) : set.distance,
+  });
+
+  const toScoreRow = (userId: string, logId: string, exercise: WorkoutExercise, set: LoggedSet, setIndex: number): ExerciseScoreRow => ({
+    id: set.id || uuidv4(),
+    user_id: userId,
+    workout_log_id: logId,
+    exercise_id: exercise.exercise_id,
+    workout_exercise_id: exercise.id,
+    weight: set.weight,
+    reps: set.reps,
+    distance: set.distance,
+    time: set.time,
+    calories: set.calories,
+    completed_at: set.completed_at ?? null,
+    rest_seconds: set.rest_seconds ?? null,
+    set_index: setIndex,
+  });
+
+  const autosaveSet = async (exerciseIndex: number, set: LoggedSet, setIndex: number) => {
+    const exercise = workoutExercises[exerciseIndex];
+    if (!user || !liveSession || !workoutLogId || !exercise) return;
+
+    const score = toScoreRow(user.id, workoutLogId, exercise, toStoredSet(set), setIndex);
+    setAutosave('saving');
+    try {
+      await saveLiveSet({
+        id: workoutLogId,
+        user_id: user.id,
+        workout_id: workout.id,
+        notes,
+        score: 0,
+        total: 0,
+        division,
+        ...result,
+        completed_at: new Date().toISOString(),
+      }, score);
+      // Deleting the set later has to remove the saved row too
+      setExistingScores((prev) => (prev.some((row) => row.id === score.id) ? prev : [...prev, score]));
+      setAutosave('saved');
+    } catch (error) {
+      // The set stays in the form and is written with the rest of the session
+      console.error('Error saving set:', error);
+      setAutosave('failed');
     }
-    return time;
   };
 
-  const parseTime = (timeString: string): number => {
-    const [hours, minutes] = timeString.split(':').map(Number);
-    return hours * 60 + minutes;
+  const updateSet = (exerciseIndex: number, setIndex: number, update: Partial<LoggedSet>) => {
+    setLogs((prevLogs) => prevLogs.map((log, i) => (
+      i === exerciseIndex
+        ? { ...log, sets: log.sets.map((set, j) => (j === setIndex ? { ...set, ...update } : set)) }
+        : log
+    )));
   };
 
   const handleSetChange = (
     exerciseIndex: number,
     setIndex: number,
-    field: 'weight' | 'reps' | 'distance' | 'time' | 'calories',
-    value: any
+    field: SetField,
+    value: string | number | null
   ) => {
-    setLogs((prevLogs) => {
-      const newLogs = [...prevLogs];
-      newLogs[exerciseIndex].sets[setIndex] = {
-        ...newLogs[exerciseIndex].sets[setIndex],
-        [field]: field === 'time' ? value : Number(value),
-      };
-      return newLogs;
+    updateSet(exerciseIndex, setIndex, { [field]: field === 'time' ? value : Number(value) });
+  };
+
+  // Rest is recorded on the set it followed, once the athlete ends it or
+  // completes their next set
+  const endRest = () => {
+    if (!rest) return;
+    const update = { rest_seconds: Math.round((Date.now() - rest.started_at) / 1000) };
+    updateSet(rest.exerciseIndex, rest.setIndex, update);
+    const set = logs[rest.exerciseIndex]?.sets[rest.setIndex];
+    if (set) autosaveSet(rest.exerciseIndex, { ...set, ...update }, rest.setIndex);
+    setRest(null);
+  };
+
+  const handleToggleComplete = (exerciseIndex: number, setIndex: number) => {
+    const { sets } = logs[exerciseIndex];
+    const set = sets[setIndex];
+    if (set.completed_at) {
+      if (rest?.exerciseIndex === exerciseIndex && rest.setIndex === setIndex) setRest(null);
+      const update = { completed_at: null, rest_seconds: null };
+      updateSet(exerciseIndex, setIndex, update);
+      autosaveSet(exerciseIndex, { ...set, ...update }, setIndex);
+      return;
+    }
+
+    unlockTimerAudio();
+    requestRestAlerts();
+    endRest();
+    // The set needs its id now so later saves update the same row
+    const update = { id: set.id || uuidv4(), completed_at: new Date().toISOString() };
+    updateSet(exerciseIndex, setIndex, update);
+    autosaveSet(exerciseIndex, { ...set, ...update }, setIndex);
+
+    // A block moves straight on to its next exercise and rests once the round
+    // is done, for as long as its last exercise prescribes
+    const block = blockOf(exerciseIndex);
+    let restAfter = exerciseIndex;
+    if (block?.label) {
+      const roundDone = block.indexes.every((i) => i === exerciseIndex || !logs[i]?.sets[setIndex] || logs[i].sets[setIndex].completed_at);
+      if (!roundDone) return;
+      restAfter = block.indexes[block.indexes.length - 1];
+    }
+    setRest({
+      exerciseIndex,
+      setIndex,
+      started_at: Date.now(),
+      target_seconds: workoutExercises[restAfter]?.rest_seconds ?? DEFAULT_REST_SECONDS,
     });
   };
 
+  const handleAdjustRest = (seconds: number) => {
+    setRest((prev) => prev && { ...prev, target_seconds: Math.max(0, prev.target_seconds + seconds) });
+  };
+
   const handleAddSet = (exerciseIndex: number) => {
     setLogs((prevLogs) => {
       const newLogs = [...prevLogs];
@@ -154,8 +372,8 @@ export function WorkoutLogger({ workout, onClose, previousLogs, workoutLogId: in
             id: uuidv4(), // Generate a new UUID for the new set
             weight: null,
             reps: exercise.reps,
-            distance: exercise.distance,
-            time: formatTime(exercise.time),
+            distance: exercise.distance ? fromStoredDistance(exercise.distance, units.distance_unit) : exercise.distance,
+            time: exercise.time ?? null,
             calories: exercise.calories,
           }]
         };
@@ -164,58 +382,47 @@ export function WorkoutLogger({ workout, onClose, previousLogs, workoutLogId: in
     });
   };
 
+  const autosaveDeletes = async (scoreIds: string[]) => {
+    if (!liveSession || scoreIds.length === 0) return;
+
+    setAutosave('saving');
+    try {
+      await deleteLiveSets(scoreIds);
+      setExistingScores((prev) => prev.filter((row) => !scoreIds.includes(row.id)));
+      setAutosave('saved');
+    } catch (error) {
+      // The rows stay in existingScores and are deleted with the rest of the session
+      console.error('Error deleting set:', error);
+      setAutosave('failed');
+    }
+  };
+
+  // Removes set `setIndex` from each of the given exercises in one update
+  const deleteSets = (exerciseIndexes: number[], setIndex: number) => {
+    // Later sets shift down, so a rest in these exercises can't be tied to its set any more
+    if (rest && exerciseIndexes.includes(rest.exerciseIndex)) setRest(null);
+    const savedIds = exerciseIndexes
+      .map((i) => logs[i]?.sets[setIndex]?.id)
+      .filter((id): id is string => !!id && existingScores.some((row) => row.id === id));
+    setLogs((prevLogs) => prevLogs.map((log, i) => (
+      exerciseIndexes.includes(i)
+        ? { ...log, sets: log.sets.filter((_, j) => j !== setIndex) }
+        : log
+    )));
+    autosaveDeletes(savedIds);
+  };
+
   const handleDeleteSet = (exerciseIndex: number, setIndex: number) => {
-    setLogs((prevLogs) => {
-      const newLogs = [...prevLogs];
-      newLogs[exerciseIndex].sets = newLogs[exerciseIndex].sets.filter((_, i) => i !== setIndex);
-      return newLogs;
-    });
+    deleteSets([exerciseIndex], setIndex);
   };
 
-  const calculateScore = (exercise: WorkoutExercise, log: ExerciseLog, workoutType: string) => {
-    // Calculate score based on exercise type
-    if (exercise.exercise.name === 'Run') {
-      // Score for Run is based on total distance
-      return log.sets.reduce((total, set) => total + (set.distance || 0), 0);
-    } else if (exercise.exercise.name === 'Assault Bike') {
-      // Score for Assault Bike is based on total calories
-      return log.sets.reduce((total, set) => total + (set.calories || 0), 0);
-    } else if (workoutType === 'weight training') {
-      // Score for weight training workouts is based on the heaviest weight used
-      let maxWeight = 0;
-      log.sets.forEach(set => {
-        if (set.weight > maxWeight) {
-          maxWeight = set.weight;
-        }
-      });
-      return maxWeight;
-    } else {
-      // Score for other exercises is based on the heaviest weight used
-      let maxWeight = 0;
-      log.sets.forEach(set => {
-        if (set.weight > maxWeight) {
-          maxWeight = set.weight;
-        }
-      });
-      return maxWeight;
-    }
+  // Rounds of a block are one set of each of its exercises
+  const handleAddRound = (block: ExerciseBlock) => {
+    block.indexes.forEach(handleAddSet);
   };
 
-  const calculateTotal = (exercise: WorkoutExercise, log: ExerciseLog) => {
-    if (exercise.exercise.name === 'Run') {
-      return log.sets.reduce((total, set) => {
-        return total + (set.distance || 0);
-      }, 0);
-    } else if (exercise.exercise.name === 'Assault Bike') {
-      return log.sets.reduce((total, set) => {
-        return total + (set.calories || 0);
-      }, 0);
-    } else {
-      return log.sets.reduce(
-        (total, set) => total + set.weight * set.reps,
-        0
-      );
-    }
+  const handleDeleteRound = (block: ExerciseBlock, setIndex: number) => {
+    deleteSets(block.indexes, setIndex);
   };
 
   const handleCancel = () => {
@@ -231,173 +438,76 @@ export function WorkoutLogger({ workout, onClose, previousLogs, workoutLogId: in
     setSaving(true);
 
     try {
-      // Calculate the total score and total for the workout
-      const score = logs.reduce((total, log, index) => {
-        const exercise = workout.workout_exercises?.[index];
-        return total + (exercise ? calculateScore(exercise, log, workout.type) : 0);
-      }, 0);
-
-      const total = logs.reduce((total, log, index) => {
-        const exercise = workout.workout_exercises?.[index];
-        return total + (exercise ? calculateTotal(exercise, log) : 0);
-      }, 0);
-
-      // Define a variable to hold the current workout log ID
-      let currentWorkoutLogId = workoutLogId;
-
-      // Check if we're updating an existing workout log or creating a new one
-      if (currentWorkoutLogId) {
-        // Update existing workout log
-        const { data, error: updateError } = await supabase
-          .from('workout_logs')
-          .update({
-            notes,
-            score,
-            total,
-            completed_at: new Date().toISOString(),
-          })
-          .eq('id', currentWorkoutLogId)
-          .select()
-          .maybeSingle();
-
-        if (updateError) {
-          console.error('Error updating workout log:', updateError);
-          throw updateError;
-        }
+      const storedLogs = logs.map((log) => ({ ...log, sets: log.sets.map(toStoredSet) }));
 
-        if (!data) {
-          console.warn('No workout log found with that ID to update.');
-          // Instead of throwing an error, we'll create a new workout log
-          const { data: newData, error: createError } = await supabase
-            .from('workout_logs')
-            .insert({
-              user_id: user.id,
-              workout_id: workout.id,
-              notes,
-              completed_at: new Date().toISOString(),
-              score,
-              total,
-            })
-            .select()
-            .maybeSingle();
-
-          if (createError) {
-            console.error('Error creating workout log after failed update:', createError);
-            throw createError;
-          }
-
-          if (!newData) {
-            console.error('Failed to create new workout log after failed update');
-            throw new Error('Failed to create or update workout log');
-          }
-
-          // Update to use the newly created workout log ID
-          currentWorkoutLogId = newData.id;
-          setWorkoutLogId(currentWorkoutLogId);
-        }
-        // We don't need to update currentWorkoutLogId if the update succeeded
-      } else {
-        // Create new workout log
-        const { data, error: workoutError } = await supabase
-          .from('workout_logs')
-          .insert({
-            user_id: user.id,
-            workout_id: workout.id,
-            notes,
-            completed_at: new Date().toISOString(),
-            score,
-            total,
-          })
-          .select()
-          .maybeSingle();
-
-        if (workoutError) {
-          console.error('Error creating workout log:', workoutError);
-          throw workoutError;
-        }
-
-        if (!data) {
-          console.warn('Workout log creation returned no data.');
-          throw new Error('Failed to create workout log');
-        }
+      // Formatted WODs are scored from the entered result, everything else from the logged sets
+      const { score, total } = showFormatResult
+        ? { score: formatResultScore(workout, result), total: formatResultScore(workout, result) }
+        : calculateWorkoutResult(workout.workout_exercises, storedLogs);
 
-        // Update the current workout log ID with the new one
-        currentWorkoutLogId = data.id;
-        setWorkoutLogId(currentWorkoutLogId);
-      }
+      // Logs get their id on the client so an offline save can be replayed later
+      const currentWorkoutLogId = workoutLogId || uuidv4();
+      setWorkoutLogId(currentWorkoutLogId);
 
-      // Make sure we have a valid workout log ID at this point
-      if (!currentWorkoutLogId) {
-        throw new Error('Missing workout log ID');
-      }
-
-      // Prepare exercise scores for upsert
-      const exerciseScoresToUpsert = logs.flatMap((log, index) => {
-        const exercise = workout.workout_exercises?.[index];
+      const exerciseScoresToUpsert = storedLogs.flatMap((log) => {
+        const exercise = workout.workout_exercises?.find((candidate) => candidate.id === log.workout_exercise_id);
         if (!exercise) return [];
-        return log.sets.map((set) => {
-          return {
-            id: set.id || uuidv4(),
-            user_id: user.id,
-            workout_log_id: currentWorkoutLogId, // Use the current workout log ID
-            exercise_id: log.exercise_id,
-            weight: set.weight,
-            reps: set.reps,
-            distance: set.distance,
-            time: set.time,
-            calories: set.calories,
-          };
-        });
+        return log.sets.map((set, setIndex) => toScoreRow(user.id, currentWorkoutLogId, exercise, set, setIndex));
       });
 
-// Upsert exercise scores
-const { error: upsertError } = await supabase
-  .from('exercise_scores')
-  .upsert(exerciseScoresToUpsert, { onConflict: 'id' });
-
-if (upsertError) {
-  console.error('Error upserting exercise scores:', upsertError);
-  throw upsertError;
-}
-
-
-      // Handle deleted sets
-      if (currentWorkoutLogId) {
-        const existingScoreIds = existingScores.map(es => es.id);
-        const currentScoreIds = exerciseScoresToUpsert.map(es => es.id).filter(id => id);
-        const scoresToDelete = existingScoreIds.filter(id => !currentScoreIds.includes(id));
-
-        if (scoresToDelete.length > 0) {
-          const { error: deleteError } = await supabase
-            .from('exercise_scores')
-            .delete()
-            .in('id', scoresToDelete);
+      // Sets removed since the log was last saved
+      const currentScoreIds = exerciseScoresToUpsert.map((score) => score.id);
+      const deletedScoreIds = existingScores
+        .map((score) => score.id)
+        .filter((id) => !currentScoreIds.includes(id));
+
+      const { status, records } = await submitWorkoutLog({
+        workout: { id: workout.id, name: workout.name, format: workout.format },
+        log: {
+          id: currentWorkoutLogId,
+          user_id: user.id,
+          workout_id: workout.id,
+          notes,
+          score,
+          total,
+          division,
+          ...result,
+          completed_at: new Date().toISOString(),
+          in_progress: false,
+        },
+        scores: exerciseScoresToUpsert,
+        deleted_score_ids: deletedScoreIds,
+      });
 
-          if (deleteError) throw deleteError;
-        }
+      if (status === 'queued') {
+        setConfirmation({ queued: true, records });
+        return;
       }
 
       // Get completed exercises for the week in the format WeeklyExercises expects
-      if (user) {
-        const weekStart = format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd');
-        const weekEnd = format(endOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd');
-
-        const { data: completedData, error: completedError } = await supabase
-          .from('workout_logs')
-          .select(`
-            completed_at,
-            workout:workouts!inner (
-              workout_exercises!inner (
-                exercise_id
-              )
+      const weekStart = format(startOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+      const weekEnd = format(endOfWeek(new Date(), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+
+      const { data: completedData, error: completedError } = await supabase
+        .from('workout_logs')
+        .select(`
+          completed_at,
+          workout:workouts!inner (
+            workout_exercises!inner (
+              exercise_id
             )
-          `)
-          .eq('user_id', user.id)
-          .gte('completed_at', weekStart)
-          .lte('completed_at', weekEnd);
-
-        if (completedError) throw completedError;
-
+          )
+        `)
+        .eq('user_id', user.id)
+        .eq('in_progress', false)
+        .gte('completed_at', weekStart)
+        .lte('completed_at', weekEnd);
+
+      if (completedError) {
+        // The log itself is saved; only the weekly summary refresh failed
+        console.error('Error fetching completed exercises:', completedError);
+        setConfirmation({ queued: false, records });
+      } else {
         const formattedCompletedExercises = completedData?.flatMap(log =>
           log.workout.workout_exercises.map(ex => ({
             exercise_id: ex.exercise_id,
@@ -405,12 +515,8 @@ if (upsertError) {
           }))
         ) || [];
 
-        onClose(formattedCompletedExercises);
-      } else {
-        onClose();
+        setConfirmation({ queued: false, records, completedExercises: formattedCompletedExercises });
       }
-
-      alert('Workout logged successfully!');
     } catch (error) {
       console.error('Error logging workout:', error);
       alert(`Failed to log workout: ${error.message || 'Unknown error'}`);
@@ -419,216 +525,271 @@ if (upsertError) {
     }
   };
 
+  const renderExerciseDetails = (exercise: WorkoutExercise) => {
+    const baseExerciseName = allExercises.find((ex) => ex.id === exercise.percentage_of_exercise_id)?.name;
+    const target = targetWeights[exercise.id];
+    const prescription = [
+      describeIntensity(exercise, baseExerciseName),
+      target ? formatWeight(target, units.weight_unit) : null,
+      describePrescription(getPrescription(exercise, division), units),
+    ].filter(Boolean).join(' · ');
+    const loadMetric = isLoadMetric(getScoringMetric(exercise.exercise));
+    const bar = barWeights[exercise.id] ?? plates.bars[0];
+    return (
+      <>
+        {prescription && (
+          <p className="text-sm text-gray-500 -mt-2 mb-3">{prescription}</p>
+        )}
+
+        {loadMetric && (
+          <>
+            <ExercisePercentages
+              exerciseId={exercise.exercise_id}
+              exerciseName={exercise.exercise.name}
+              prescription={workout.description}
+            />
+            <label className="flex items-center gap-2 mt-3 text-sm">
+              <span className="dark:text-gray-300">Bar</span>
+              <select
+                value={bar}
+                onChange={(e) => setBarWeights((prev) => ({ ...prev, [exercise.id]: Number(e.target.value) }))}
+                className="rounded-md border-gray-300 text-sm"
+              >
+                {plates.bars.map((weight) => (
+                  <option key={weight} value={weight}>{weight} {units.weight_unit}</option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+      </>
+    );
+  };
+
+  // Rows in a block are removed a round at a time, so they come without a delete button
+  const renderSetRow = (exerciseIndex: number, setIndex: number, label: string, onDelete?: () => void) => {
+    const exercise = workoutExercises[exerciseIndex];
+    const set = logs[exerciseIndex].sets[setIndex];
+    const loadMetric = isLoadMetric(getScoringMetric(exercise.exercise));
+    const bar = barWeights[exercise.id] ?? plates.bars[0];
+    // The done button and the set's two fields, then the delete button if there is one
+    const columns = onDelete ? 'grid-cols-[auto_1fr_1fr_auto]' : 'grid-cols-[auto_1fr_1fr]';
+    return (
+      <div key={`${exerciseIndex}-${setIndex}`}>
+        <div className={`grid ${columns} gap-4 items-center`}>
+          <button
+            type="button"
+            onClick={() => handleToggleComplete(exerciseIndex, setIndex)}
+            className={`flex items-center gap-2 text-sm text-left ${set.completed_at ? 'text-green-600' : 'text-gray-500 hover:text-gray-700'}`}
+            title={set.completed_at ? 'Mark set not done' : 'Mark set done and start rest'}
+          >
+            {set.completed_at ? <CheckCircle2 className="h-5 w-5 shrink-0" /> : <Circle className="h-5 w-5 shrink-0" />}
+            {label}
+          </button>
+          <SetInputs
+            set={set}
+            metric={getScoringMetric(exercise.exercise)}
+            units={units}
+            onChange={(field, value) => handleSetChange(exerciseIndex, setIndex, field, value)}
+          />
+          {onDelete && (
+            <button
+              onClick={onDelete}
+              className="text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        {loadMetric && !!set.weight && (
+          <PlateLoading weight={set.weight} bar={bar} inventory={plates} unit={units.weight_unit} />
+        )}
+        {set.rest_seconds != null && (
+          <p className="text-xs text-gray-500 mt-1">Rested {formatDuration(set.rest_seconds)}</p>
+        )}
+      </div>
+    );
+  };
+
+  const restLabel = (period: RestPeriod) => {
+    const block = blockOf(period.exerciseIndex);
+    return block?.label
+      ? `Block ${block.label} round ${period.setIndex + 1}`
+      : `${workoutExercises[period.exerciseIndex]?.exercise.name} set ${period.setIndex + 1}`;
+  };
+
   return (
     <div className="fixed inset-0 dark:bg-gray-800 bg-opacity-75 flex items-center justify-center p-4">
       <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6 ai-style-change-1 dark:bg-gray-700 dark:text-gray-300 dark:shadow-gray-900">
         <h2 className="text-2xl font-bold dark:text-gray-100 mb-6">
           Log Workout: {workout.name}
         </h2>
+        {autosave && !confirmation && (
+          <p className={`text-sm -mt-4 mb-4 ${autosave === 'failed' ? 'text-amber-600' : 'text-gray-500'}`}>
+            {autosave === 'saving' && 'Saving set...'}
+            {autosave === 'saved' && 'Progress saved. You can close this and resume later.'}
+            {autosave === 'failed' && "Couldn't save the last set. It will be saved when you finish."}
+          </p>
+        )}
+
+        {confirmation ? (
+          <SaveConfirmation
+            queued={confirmation.queued}
+            records={confirmation.records}
+            exercises={workout.workout_exercises || []}
+            onDone={() => onClose(confirmation.completedExercises)}
+          />
+        ) : (
+          <div className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium dark:text-gray-300 mb-2">
+                Division
+              </label>
+              <div className="flex gap-2">
+                {DIVISIONS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setDivision(option.value)}
+                    className={`px-3 py-1 rounded-md text-sm font-medium ${
+                      division === option.value
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-600 dark:text-gray-200'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
 
-        <div className="space-y-6">
-          {workout.workout_exercises?.map((exercise, exerciseIndex) => (
-            <div key={exercise.id} className="border rounded-md p-4">
-              <h3 className="font-medium text-lg mb-3">
-                {exercise.exercise.name}
-              </h3>
-
-              <ExercisePercentages 
-                exerciseId={exercise.exercise_id}
-                exerciseName={exercise.exercise.name}
-              />
-
-              <div className="space-y-3 mt-4">
-                {Array.from({ length: logs[exerciseIndex]?.sets?.length || 0 }).map((_, setIndex) => (
-                  <div key={setIndex} className="grid grid-cols-3 gap-4 items-center">
-                    <div className="text-sm text-gray-500">
-                      Set {setIndex + 1}
+            {blocks.map((block) => {
+              if (!block.label) {
+                const exerciseIndex = block.indexes[0];
+                const exercise = workoutExercises[exerciseIndex];
+                return (
+                  <div key={exercise.id} className="border rounded-md p-4">
+                    <h3 className="font-medium text-lg mb-3">
+                      {exercise.exercise.name}
+                    </h3>
+                    {renderExerciseDetails(exercise)}
+
+                    <div className="space-y-3 mt-4">
+                      {Array.from({ length: logs[exerciseIndex]?.sets?.length || 0 }).map((_, setIndex) => (
+                        renderSetRow(exerciseIndex, setIndex, `Set ${setIndex + 1}`, () => handleDeleteSet(exerciseIndex, setIndex))
+                      ))}
+                      <button
+                        onClick={() => handleAddSet(exerciseIndex)}
+                        className="mt-2 text-indigo-600 font-medium hover:underline"
+                      >
+                        Add Set
+                      </button>
                     </div>
-                    {
-                      exercise.exercise.name === 'Run' ? (
-                        <>
-                          <div>
-                            <label className="block text-sm font-medium dark:text-gray-300">Time (HH:MM)</label>
-                            <input
-                              type="text"
-                              value={logs[exerciseIndex].sets[setIndex].time || '00:00'}
-                              onChange={(e) =>
-                                handleSetChange(exerciseIndex, setIndex, 'time', e.target.value)
-                              }
-                              className="w-full rounded-md border-gray-300"
-                              placeholder="HH:MM"
-                            />
-                          </div>
-                          <div>
-                            <label className="block text-sm font-medium dark:text-gray-300">Distance (meters)</label>
-                            <input
-                              type="number"
-                              value={logs[exerciseIndex].sets[setIndex].distance}
-                              onChange={(e) =>
-                                handleSetChange(
-                                  exerciseIndex,
-                                  setIndex,
-                                  'distance',
-                                  Number(e.target.value)
-                                )
-                              }
-                              className="w-full rounded-md border-gray-300"
-                              placeholder="Distance (meters)"
-                            />
-                          </div>
-                        </>
-                      ) : exercise.exercise.name === 'Assault Bike' ? (
-                        <>
-                          <div>
-                            <label className="block text-sm font-medium dark:text-gray-300">Time (HH:MM)</label>
-                            <input
-                              type="text"
-                              value={logs[exerciseIndex].sets[setIndex].time || '00:00'}
-                              onChange={(e) =>
-                                handleSetChange(exerciseIndex, setIndex, 'time', e.target.value)
-                              }
-                              className="w-full rounded-md border-gray-300"
-                              placeholder="HH:MM"
-                            />
-                          </div>
-                          <div>
-                            <label className="block text-sm font-medium dark:text-gray-300">Calories</label>
-                            <input
-                              type="number"
-                              value={logs[exerciseIndex].sets[setIndex].calories}
-                              onChange={(e) =>
-                                handleSetChange(
-                                  exerciseIndex,
-                                  setIndex,
-                                  'calories',
-                                  Number(e.target.value)
-                                )
-                              }
-                              className="w-full rounded-md border-gray-300"
-                              placeholder="Calories"
-                            />
-                          </div>
-                        </>
-                      ) : exercise.exercise.name === 'Rower' ? (
-                        <>
-                          <div>
-                            <label className="block text-sm font-medium dark:text-gray-300">Distance (meters)</label>
-                            <input
-                              type="number"
-                              value={logs[exerciseIndex].sets[setIndex].distance}
-                              onChange={(e) =>
-                                handleSetChange(
-                                  exerciseIndex,
-                                  setIndex,
-                                  'distance',
-                                  Number(e.target.value)
-                                )
-                              }
-                              className="w-full rounded-md border-gray-300"
-                              placeholder="Distance (meters)"
-                            />
-                          </div>
-                          <div>
-                            <label className="block text-sm font-medium dark:text-gray-300">Calories</label>
-                            <input
-                              type="number"
-                              value={logs[exerciseIndex].sets[setIndex].calories}
-                              onChange={(e) =>
-                                handleSetChange(
-                                  exerciseIndex,
-                                  setIndex,
-                                  'calories',
-                                  Number(e.target.value)
-                                )
-                              }
-                              className="w-full rounded-md border-gray-300"
-                              placeholder="Calories"
-                            />
-                          </div>
-                        </>
-                      ) : (
-                        <>
-                          <div>
-                            <input
-                              type="number"
-                              value={logs[exerciseIndex].sets[setIndex].weight || ''}
-                              onChange={(e) =>
-                                handleSetChange(
-                                  exerciseIndex,
-                                  setIndex,
-                                  'weight',
-                                  e.target.value ? Number(e.target.value) : null
-                                )
-                              }
-                              className="w-full rounded-md border-gray-300"
-                              placeholder="Weight"
-                            />
-                          </div>
-                          <div>
-                            <input
-                              type="number"
-                              value={logs[exerciseIndex].sets[setIndex].reps}
-                              onChange={(e) =>
-                                handleSetChange(
-                                  exerciseIndex,
-                                  setIndex,
-                                  'reps',
-                                  Number(e.target.value)
-                                )
-                              }
-                              className="w-full rounded-md border-gray-300"
-                              placeholder="Reps"
-                            />
-                          </div>
-                        </>
-                      )}
+                  </div>
+                );
+              }
+
+              const rounds = Math.max(0, ...block.indexes.map((exerciseIndex) => logs[exerciseIndex]?.sets?.length || 0));
+              return (
+                <div key={`block-${block.label}`} className="border rounded-md p-4">
+                  <h3 className="font-medium text-lg mb-3">
+                    {block.label} · {describeBlock(block)}
+                  </h3>
+                  <div className="space-y-3">
+                    {block.indexes.map((exerciseIndex, position) => {
+                      const exercise = workoutExercises[exerciseIndex];
+                      return (
+                        <div key={exercise.id}>
+                          <h4 className="font-medium mb-2">
+                            {memberLabel(block, position)} {exercise.exercise.name}
+                          </h4>
+                          {renderExerciseDetails(exercise)}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  <div className="space-y-4 mt-4">
+                    {Array.from({ length: rounds }).map((_, setIndex) => (
+                      <div key={setIndex} className="border-t pt-3 space-y-3">
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm font-medium dark:text-gray-300">Round {setIndex + 1}</span>
+                          <button
+                            onClick={() => handleDeleteRound(block, setIndex)}
+                            className="text-red-600 hover:text-red-700"
+                            title="Remove round"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                        {block.indexes.map((exerciseIndex, position) => (
+                          logs[exerciseIndex]?.sets?.[setIndex] && renderSetRow(
+                            exerciseIndex,
+                            setIndex,
+                            `${memberLabel(block, position)} ${workoutExercises[exerciseIndex].exercise.name}`
+                          )
+                        ))}
+                      </div>
+                    ))}
                     <button
-                      onClick={() => handleDeleteSet(exerciseIndex, setIndex)}
-                      className="text-red-600 hover:text-red-700"
+                      onClick={() => handleAddRound(block)}
+                      className="mt-2 text-indigo-600 font-medium hover:underline"
                     >
-                      <Trash2 className="h-4 w-4" />
+                      Add Round
                     </button>
                   </div>
-                ))}
-                <button
-                  onClick={() => handleAddSet(exerciseIndex)}
-                  className="mt-2 text-indigo-600 font-medium hover:underline"
-                >
-                  Add Set
-                </button>
-              </div>
+                </div>
+              );
+            })}
+
+            {showFormatResult && (
+              <FormatResultInputs
+                workout={workout}
+                result={result}
+                onChange={(update) => setResult((prev) => ({ ...prev, ...update }))}
+              />
+            )}
+
+            <div>
+              <label className="block text-sm font-medium dark:text-gray-300 mb-2">
+                Notes
+              </label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="w-full rounded-md border-gray-300"
+                rows={3}
+              />
             </div>
-          ))}
-
-          <div>
-            <label className="block text-sm font-medium dark:text-gray-300 mb-2">
-              Notes
-            </label>
-            <textarea
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              className="w-full rounded-md border-gray-300"
-              rows={3}
-            />
-          </div>
 
-          <div className="flex justify-end space-x-4">
-            <button
-              onClick={handleCancel}
-              className="px-4 py-2 text-sm font-medium dark:text-gray-300 hover:text-gray-500"
-              disabled={saving}
-            >
-              Cancel
-            </button>
-            <button
-              onClick={handleSubmit}
-              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md"
-              disabled={saving}
-            >
-              {saving ? 'Saving...' : isCompleted ? 'Update Workout' : 'Complete Workout'}
-            </button>
+            <div className="flex justify-end space-x-4">
+              <button
+                onClick={handleCancel}
+                className="px-4 py-2 text-sm font-medium dark:text-gray-300 hover:text-gray-500"
+                disabled={saving}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmit}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md"
+                disabled={saving}
+              >
+                {saving ? 'Saving...' : isCompleted ? 'Update Workout' : 'Complete Workout'}
+              </button>
+            </div>
           </div>
-        </div>
+        )}
+
+        {rest && !confirmation && (
+          <RestTimer
+            key={rest.started_at}
+            rest={rest}
+            label={restLabel(rest)}
+            onAdjust={handleAdjustRest}
+            onDone={endRest}
+          />
+        )}
       </div>
     </div>
   );
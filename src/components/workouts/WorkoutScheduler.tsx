@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { Calendar } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
 import type { Workout } from '../../types/workout';
 
 export function WorkoutScheduler() {
   const [scheduledWorkouts, setScheduledWorkouts] = useState<Workout[]>([]);
   const [selectedDate, setSelectedDate] = useState(new Date());
+  const { isStaff } = useAuth();
 
   useEffect(() => {
     async function fetchScheduledWorkouts() {
@@ -13,6 +16,7 @@ export function WorkoutScheduler() {
         .from('workouts')
         .select('*')
         .gte('scheduled_date', new Date().toISOString().split('T')[0])
+        .is('program_enrollment_id', null)
         .order('scheduled_date');
       
       if (data) setScheduledWorkouts(data);
@@ -23,7 +27,14 @@ export function WorkoutScheduler() {
 
   return (
     <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 transition-all duration-300">
-      <h2 className="text-xl font-bold dark:text-gray-100 mb-4">Scheduled Workouts</h2>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold dark:text-gray-100">Scheduled Workouts</h2>
+        {isStaff && (
+          <Link to="/calendar" className="text-sm text-indigo-600 hover:text-indigo-700 dark:text-indigo-400">
+            Open calendar
+          </Link>
+        )}
+      </div>
 
       <div className="space-y-4">
         {scheduledWorkouts.map((workout) => (
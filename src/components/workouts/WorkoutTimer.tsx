@@ -0,0 +1,229 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pause, Play, RotateCcw, Square, X } from 'lucide-react';
+import { formatDuration } from '../../lib/duration';
+import {
+  CUE_SECONDS,
+  TIMER_MODES,
+  playTimerCue,
+  timerConfigFor,
+  timerLength,
+  timerState,
+  unlockTimerAudio,
+  type TimerConfig,
+  type TimerState,
+} from '../../lib/timer';
+import { useWakeLock } from '../../hooks/useWakeLock';
+import type { Workout } from '../../types/workout';
+
+interface WorkoutTimerProps {
+  workout: Workout;
+  onClose: () => void;
+  // Called with the elapsed seconds when the athlete stops the clock
+  onStop: (elapsedSeconds: number) => void;
+}
+
+const PHASE_STYLES: Record<TimerState['phase'], string> = {
+  work: 'text-green-400',
+  rest: 'text-red-400',
+  done: 'text-gray-400',
+};
+
+function ConfigField({ label, value, onChange }: {
+  label: string;
+  value: number | null;
+  onChange: (value: number | null) => void;
+}) {
+  return (
+    <label className="block">
+      <span className="text-sm text-gray-300">{label}</span>
+      <input
+        type="number"
+        min={0}
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        className="mt-1 w-24 rounded-md border-gray-600 bg-gray-800 text-white"
+      />
+    </label>
+  );
+}
+
+export function WorkoutTimer({ workout, onClose, onStop }: WorkoutTimerProps) {
+  const [config, setConfig] = useState<TimerConfig>(() => timerConfigFor(workout));
+  const [running, setRunning] = useState(false);
+  // Time banked by earlier runs; the current run is measured from `startedAt`
+  // so a throttled background tab doesn't drift
+  const [banked, setBanked] = useState(0);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const lastState = useRef<TimerState | null>(null);
+
+  useWakeLock(running);
+
+  const elapsed = Math.floor((banked + (running && startedAt ? now - startedAt : 0)) / 1000);
+  const state = timerState(config, elapsed);
+  const started = running || banked > 0;
+
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  useEffect(() => {
+    if (!running) return;
+    const previous = lastState.current;
+    lastState.current = state;
+    if (previous && previous.phase === state.phase && previous.round === state.round && previous.display === state.display) return;
+
+    if (state.phase === 'done') {
+      playTimerCue('end');
+      setBanked((timerLength(config) || 0) * 1000);
+      setStartedAt(null);
+      setRunning(false);
+    } else if (previous && (previous.phase !== state.phase || previous.round !== state.round)) {
+      playTimerCue('go');
+    } else if (state.remaining != null && state.remaining > 0 && state.remaining <= CUE_SECONDS) {
+      playTimerCue('tick');
+    }
+  }, [running, state, config]);
+
+  const handleStart = () => {
+    unlockTimerAudio();
+    if (!started) playTimerCue('go');
+    const time = Date.now();
+    setStartedAt(time);
+    setNow(time);
+    setRunning(true);
+  };
+
+  const handlePause = () => {
+    setBanked((prev) => prev + (startedAt ? Date.now() - startedAt : 0));
+    setStartedAt(null);
+    setRunning(false);
+  };
+
+  const handleReset = () => {
+    setRunning(false);
+    setStartedAt(null);
+    setBanked(0);
+    lastState.current = null;
+  };
+
+  const handleStop = () => {
+    setRunning(false);
+    onStop(elapsed);
+  };
+
+  const updateConfig = (update: Partial<TimerConfig>) => setConfig((prev) => ({ ...prev, ...update }));
+  const toMinutes = (seconds: number | null) => (seconds ? seconds / 60 : null);
+  const toSeconds = (minutes: number | null) => (minutes ? Math.round(minutes * 60) : null);
+  const intervals = config.mode === 'emom' || config.mode === 'tabata';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900 text-white flex flex-col">
+      <div className="flex items-center justify-between p-4">
+        <h2 className="text-lg font-semibold">{workout.name}</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close timer">
+          <X className="h-6 w-6" />
+        </button>
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center gap-6 p-4">
+        {!started && (
+          <div className="flex flex-col items-center gap-4">
+            <div className="flex gap-2">
+              {TIMER_MODES.map((mode) => (
+                <button
+                  key={mode.value}
+                  onClick={() => updateConfig({ mode: mode.value })}
+                  className={`px-3 py-1 rounded-md text-sm font-medium ${
+                    config.mode === mode.value ? 'bg-indigo-600 text-white' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'
+                  }`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap justify-center gap-4">
+              {config.mode === 'count_up' && (
+                <ConfigField
+                  label="Time cap (min)"
+                  value={toMinutes(config.duration_seconds)}
+                  onChange={(value) => updateConfig({ duration_seconds: toSeconds(value) })}
+                />
+              )}
+              {config.mode === 'countdown' && (
+                <ConfigField
+                  label="Minutes"
+                  value={toMinutes(config.duration_seconds)}
+                  onChange={(value) => updateConfig({ duration_seconds: toSeconds(value) })}
+                />
+              )}
+              {intervals && (
+                <>
+                  <ConfigField label="Rounds" value={config.rounds} onChange={(value) => updateConfig({ rounds: value || 1 })} />
+                  <ConfigField
+                    label={config.mode === 'emom' ? 'Every (sec)' : 'Work (sec)'}
+                    value={config.work_seconds}
+                    onChange={(value) => updateConfig({ work_seconds: value || 1 })}
+                  />
+                </>
+              )}
+              {config.mode === 'tabata' && (
+                <ConfigField label="Rest (sec)" value={config.rest_seconds} onChange={(value) => updateConfig({ rest_seconds: value || 0 })} />
+              )}
+            </div>
+          </div>
+        )}
+
+        {intervals && (
+          <p className="text-2xl text-gray-300">
+            Round {state.round} of {config.rounds}
+            {config.mode === 'tabata' && state.phase !== 'done' && (
+              <span className={`ml-3 uppercase font-semibold ${PHASE_STYLES[state.phase]}`}>{state.phase}</span>
+            )}
+          </p>
+        )}
+        <p className={`font-mono font-bold tabular-nums text-[22vw] sm:text-[16vw] leading-none ${PHASE_STYLES[state.phase]}`}>
+          {formatDuration(state.display)}
+        </p>
+        {config.mode === 'count_up' && config.duration_seconds && (
+          <p className="text-gray-400">Time cap {formatDuration(config.duration_seconds)}</p>
+        )}
+        {intervals && started && (
+          <p className="text-gray-400">Total {formatDuration(elapsed)}</p>
+        )}
+      </div>
+
+      <div className="flex justify-center gap-4 p-6">
+        {running ? (
+          <button onClick={handlePause} className="flex items-center px-6 py-3 rounded-md bg-gray-700 hover:bg-gray-600 text-lg">
+            <Pause className="h-5 w-5 mr-2" />
+            Pause
+          </button>
+        ) : (
+          <button
+            onClick={handleStart}
+            disabled={state.phase === 'done'}
+            className="flex items-center px-6 py-3 rounded-md bg-green-600 hover:bg-green-700 text-lg disabled:opacity-50"
+          >
+            <Play className="h-5 w-5 mr-2" />
+            {started ? 'Resume' : 'Start'}
+          </button>
+        )}
+        {started && (
+          <>
+            <button onClick={handleReset} className="flex items-center px-6 py-3 rounded-md bg-gray-700 hover:bg-gray-600 text-lg">
+              <RotateCcw className="h-5 w-5 mr-2" />
+              Reset
+            </button>
+            <button onClick={handleStop} className="flex items-center px-6 py-3 rounded-md bg-red-600 hover:bg-red-700 text-lg">
+              <Square className="h-5 w-5 mr-2" />
+              Stop &amp; Log
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import React from 'react';
+import { BLOCK_LABELS, type BlockUpdate } from '../../../lib/blocks';
+import type { WorkoutExercise } from '../../../types/workout';
+
+export type BlockValues = Partial<Pick<WorkoutExercise, 'block' | 'block_rounds'>>;
+
+interface BlockFieldsProps {
+  values: BlockValues;
+  onChange: (update: BlockUpdate) => void;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50';
+
+export function BlockFields({ values, onChange }: BlockFieldsProps) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+      <div>
+        <label className="block text-sm font-medium dark:text-gray-300">Superset / Circuit</label>
+        <select
+          value={values.block ?? ''}
+          onChange={(e) => onChange({ block: e.target.value || null })}
+          className={inputClassName}
+        >
+          <option value="">None</option>
+          {BLOCK_LABELS.map((label) => (
+            <option key={label} value={label}>
+              Block {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      {values.block && (
+        <div>
+          <label className="block text-sm font-medium dark:text-gray-300">Rounds</label>
+          <input
+            type="number"
+            min={1}
+            value={values.block_rounds ?? ''}
+            onChange={(e) => onChange({ block_rounds: e.target.value === '' ? null : Number(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
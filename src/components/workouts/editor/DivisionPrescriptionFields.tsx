@@ -0,0 +1,93 @@
+import React from 'react';
+import { useUnits } from '../../../hooks/useUnits';
+import { fromStoredWeight, toStoredWeight } from '../../../lib/units';
+import type { WorkoutExercise } from '../../../types/workout';
+
+export type PrescriptionField =
+  | 'weight'
+  | 'scaled_weight'
+  | 'scaled_notes'
+  | 'foundations_weight'
+  | 'foundations_notes';
+
+export type PrescriptionValues = Partial<Pick<WorkoutExercise, PrescriptionField>>;
+
+interface DivisionPrescriptionFieldsProps {
+  values: PrescriptionValues;
+  // Relative (percentage or RPE) prescriptions have no fixed weights, only substitutions
+  showWeights?: boolean;
+  onChange: (field: PrescriptionField, value: string | number | null) => void;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50';
+
+export function DivisionPrescriptionFields({ values, showWeights = true, onChange }: DivisionPrescriptionFieldsProps) {
+  const { units } = useUnits();
+  // Prescribed weights are stored in pounds and entered in the coach's unit
+  const displayWeight = (weight: number | null | undefined) =>
+    weight == null ? '' : fromStoredWeight(weight, units.weight_unit);
+  const toNullableWeight = (value: string) =>
+    value === '' ? null : toStoredWeight(Number(value), units.weight_unit);
+
+  return (
+    <div className={`grid gap-4 ${showWeights ? 'grid-cols-3' : 'grid-cols-2'}`}>
+      {showWeights && (
+        <div>
+          <label className="block text-sm font-medium dark:text-gray-300">Rx Weight ({units.weight_unit})</label>
+          <input
+            type="number"
+            min={0}
+            value={displayWeight(values.weight)}
+            onChange={(e) => onChange('weight', toNullableWeight(e.target.value))}
+            className={inputClassName}
+          />
+        </div>
+      )}
+      <div>
+        <label className="block text-sm font-medium dark:text-gray-300">
+          {showWeights ? `Scaled Weight (${units.weight_unit})` : 'Scaled'}
+        </label>
+        {showWeights && (
+          <input
+            type="number"
+            min={0}
+            value={displayWeight(values.scaled_weight)}
+            placeholder="Same as Rx"
+            onChange={(e) => onChange('scaled_weight', toNullableWeight(e.target.value))}
+            className={inputClassName}
+          />
+        )}
+        <input
+          type="text"
+          value={values.scaled_notes ?? ''}
+          placeholder="Substitution, e.g. banded pull-ups"
+          onChange={(e) => onChange('scaled_notes', e.target.value || null)}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium dark:text-gray-300">
+          {showWeights ? `Foundations Weight (${units.weight_unit})` : 'Foundations'}
+        </label>
+        {showWeights && (
+          <input
+            type="number"
+            min={0}
+            value={displayWeight(values.foundations_weight)}
+            placeholder="Same as Scaled"
+            onChange={(e) => onChange('foundations_weight', toNullableWeight(e.target.value))}
+            className={inputClassName}
+          />
+        )}
+        <input
+          type="text"
+          value={values.foundations_notes ?? ''}
+          placeholder="Substitution, e.g. ring rows"
+          onChange={(e) => onChange('foundations_notes', e.target.value || null)}
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import React from 'react';
+import { INTENSITY_TYPES, RPE_OPTIONS, getIntensityType } from '../../../lib/prescriptions';
+import type { Exercise, IntensityType, WorkoutExercise } from '../../../types/workout';
+
+export type IntensityField =
+  | 'sets'
+  | 'reps'
+  | 'rest_seconds'
+  | 'intensity_type'
+  | 'percentage'
+  | 'percentage_of_exercise_id'
+  | 'rpe';
+
+export type IntensityValues = Partial<Pick<WorkoutExercise, IntensityField>>;
+
+interface IntensityFieldsProps {
+  values: IntensityValues;
+  exercises: Exercise[];
+  onChange: (field: IntensityField, value: string | number | null) => void;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50';
+
+const toNullableNumber = (value: string) => (value === '' ? null : Number(value));
+
+export function IntensityFields({ values, exercises, onChange }: IntensityFieldsProps) {
+  const intensityType = getIntensityType(values);
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+      <div>
+        <label className="block text-sm font-medium dark:text-gray-300">Sets</label>
+        <input
+          type="number"
+          min={1}
+          value={values.sets ?? ''}
+          onChange={(e) => onChange('sets', toNullableNumber(e.target.value))}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium dark:text-gray-300">Reps</label>
+        <input
+          type="number"
+          min={1}
+          value={values.reps ?? ''}
+          onChange={(e) => onChange('reps', toNullableNumber(e.target.value))}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium dark:text-gray-300">Rest (sec)</label>
+        <input
+          type="number"
+          min={0}
+          step={15}
+          value={values.rest_seconds ?? ''}
+          onChange={(e) => onChange('rest_seconds', toNullableNumber(e.target.value))}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium dark:text-gray-300">Intensity</label>
+        <select
+          value={intensityType}
+          onChange={(e) => onChange('intensity_type', e.target.value as IntensityType)}
+          className={inputClassName}
+        >
+          {INTENSITY_TYPES.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {intensityType === 'percentage' && (
+        <>
+          <div>
+            <label className="block text-sm font-medium dark:text-gray-300">Percentage</label>
+            <input
+              type="number"
+              min={1}
+              max={120}
+              step="0.5"
+              value={values.percentage ?? ''}
+              onChange={(e) => onChange('percentage', toNullableNumber(e.target.value))}
+              className={inputClassName}
+            />
+          </div>
+          <div className="col-span-2">
+            <label className="block text-sm font-medium dark:text-gray-300">Of 1RM</label>
+            <select
+              value={values.percentage_of_exercise_id ?? ''}
+              onChange={(e) => onChange('percentage_of_exercise_id', e.target.value || null)}
+              className={inputClassName}
+            >
+              <option value="">This exercise</option>
+              {exercises.map((exercise) => (
+                <option key={exercise.id} value={exercise.id}>
+                  {exercise.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+
+      {intensityType === 'rpe' && (
+        <div>
+          <label className="block text-sm font-medium dark:text-gray-300">RPE</label>
+          <select
+            value={values.rpe ?? ''}
+            onChange={(e) => onChange('rpe', toNullableNumber(e.target.value))}
+            className={inputClassName}
+          >
+            <option value="">Select RPE</option>
+            {RPE_OPTIONS.map((rpe) => (
+              <option key={rpe} value={rpe}>
+                {rpe}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
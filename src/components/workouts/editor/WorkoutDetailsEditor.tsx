@@ -1,12 +1,14 @@
 import React from 'react';
 import type { WorkoutFormData } from '../../../hooks/useWorkoutEditor';
+import { WorkoutFormatFields } from './WorkoutFormatFields';
 
 interface WorkoutDetailsEditorProps {
   formData: WorkoutFormData;
   onChange: (field: keyof WorkoutFormData, value: any) => void;
+  onFormatChange: (update: Partial<WorkoutFormData>) => void;
 }
 
-export function WorkoutDetailsEditor({ formData, onChange }: WorkoutDetailsEditorProps) {
+export function WorkoutDetailsEditor({ formData, onChange, onFormatChange }: WorkoutDetailsEditorProps) {
   return (
     <div className="space-y-4">
       <div>
@@ -66,6 +68,8 @@ export function WorkoutDetailsEditor({ formData, onChange }: WorkoutDetailsEdito
         </div>
       </div>
 
+      <WorkoutFormatFields values={formData} onChange={onFormatChange} />
+
       <div className="flex items-center space-x-2">
         <input
           type="checkbox"
@@ -2,21 +2,33 @@ import React from 'react';
     import { Plus, Trash2 } from 'lucide-react';
     import { useExercises } from '../../../hooks/useExercises';
     import type { WorkoutExerciseFormData } from '../../../hooks/useWorkoutEditor';
+    import { DivisionPrescriptionFields } from './DivisionPrescriptionFields';
+    import { IntensityFields } from './IntensityFields';
+    import { BlockFields } from './BlockFields';
+    import { isRelativeIntensity } from '../../../lib/prescriptions';
+    import { groupBlocks, memberLabel, type BlockUpdate } from '../../../lib/blocks';
 
     interface WorkoutExerciseEditorProps {
       exercises: WorkoutExerciseFormData[];
       onChange: (index: number, field: keyof WorkoutExerciseFormData, value: any) => void;
       onAdd: () => void;
       onRemove: (index: number) => void;
+      onBlockChange: (index: number, update: BlockUpdate) => void;
     }
 
     export function WorkoutExerciseEditor({ 
       exercises, 
       onChange, 
       onAdd, 
-      onRemove 
+      onRemove,
+      onBlockChange
     }: WorkoutExerciseEditorProps) {
       const { exercises: availableExercises, loading } = useExercises();
+      const blocks = groupBlocks(exercises);
+      const blockLabel = (index: number) => {
+        const block = blocks.find((candidate) => candidate.indexes.includes(index));
+        return block ? memberLabel(block, block.indexes.indexOf(index)) : null;
+      };
 
       if (loading) return null;
 
@@ -37,7 +49,12 @@ import React from 'react';
           {exercises.map((exercise, index) => (
             <div key={index} className="border rounded-md p-4 space-y-4">
               <div className="flex justify-between items-start">
-                <h4 className="font-medium">Exercise {index + 1}</h4>
+                <h4 className="font-medium">
+                  Exercise {index + 1}
+                  {exercise.block && (
+                    <span className="ml-2 text-sm text-indigo-600 dark:text-indigo-400">{blockLabel(index)}</span>
+                  )}
+                </h4>
                 {index > 0 && (
                   <button
                     type="button"
@@ -66,6 +83,20 @@ import React from 'react';
                   ))}
                 </select>
               </div>
+
+              <IntensityFields
+                values={exercise}
+                exercises={availableExercises}
+                onChange={(field, value) => onChange(index, field, value)}
+              />
+
+              <DivisionPrescriptionFields
+                values={exercise}
+                showWeights={!isRelativeIntensity(exercise)}
+                onChange={(field, value) => onChange(index, field, value)}
+              />
+
+              <BlockFields values={exercise} onChange={(update) => onBlockChange(index, update)} />
             </div>
           ))}
         </div>
@@ -0,0 +1,115 @@
+import React from 'react';
+import { WORKOUT_FORMATS, applyFormatDefaults, type FormatParam, type FormatParams } from '../../../lib/workoutFormats';
+import type { WorkoutFormat } from '../../../types/workout';
+
+export type WorkoutFormatValues = FormatParams & { format: WorkoutFormat };
+
+interface WorkoutFormatFieldsProps {
+  values: WorkoutFormatValues;
+  onChange: (update: Partial<WorkoutFormatValues>) => void;
+}
+
+const inputClassName =
+  'mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-300 focus:ring focus:ring-indigo-200 focus:ring-opacity-50';
+
+const toNullableNumber = (value: string) => (value === '' ? null : Number(value));
+
+export function WorkoutFormatFields({ values, onChange }: WorkoutFormatFieldsProps) {
+  const definition = WORKOUT_FORMATS[values.format];
+  const shows = (param: FormatParam) => definition.params.includes(param);
+
+  const handleFormatChange = (format: WorkoutFormat) => {
+    onChange({ format, ...applyFormatDefaults(format, values) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="format" className="block text-sm font-medium dark:text-gray-300">
+          Format
+        </label>
+        <select
+          id="format"
+          value={values.format}
+          onChange={(e) => handleFormatChange(e.target.value as WorkoutFormat)}
+          className={inputClassName}
+        >
+          {(Object.keys(WORKOUT_FORMATS) as WorkoutFormat[]).map((format) => (
+            <option key={format} value={format}>
+              {WORKOUT_FORMATS[format].label}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-sm text-gray-500">{definition.description}</p>
+      </div>
+
+      {definition.params.length > 0 && (
+        <div className="grid grid-cols-2 gap-4">
+          {shows('time_cap_seconds') && (
+            <div>
+              <label htmlFor="time_cap" className="block text-sm font-medium dark:text-gray-300">
+                Time Cap (minutes)
+              </label>
+              <input
+                type="number"
+                id="time_cap"
+                min={0}
+                value={values.time_cap_seconds != null ? values.time_cap_seconds / 60 : ''}
+                onChange={(e) => {
+                  const minutes = toNullableNumber(e.target.value);
+                  onChange({ time_cap_seconds: minutes != null ? Math.round(minutes * 60) : null });
+                }}
+                className={inputClassName}
+              />
+            </div>
+          )}
+          {shows('rounds') && (
+            <div>
+              <label htmlFor="rounds" className="block text-sm font-medium dark:text-gray-300">
+                Rounds
+              </label>
+              <input
+                type="number"
+                id="rounds"
+                min={1}
+                value={values.rounds ?? ''}
+                onChange={(e) => onChange({ rounds: toNullableNumber(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+          )}
+          {shows('interval_seconds') && (
+            <div>
+              <label htmlFor="interval_seconds" className="block text-sm font-medium dark:text-gray-300">
+                {values.format === 'tabata' ? 'Work Interval (seconds)' : 'Interval (seconds)'}
+              </label>
+              <input
+                type="number"
+                id="interval_seconds"
+                min={1}
+                value={values.interval_seconds ?? ''}
+                onChange={(e) => onChange({ interval_seconds: toNullableNumber(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+          )}
+          {shows('rest_seconds') && (
+            <div>
+              <label htmlFor="rest_seconds" className="block text-sm font-medium dark:text-gray-300">
+                Rest Interval (seconds)
+              </label>
+              <input
+                type="number"
+                id="rest_seconds"
+                min={0}
+                value={values.rest_seconds ?? ''}
+                onChange={(e) => onChange({ rest_seconds: toNullableNumber(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React from 'react';
+import { WORKOUT_FORMATS, getWorkoutFormat, type FormatResult } from '../../../lib/workoutFormats';
+import { formatDuration } from '../../../lib/duration';
+import { DurationInput } from '../../common/DurationInput';
+import type { Workout } from '../../../types/workout';
+
+interface FormatResultInputsProps {
+  workout: Workout;
+  result: FormatResult;
+  onChange: (update: Partial<FormatResult>) => void;
+}
+
+const toNullableNumber = (value: string) => (value === '' ? null : Number(value));
+
+function NumberField({ id, label, value, onChange }: {
+  id: string;
+  label: string;
+  value: number | null;
+  onChange: (value: number | null) => void;
+}) {
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium dark:text-gray-300">{label}</label>
+      <input
+        type="number"
+        id={id}
+        min={0}
+        value={value ?? ''}
+        onChange={(e) => onChange(toNullableNumber(e.target.value))}
+        className="w-full rounded-md border-gray-300"
+      />
+    </div>
+  );
+}
+
+export function FormatResultInputs({ workout, result, onChange }: FormatResultInputsProps) {
+  const format = getWorkoutFormat(workout);
+
+  return (
+    <div className="border rounded-md p-4 space-y-3">
+      <div>
+        <h3 className="font-medium text-lg">{WORKOUT_FORMATS[format].label} Result</h3>
+        {format === 'for_time' && workout.time_cap_seconds && (
+          <p className="text-sm text-gray-500">Time cap: {formatDuration(workout.time_cap_seconds)}</p>
+        )}
+        {format === 'amrap' && workout.time_cap_seconds && (
+          <p className="text-sm text-gray-500">{formatDuration(workout.time_cap_seconds)} AMRAP</p>
+        )}
+      </div>
+
+      {format === 'for_time' && (
+        <>
+          <div>
+            <label htmlFor="result_time" className="block text-sm font-medium dark:text-gray-300">Time</label>
+            <DurationInput
+              id="result_time"
+              value={result.result_time_seconds}
+              onChange={(seconds) => onChange({ result_time_seconds: seconds == null ? null : Math.round(seconds) })}
+            />
+          </div>
+          <NumberField
+            id="result_capped_reps"
+            label="Capped? Reps completed"
+            value={result.result_reps}
+            onChange={(value) => onChange({ result_reps: value })}
+          />
+        </>
+      )}
+
+      {format === 'amrap' && (
+        <div className="grid grid-cols-2 gap-4">
+          <NumberField id="result_rounds" label="Rounds" value={result.result_rounds} onChange={(value) => onChange({ result_rounds: value })} />
+          <NumberField id="result_reps" label="Extra Reps" value={result.result_reps} onChange={(value) => onChange({ result_reps: value })} />
+        </div>
+      )}
+
+      {format === 'emom' && (
+        <NumberField
+          id="result_rounds"
+          label={workout.rounds ? `Rounds Completed (of ${workout.rounds})` : 'Rounds Completed'}
+          value={result.result_rounds}
+          onChange={(value) => onChange({ result_rounds: value })}
+        />
+      )}
+
+      {format === 'tabata' && (
+        <NumberField id="result_reps" label="Total Reps" value={result.result_reps} onChange={(value) => onChange({ result_reps: value })} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import React from 'react';
+import { loadBar, type PlateInventory } from '../../../lib/plates';
+import type { WeightUnit } from '../../../lib/units';
+
+interface PlateLoadingProps {
+  // In the athlete's unit, which the inventory is also in
+  weight: number;
+  bar: number;
+  inventory: PlateInventory;
+  unit: WeightUnit;
+}
+
+export function PlateLoading({ weight, bar, inventory, unit }: PlateLoadingProps) {
+  if (weight < bar) {
+    return <p className="text-xs text-gray-500">Lighter than the {bar} {unit} bar</p>;
+  }
+
+  const { perSide, loaded, remainder } = loadBar(weight, bar, inventory);
+
+  return (
+    <p className="text-xs text-gray-500">
+      {perSide.length === 0 ? 'Empty bar' : `Per side: ${perSide.join(', ')}`}
+      {remainder !== 0 && (
+        <span className="text-amber-600 dark:text-amber-400">
+          {' '}· closest is {loaded} {unit} ({remainder} {unit} short)
+        </span>
+      )}
+    </p>
+  );
+}
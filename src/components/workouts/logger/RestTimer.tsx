@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Minus, Plus, Timer } from 'lucide-react';
+import { formatDuration } from '../../../lib/duration';
+import { alertRestOver } from '../../../lib/timer';
+
+export interface RestPeriod {
+  exerciseIndex: number;
+  setIndex: number;
+  started_at: number;
+  target_seconds: number;
+}
+
+interface RestTimerProps {
+  rest: RestPeriod;
+  label: string;
+  onAdjust: (seconds: number) => void;
+  onDone: () => void;
+}
+
+export function RestTimer({ rest, label, onAdjust, onDone }: RestTimerProps) {
+  const [now, setNow] = useState(Date.now());
+  const alerted = useRef(false);
+
+  const elapsed = Math.floor((now - rest.started_at) / 1000);
+  const remaining = rest.target_seconds - elapsed;
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Adjusting the target can put the countdown back above zero
+  useEffect(() => {
+    if (remaining > 0) {
+      alerted.current = false;
+    } else if (!alerted.current) {
+      alerted.current = true;
+      alertRestOver();
+    }
+  }, [remaining]);
+
+  return (
+    <div className={`sticky bottom-0 -mx-6 -mb-6 px-6 py-3 flex items-center justify-between gap-4 text-white ${
+      remaining > 0 ? 'bg-indigo-600' : 'bg-green-600'
+    }`}>
+      <div className="flex items-center gap-3">
+        <Timer className="h-5 w-5" />
+        <div>
+          <p className="text-xs opacity-80">{remaining > 0 ? `Resting after ${label}` : 'Rest over'}</p>
+          <p className="font-mono text-2xl font-bold tabular-nums">
+            {remaining > 0 ? formatDuration(remaining) : `+${formatDuration(-remaining)}`}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <button onClick={() => onAdjust(-15)} className="p-2 rounded-md bg-white/20 hover:bg-white/30" aria-label="15 seconds less">
+          <Minus className="h-4 w-4" />
+        </button>
+        <button onClick={() => onAdjust(15)} className="p-2 rounded-md bg-white/20 hover:bg-white/30" aria-label="15 seconds more">
+          <Plus className="h-4 w-4" />
+        </button>
+        <button onClick={onDone} className="px-3 py-2 rounded-md bg-white text-indigo-700 font-medium hover:bg-gray-100">
+          {remaining > 0 ? 'Skip' : 'Done'}
+        </button>
+      </div>
+    </div>
+  );
+}
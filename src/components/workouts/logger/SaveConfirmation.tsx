@@ -0,0 +1,69 @@
+import React from 'react';
+import { CheckCircle, CloudOff, Trophy } from 'lucide-react';
+import { useUnits } from '../../../hooks/useUnits';
+import { PERSONAL_RECORD_LABELS, describeRecordValue, type NewPersonalRecord } from '../../../lib/personalRecords';
+import type { WorkoutExercise } from '../../../types/workout';
+
+interface SaveConfirmationProps {
+  queued: boolean;
+  records: NewPersonalRecord[];
+  exercises: WorkoutExercise[];
+  onDone: () => void;
+}
+
+export function SaveConfirmation({ queued, records, exercises, onDone }: SaveConfirmationProps) {
+  const { units } = useUnits();
+  const exerciseName = (exerciseId: string) =>
+    exercises.find((exercise) => exercise.exercise_id === exerciseId)?.exercise.name || 'Exercise';
+
+  return (
+    <div className="space-y-6">
+      {queued ? (
+        <div className="flex items-start gap-3">
+          <CloudOff className="h-6 w-6 text-amber-500 flex-shrink-0" />
+          <p className="dark:text-gray-300">
+            You are offline. Your workout was saved on this device and will sync when you reconnect.
+            Personal records are checked once it syncs.
+          </p>
+        </div>
+      ) : (
+        <div className="flex items-center gap-3">
+          <CheckCircle className="h-6 w-6 text-green-600" />
+          <p className="font-medium dark:text-gray-100">Workout logged successfully!</p>
+        </div>
+      )}
+
+      {records.length > 0 && (
+        <div className="border rounded-md p-4">
+          <h3 className="font-medium text-lg mb-3 flex items-center gap-2">
+            <Trophy className="h-5 w-5 text-yellow-500" />
+            {records.length === 1 ? 'New personal record!' : `${records.length} new personal records!`}
+          </h3>
+          <ul className="space-y-2">
+            {records.map((record) => (
+              <li key={[record.exercise_id, record.record_type, record.reps, record.distance].join('|')}>
+                <p className="font-medium dark:text-gray-100">
+                  {exerciseName(record.exercise_id)}: {describeRecordValue(record, units)}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {PERSONAL_RECORD_LABELS[record.record_type]}
+                  {record.previous_value != null &&
+                    ` · previous best ${describeRecordValue({ ...record, value: record.previous_value }, units)}`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={onDone}
+          className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-md"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import React from 'react';
+import { DurationInput } from '../../common/DurationInput';
+import type { UnitPreferences } from '../../../lib/units';
+import type { LoggedSet, ScoringMetric } from '../../../types/workout';
+
+export type SetField = 'weight' | 'reps' | 'distance' | 'time' | 'calories';
+
+interface SetInputsProps {
+  set: LoggedSet;
+  metric: ScoringMetric;
+  // Weight and distance are entered in these units
+  units: UnitPreferences;
+  onChange: (field: SetField, value: string | number | null) => void;
+}
+
+export function SetInputs({ set, metric, units, onChange }: SetInputsProps) {
+  const timeInput = (
+    <div>
+      <label className="block text-sm font-medium dark:text-gray-300">Time</label>
+      <DurationInput value={set.time} onChange={(seconds) => onChange('time', seconds)} />
+    </div>
+  );
+
+  const distanceInput = (
+    <div>
+      <label className="block text-sm font-medium dark:text-gray-300">Distance ({units.distance_unit})</label>
+      <input
+        type="number"
+        value={set.distance ?? ''}
+        onChange={(e) => onChange('distance', Number(e.target.value))}
+        className="w-full rounded-md border-gray-300"
+        placeholder={`Distance (${units.distance_unit})`}
+      />
+    </div>
+  );
+
+  const caloriesInput = (
+    <div>
+      <label className="block text-sm font-medium dark:text-gray-300">Calories</label>
+      <input
+        type="number"
+        value={set.calories ?? ''}
+        onChange={(e) => onChange('calories', Number(e.target.value))}
+        className="w-full rounded-md border-gray-300"
+        placeholder="Calories"
+      />
+    </div>
+  );
+
+  switch (metric) {
+    case 'distance':
+    case 'time':
+      return (
+        <>
+          {timeInput}
+          {distanceInput}
+        </>
+      );
+    case 'calories':
+      return (
+        <>
+          {timeInput}
+          {caloriesInput}
+        </>
+      );
+    default:
+      return (
+        <>
+          <div>
+            <input
+              type="number"
+              value={set.weight || ''}
+              onChange={(e) => onChange('weight', e.target.value ? Number(e.target.value) : null)}
+              className="w-full rounded-md border-gray-300"
+              placeholder={`Weight (${units.weight_unit})`}
+            />
+          </div>
+          <div>
+            <input
+              type="number"
+              value={set.reps}
+              onChange={(e) => onChange('reps', Number(e.target.value))}
+              className="w-full rounded-md border-gray-300"
+              placeholder="Reps"
+            />
+          </div>
+        </>
+      );
+  }
+}
@@ -1,9 +1,14 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { getRole, isStaffRole, type Role } from '../lib/roles';
 
 interface AuthContextType {
   user: User | null;
+  role: Role | null;
+  // Coaches and admins, who program workouts
+  isStaff: boolean;
+  isAdmin: boolean;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string) => Promise<void>;
@@ -15,6 +20,8 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<Role | null>(null);
+  const [roleLoading, setRoleLoading] = useState(true);
 
   useEffect(() => {
     // Check active sessions and sets the user
@@ -32,6 +39,29 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Loaded outside the auth listener, which must not wait on other Supabase calls
+  const userId = user?.id;
+  useEffect(() => {
+    if (loading) return;
+    if (!userId) {
+      setRole(null);
+      setRoleLoading(false);
+      return;
+    }
+
+    setRoleLoading(true);
+    supabase
+      .from('profiles')
+      .select('role')
+      .eq('id', userId)
+      .single()
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching role:', error);
+        setRole(getRole(data?.role));
+        setRoleLoading(false);
+      });
+  }, [userId, loading]);
+
   const signUp = async (email: string, password: string) => {
     const { error } = await supabase.auth.signUp({
       email,
@@ -55,7 +85,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const value = {
     user,
-    loading,
+    role,
+    isStaff: isStaffRole(role),
+    isAdmin: role === 'admin',
+    loading: loading || roleLoading,
     signIn,
     signUp,
     signOut,
@@ -63,7 +96,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   return (
     <AuthContext.Provider value={value}>
-      {!loading && children}
+      {!loading && !roleLoading && children}
     </AuthContext.Provider>
   );
 }
@@ -0,0 +1,130 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  enqueueWorkoutLog,
+  getPendingWorkoutLogs,
+  removePendingWorkoutLog,
+  updatePendingWorkoutLog,
+  type PendingWorkoutLog,
+} from '../lib/offlineQueue';
+import { isNetworkError, saveWorkoutLog, type WorkoutLogSubmission } from '../lib/workoutLogSync';
+import { SyncContext, type SubmitResult } from '../hooks/useSync';
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [online, setOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [pending, setPending] = useState<PendingWorkoutLog[]>([]);
+  const [syncedLogIds, setSyncedLogIds] = useState<string[]>([]);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const flushing = useRef(false);
+
+  const loadPending = useCallback(async () => {
+    if (!user) {
+      setPending([]);
+      return [];
+    }
+    try {
+      const entries = await getPendingWorkoutLogs(user.id);
+      setPending(entries);
+      return entries;
+    } catch (error) {
+      console.error('Error reading offline queue:', error);
+      return [];
+    }
+  }, [user]);
+
+  const markSynced = (id: string) => {
+    setSyncedLogIds((prev) => (prev.includes(id) ? prev : [...prev, id]));
+    setLastSyncedAt(Date.now());
+  };
+
+  // Replays queued logs oldest first. A network failure stops the run so the
+  // remaining entries keep their order; other failures are recorded on the entry
+  // and retried next time rather than dropping the athlete's data.
+  const flush = useCallback(async () => {
+    if (flushing.current || !navigator.onLine) return;
+    flushing.current = true;
+    setSyncing(true);
+
+    try {
+      const entries = await loadPending();
+      for (const entry of entries) {
+        try {
+          await saveWorkoutLog(entry);
+          await removePendingWorkoutLog(entry.id);
+          markSynced(entry.id);
+        } catch (error) {
+          if (isNetworkError(error)) break;
+          console.error('Error syncing queued workout log:', error);
+          await updatePendingWorkoutLog({
+            ...entry,
+            attempts: entry.attempts + 1,
+            last_error: (error as { message?: string }).message || 'Unknown error',
+          });
+        }
+      }
+    } finally {
+      await loadPending();
+      flushing.current = false;
+      setSyncing(false);
+    }
+  }, [loadPending]);
+
+  useEffect(() => {
+    loadPending().then(() => flush());
+  }, [loadPending, flush]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      flush();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flush]);
+
+  const submitWorkoutLog = async (submission: WorkoutLogSubmission): Promise<SubmitResult> => {
+    if (navigator.onLine) {
+      try {
+        const records = await saveWorkoutLog(submission);
+        // A newer save supersedes anything still queued for the same log
+        if (pending.some((entry) => entry.id === submission.log.id)) {
+          await removePendingWorkoutLog(submission.log.id);
+          await loadPending();
+        }
+        markSynced(submission.log.id);
+        return { status: 'synced', records };
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    await enqueueWorkoutLog(submission);
+    await loadPending();
+    return { status: 'queued', records: [] };
+  };
+
+  const value = {
+    online,
+    syncing,
+    pending,
+    syncedLogIds,
+    lastSyncedAt,
+    submitWorkoutLog,
+    flush,
+  };
+
+  return (
+    <SyncContext.Provider value={value}>
+      {children}
+    </SyncContext.Provider>
+  );
+}
@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { supabase } from '../lib/supabase';
+import { DEFAULT_UNITS, getDistanceUnit, getWeightUnit, type UnitPreferences } from '../lib/units';
+import { UnitsContext } from '../hooks/useUnits';
+
+export function UnitsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [units, setUnits] = useState<UnitPreferences>(DEFAULT_UNITS);
+
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setUnits(DEFAULT_UNITS);
+      return;
+    }
+
+    supabase
+      .from('profiles')
+      .select('weight_unit, distance_unit')
+      .eq('id', userId)
+      .single()
+      .then(({ data, error }) => {
+        if (error) console.error('Error fetching unit preferences:', error);
+        setUnits({
+          weight_unit: getWeightUnit(data?.weight_unit),
+          distance_unit: getDistanceUnit(data?.distance_unit),
+        });
+      });
+  }, [userId]);
+
+  const updateUnits = async (update: Partial<UnitPreferences>) => {
+    if (!userId) return;
+
+    const previous = units;
+    setUnits((prev) => ({ ...prev, ...update }));
+
+    const { error } = await supabase
+      .from('profiles')
+      .update(update)
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Error saving unit preferences:', error);
+      setUnits(previous);
+      throw error;
+    }
+  };
+
+  return (
+    <UnitsContext.Provider value={{ units, updateUnits }}>
+      {children}
+    </UnitsContext.Provider>
+  );
+}
@@ -1,53 +1,56 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { fetchLiftHistory, trainingMax, type LiftHistory, type TestedMax } from '../lib/exerciseHistory';
+import { bestOneRepMax, type OneRepMaxEstimate, type OneRepMaxFormula } from '../lib/oneRepMax';
 
 interface ExerciseHistory {
-  maxWeight: number;
-  percentages: {
-    percentage: number;
-    weight: number;
-  }[];
+  estimated: OneRepMaxEstimate | null;
+  tested: TestedMax | null;
+  // The number percentages are worked from: a tested max when recorded, else the estimate
+  oneRepMax: number;
 }
 
-export function useExerciseHistory(exerciseId: string) {
+export function useExerciseHistory(exerciseId: string, formula: OneRepMaxFormula) {
   const { user } = useAuth();
-  const [history, setHistory] = useState<ExerciseHistory | null>(null);
+  const [lifts, setLifts] = useState<LiftHistory | undefined>();
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    async function fetchHistory() {
-      if (!user || !exerciseId) return;
-
-      try {
-        const { data, error } = await supabase
-          .from('exercise_scores')
-          .select('weight')
-          .eq('user_id', user.id)
-          .eq('exercise_id', exerciseId)
-          .order('weight', { ascending: false })
-          .limit(1);
-
-        if (error) throw error;
-
-        if (data && data.length > 0) {
-          const maxWeight = data[0].weight;
-          const percentages = [100, 90, 80, 70, 60, 50].map(percentage => ({
-            percentage,
-            weight: Math.round((maxWeight * percentage) / 100 * 2) / 2 // Rounds to nearest 0.5
-          }));
-
-          setHistory({ maxWeight, percentages });
-        }
-      } catch (error) {
-        console.error('Error fetching exercise history:', error);
-      } finally {
-        setLoading(false);
-      }
+  const fetchHistory = useCallback(async () => {
+    if (!user || !exerciseId) return;
+
+    try {
+      const history = await fetchLiftHistory(user.id, [exerciseId]);
+      setLifts(history[exerciseId]);
+    } catch (error) {
+      console.error('Error fetching exercise history:', error);
+    } finally {
+      setLoading(false);
     }
+  }, [user, exerciseId]);
 
+  useEffect(() => {
     fetchHistory();
-  }, [user, exerciseId]);
+  }, [fetchHistory]);
+
+  const recordTestedMax = async (weight: number) => {
+    if (!user || !exerciseId || weight <= 0) return;
+
+    const { error } = await supabase
+      .from('one_rep_maxes')
+      .insert({ user_id: user.id, exercise_id: exerciseId, weight });
+
+    if (error) {
+      console.error('Error recording tested 1RM:', error);
+      throw error;
+    }
+    await fetchHistory();
+  };
+
+  const oneRepMax = trainingMax(lifts, formula);
+  const history: ExerciseHistory | null = lifts && oneRepMax > 0
+    ? { estimated: bestOneRepMax(lifts.sets, formula), tested: lifts.tested, oneRepMax }
+    : null;
 
-  return { history, loading };
+  return { history, loading, recordTestedMax };
 }
@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { fetchPages } from '../lib/dataExport';
+import type { ProgressSession, ProgressSet } from '../lib/progress';
+
+interface ProgressScore extends ProgressSet {
+  id: string;
+  workout_log_id: string;
+  workout_logs: { completed_at: string } | { completed_at: string }[];
+}
+
+export function useExerciseProgress(exerciseId: string | null) {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<ProgressSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchProgress() {
+      if (!user || !exerciseId) return;
+
+      setLoading(true);
+      try {
+        const scores = await fetchPages<ProgressScore>((from, to) => supabase
+          .from('exercise_scores')
+          .select(`
+            id,
+            workout_log_id,
+            weight,
+            reps,
+            distance,
+            calories,
+            workout_logs!inner (
+              completed_at
+            )
+          `)
+          .eq('user_id', user.id)
+          .eq('exercise_id', exerciseId)
+          .order('workout_logs(completed_at)')
+          .order('id')
+          .range(from, to));
+
+        // One session per workout log, dated by when the log was completed
+        const byLog = new Map<string, ProgressSession>();
+        scores.forEach(({ workout_log_id, workout_logs, ...set }) => {
+          // Typed as an array by the untyped client, returned as an object for this many-to-one join
+          const log = Array.isArray(workout_logs) ? workout_logs[0] : workout_logs;
+          const session: ProgressSession = byLog.get(workout_log_id) || {
+            completed_at: log.completed_at,
+            sets: [],
+          };
+          session.sets.push(set);
+          byLog.set(workout_log_id, session);
+        });
+
+        setSessions(Array.from(byLog.values()));
+      } catch (error) {
+        console.error('Error fetching exercise progress:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchProgress();
+  }, [user, exerciseId]);
+
+  return { sessions, loading };
+}
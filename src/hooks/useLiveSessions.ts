@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useRealtime } from './useRealtime';
+import type { Workout, WorkoutLog } from '../types/workout';
+
+export type LiveSession = Omit<WorkoutLog, 'workout'> & {
+  workout: Workout;
+  exercise_scores: { count: number }[];
+};
+
+// The signed-in athlete's unfinished sessions, newest first.
+export function useLiveSessions() {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<LiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSessions = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('workout_logs')
+        .select(`
+          *,
+          workout:workouts (
+            *,
+            workout_exercises (
+              *,
+              exercise:exercises (*)
+            )
+          ),
+          exercise_scores (count)
+        `)
+        .eq('user_id', user.id)
+        .eq('in_progress', true)
+        .order('completed_at', { ascending: false });
+
+      if (error) throw error;
+      setSessions((data || [])
+        .map((session) => ({
+          ...session,
+          // Typed as an array by the untyped client, returned as an object for this many-to-one join
+          workout: Array.isArray(session.workout) ? session.workout[0] : session.workout,
+        }))
+        .filter((session) => session.workout));
+    } catch (error) {
+      console.error('Error fetching live sessions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  useRealtime(['workout_logs'], (change) => {
+    const row = change.eventType === 'DELETE' ? change.old : change.new;
+    if (!row.user_id || row.user_id === user?.id) fetchSessions();
+  });
+
+  return { sessions, loading, refresh: fetchSessions };
+}
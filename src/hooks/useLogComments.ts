@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { sendNotifications } from '../lib/notifications';
+import { publishChange } from '../lib/realtime';
+import { useRealtime } from './useRealtime';
+import type { WorkoutLogComment } from '../types/workout';
+
+// `athleteId` owns the log and is notified of new comments.
+export function useLogComments(logId: string, athleteId: string) {
+  const { user } = useAuth();
+  const [comments, setComments] = useState<WorkoutLogComment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchComments = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('workout_log_comments')
+        .select(`
+          *,
+          profiles (
+            profile_name
+          )
+        `)
+        .eq('workout_log_id', logId)
+        .order('created_at');
+
+      if (error) throw error;
+      setComments(data || []);
+    } catch (error) {
+      console.error('Error fetching comments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [logId]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  useRealtime(['workout_log_comments'], (change) => {
+    const row = change.eventType === 'DELETE' ? change.old : change.new;
+    if (row.workout_log_id === logId) fetchComments();
+  });
+
+  const addComment = async (content: string) => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('workout_log_comments')
+      .insert({ workout_log_id: logId, profile_id: user.id, content })
+      .select(`
+        *,
+        profiles (
+          profile_name
+        )
+      `)
+      .single();
+
+    if (error) {
+      console.error('Error adding comment:', error);
+      throw error;
+    }
+    setComments((prev) => [...prev.filter((comment) => comment.id !== data.id), data]);
+    publishChange('workout_log_comments', 'INSERT', data);
+
+    await sendNotifications(user.id, [{ user_id: athleteId, type: 'comment', workout_log_id: logId }]);
+  };
+
+  const deleteComment = async (commentId: string) => {
+    const { error } = await supabase
+      .from('workout_log_comments')
+      .delete()
+      .eq('id', commentId);
+
+    if (error) {
+      console.error('Error deleting comment:', error);
+      throw error;
+    }
+    setComments((prev) => prev.filter((comment) => comment.id !== commentId));
+    publishChange('workout_log_comments', 'DELETE', { id: commentId, workout_log_id: logId });
+  };
+
+  return { comments, loading, addComment, deleteComment };
+}
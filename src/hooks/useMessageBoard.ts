@@ -0,0 +1,274 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { sortMessages, threadMessages, toggleReaction } from '../lib/messages';
+import { resolveMentions, type MentionableProfile } from '../lib/mentions';
+import { sendNotifications } from '../lib/notifications';
+import { publishChange } from '../lib/realtime';
+import { useRealtime } from './useRealtime';
+import type { Message, MessageEdit, Reaction } from '../types/message';
+
+const MESSAGE_SELECT = `
+  *,
+  profiles (
+    profile_name
+  ),
+  message_reactions (
+    user_id,
+    reaction
+  ),
+  workout_log:workout_logs (
+    id,
+    user_id,
+    completed_at,
+    total,
+    division,
+    result_time_seconds,
+    result_rounds,
+    result_reps,
+    title,
+    workout:workouts (
+      name,
+      format,
+      workout_exercises (exercise:exercises (scoring_metric))
+    )
+  )
+`;
+
+export interface PostOptions {
+  parentId?: string | null;
+  workoutLogId?: string | null;
+}
+
+export function useMessageBoard() {
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [profiles, setProfiles] = useState<MentionableProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchMessages() {
+      setLoading(true);
+      try {
+        const [messagesResult, profilesResult] = await Promise.all([
+          supabase
+            .from('messages')
+            .select(MESSAGE_SELECT)
+            .order('created_at', { ascending: false }),
+          // Everyone who can be @mentioned
+          supabase
+            .from('profiles')
+            .select('id, profile_name')
+            .not('profile_name', 'is', null)
+            .order('profile_name'),
+        ]);
+
+        if (messagesResult.error) throw messagesResult.error;
+        if (profilesResult.error) throw profilesResult.error;
+        setMessages(sortMessages(messagesResult.data || []));
+        setProfiles(profilesResult.data || []);
+      } catch (error) {
+        console.error('Error fetching messages:', error);
+        setError('Failed to load messages. Please try again later.');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchMessages();
+  }, []);
+
+  const replaceMessage = (message: Message) => {
+    setMessages((prev) => sortMessages(prev.map((entry) => (entry.id === message.id ? message : entry))));
+  };
+
+  const threads = useMemo(() => threadMessages(messages), [messages]);
+
+  // Deleting a post also deletes its replies
+  const removeMessage = (messageId: string) => {
+    setMessages((prev) => prev.filter((message) => message.id !== messageId && message.parent_id !== messageId));
+  };
+
+  // Re-reads one message after someone else changed it. It comes back empty
+  // when it was deleted or hidden from this user in the meantime.
+  const refreshMessage = async (messageId: string) => {
+    const { data, error } = await supabase
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .eq('id', messageId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error refreshing message:', error);
+      return;
+    }
+    if (!data) {
+      removeMessage(messageId);
+      return;
+    }
+    setMessages((prev) => sortMessages(
+      prev.some((message) => message.id === messageId)
+        ? prev.map((message) => (message.id === messageId ? data : message))
+        : [data, ...prev]
+    ));
+  };
+
+  useRealtime(['messages', 'message_reactions'], (change) => {
+    if (change.table === 'messages') {
+      if (change.eventType === 'DELETE') removeMessage(change.old.id as string);
+      else refreshMessage(change.new.id as string);
+      return;
+    }
+    const reaction = change.eventType === 'DELETE' ? change.old : change.new;
+    if (reaction.message_id) refreshMessage(reaction.message_id as string);
+  });
+
+  const postMessage = async (content: string, { parentId = null, workoutLogId = null }: PostOptions = {}) => {
+    if (!user) return;
+
+    const { data, error } = await supabase
+      .from('messages')
+      .insert([
+        {
+          content,
+          profile_id: user.id,
+          parent_id: parentId,
+          workout_log_id: workoutLogId,
+        },
+      ])
+      .select(MESSAGE_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error posting message:', error);
+      setError('Failed to post message. Please try again later.');
+      throw error;
+    }
+    setMessages((prev) => sortMessages([data, ...prev.filter((message) => message.id !== data.id)]));
+    publishChange('messages', 'INSERT', data);
+
+    const parent = parentId ? messages.find((message) => message.id === parentId) : null;
+    await sendNotifications(user.id, [
+      ...resolveMentions(content, profiles).map((userId) => ({
+        user_id: userId,
+        type: 'mention' as const,
+        message_id: data.id,
+      })),
+      ...(parent ? [{ user_id: parent.profile_id, type: 'reply' as const, message_id: data.id }] : []),
+    ]);
+  };
+
+  const updateMessage = async (messageId: string, changes: Partial<Message>) => {
+    const { data, error } = await supabase
+      .from('messages')
+      .update(changes)
+      .eq('id', messageId)
+      .select(MESSAGE_SELECT)
+      .single();
+
+    if (error) {
+      console.error('Error updating message:', error);
+      setError('Failed to update message. Please try again later.');
+      throw error;
+    }
+    replaceMessage(data);
+    publishChange('messages', 'UPDATE', data);
+  };
+
+  // The database keeps the previous content in the edit history. Only people
+  // newly mentioned by the edit are notified.
+  const editMessage = async (messageId: string, content: string) => {
+    const previous = messages.find((message) => message.id === messageId);
+    await updateMessage(messageId, { content });
+
+    if (!user) return;
+    const alreadyMentioned = resolveMentions(previous?.content || '', profiles);
+    await sendNotifications(user.id, resolveMentions(content, profiles)
+      .filter((userId) => !alreadyMentioned.includes(userId))
+      .map((userId) => ({ user_id: userId, type: 'mention' as const, message_id: messageId })));
+  };
+
+  const setHidden = (messageId: string, isHidden: boolean) => updateMessage(messageId, { is_hidden: isHidden });
+
+  const setPinned = (messageId: string, isPinned: boolean) => updateMessage(messageId, { is_pinned: isPinned });
+
+  const deleteMessage = async (messageId: string) => {
+    const { error } = await supabase
+      .from('messages')
+      .delete()
+      .eq('id', messageId);
+
+    if (error) {
+      console.error('Error deleting message:', error);
+      setError('Failed to delete message. Please try again later.');
+      throw error;
+    }
+    removeMessage(messageId);
+    publishChange('messages', 'DELETE', { id: messageId });
+  };
+
+  // Applied optimistically so the count moves on click, then rolled back if the write fails
+  const react = async (messageId: string, reaction: Reaction) => {
+    if (!user) return;
+    const message = messages.find((entry) => entry.id === messageId);
+    if (!message) return;
+
+    const current = message.message_reactions.find((entry) => entry.user_id === user.id);
+    replaceMessage({
+      ...message,
+      message_reactions: toggleReaction(message.message_reactions, user.id, reaction),
+    });
+
+    const { error } = current?.reaction === reaction
+      ? await supabase
+        .from('message_reactions')
+        .delete()
+        .eq('message_id', messageId)
+        .eq('user_id', user.id)
+      : await supabase
+        .from('message_reactions')
+        .upsert({ message_id: messageId, user_id: user.id, reaction }, { onConflict: 'message_id,user_id' });
+
+    if (error) {
+      console.error('Error saving reaction:', error);
+      replaceMessage(message);
+      setError('Failed to save reaction. Please try again later.');
+      return;
+    }
+    publishChange('message_reactions', current?.reaction === reaction ? 'DELETE' : 'INSERT', {
+      message_id: messageId,
+      user_id: user.id,
+      reaction,
+    });
+  };
+
+  const fetchEditHistory = useCallback(async (messageId: string): Promise<MessageEdit[]> => {
+    const { data, error } = await supabase
+      .from('message_edits')
+      .select('*')
+      .eq('message_id', messageId)
+      .order('edited_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching edit history:', error);
+      throw error;
+    }
+    return data || [];
+  }, []);
+
+  return {
+    messages,
+    threads,
+    profiles,
+    loading,
+    error,
+    postMessage,
+    editMessage,
+    deleteMessage,
+    setHidden,
+    setPinned,
+    react,
+    fetchEditHistory,
+  };
+}
@@ -0,0 +1,62 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import type { Notification } from '../types/message';
+
+export function useNotifications(limit = 20) {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchNotifications = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select(`
+          *,
+          actor:profiles!notifications_actor_id_fkey (
+            profile_name
+          )
+        `)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      setNotifications(data || []);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, limit]);
+
+  useEffect(() => {
+    fetchNotifications();
+  }, [fetchNotifications]);
+
+  const markAllRead = async () => {
+    if (!user) return;
+    const readAt = new Date().toISOString();
+    const unreadIds = notifications.filter((notification) => !notification.read_at).map((notification) => notification.id);
+    if (unreadIds.length === 0) return;
+
+    setNotifications((prev) => prev.map((notification) => ({ ...notification, read_at: notification.read_at || readAt })));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .in('id', unreadIds);
+
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      await fetchNotifications();
+    }
+  };
+
+  const unreadCount = notifications.filter((notification) => !notification.read_at).length;
+
+  return { notifications, unreadCount, loading, markAllRead, refresh: fetchNotifications };
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { PLATE_INVENTORY_KEY, parsePlateInventory, type GymPlateInventory } from '../lib/plates';
+
+export function usePlateInventory() {
+  const [inventory, setInventory] = useState<GymPlateInventory>(() => parsePlateInventory(null));
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchInventory() {
+      try {
+        const { data, error } = await supabase
+          .from('app_settings')
+          .select('value')
+          .eq('key', PLATE_INVENTORY_KEY)
+          .maybeSingle();
+
+        if (error) throw error;
+        setInventory(parsePlateInventory(data?.value));
+      } catch (error) {
+        console.error('Error fetching plate inventory:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchInventory();
+  }, []);
+
+  const saveInventory = async (update: GymPlateInventory) => {
+    const { error } = await supabase
+      .from('app_settings')
+      .upsert({ key: PLATE_INVENTORY_KEY, value: JSON.stringify(update) }, { onConflict: 'key' });
+
+    if (error) {
+      console.error('Error saving plate inventory:', error);
+      throw error;
+    }
+    setInventory(update);
+  };
+
+  return { inventory, loading, saveInventory };
+}
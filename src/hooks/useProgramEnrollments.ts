@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { programCompletion, type ProgramCompletion } from '../lib/programs';
+import type { ProgramEnrollment, Workout } from '../types/workout';
+
+export interface EnrolledWorkout extends Workout {
+  completed: boolean;
+}
+
+export interface EnrollmentProgress extends ProgramEnrollment {
+  workouts: EnrolledWorkout[];
+  completion: ProgramCompletion;
+}
+
+export function useProgramEnrollments(userId: string | undefined) {
+  const [enrollments, setEnrollments] = useState<EnrollmentProgress[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchEnrollments = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('program_enrollments')
+        .select(`
+          *,
+          program:programs (*),
+          workouts (
+            *,
+            workout_logs (
+              id,
+              user_id,
+              in_progress
+            )
+          )
+        `)
+        .eq('user_id', userId)
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+
+      setEnrollments((data || []).map(({ workouts, ...enrollment }) => {
+        // A scheduled workout counts as done once the member has logged it
+        const scheduled: EnrolledWorkout[] = (workouts || [])
+          .map(({ workout_logs, ...workout }: Workout & { workout_logs: { user_id: string; in_progress: boolean }[] }) => ({
+            ...workout,
+            completed: (workout_logs || []).some((log) => log.user_id === userId && !log.in_progress),
+          }))
+          .sort((a: EnrolledWorkout, b: EnrolledWorkout) =>
+            (a.scheduled_date || '').localeCompare(b.scheduled_date || '')
+          );
+
+        return {
+          ...enrollment,
+          // Typed as an array by the untyped client, returned as an object for this many-to-one join
+          program: Array.isArray(enrollment.program) ? enrollment.program[0] : enrollment.program,
+          workouts: scheduled,
+          completion: programCompletion(scheduled.map((workout) => workout.completed)),
+        };
+      }));
+    } catch (error) {
+      console.error('Error fetching program enrollments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchEnrollments();
+  }, [fetchEnrollments]);
+
+  const leaveProgram = async (enrollmentId: string) => {
+    const { error } = await supabase
+      .from('program_enrollments')
+      .delete()
+      .eq('id', enrollmentId);
+
+    if (error) {
+      console.error('Error leaving program:', error);
+      throw error;
+    }
+    await fetchEnrollments();
+  };
+
+  return { enrollments, loading, leaveProgram, refresh: fetchEnrollments };
+}
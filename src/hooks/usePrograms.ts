@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { insertWorkoutCopies } from '../lib/workoutCopies';
+import { programDate, sortProgramWorkouts } from '../lib/programs';
+import type { Program, Workout } from '../types/workout';
+
+export interface ProgramFormData {
+  name: string;
+  description: string;
+  weeks: number;
+}
+
+export interface ProgramSlot {
+  workout_id: string;
+  week: number;
+  day: number;
+}
+
+export function usePrograms() {
+  const { user } = useAuth();
+  const [programs, setPrograms] = useState<Program[]>([]);
+  const [templates, setTemplates] = useState<Workout[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPrograms = useCallback(async () => {
+    try {
+      const [programsResult, templatesResult] = await Promise.all([
+        supabase
+          .from('programs')
+          .select(`
+            *,
+            program_workouts (
+              *,
+              workout:workouts (*)
+            )
+          `)
+          .order('created_at', { ascending: false }),
+        // Any workout from the box's library can be placed in a program
+        supabase
+          .from('workouts')
+          .select('*')
+          .is('program_enrollment_id', null)
+          .order('name'),
+      ]);
+
+      if (programsResult.error) throw programsResult.error;
+      if (templatesResult.error) throw templatesResult.error;
+
+      setPrograms((programsResult.data || []).map((program) => ({
+        ...program,
+        program_workouts: sortProgramWorkouts(program.program_workouts || []),
+      })));
+      setTemplates(templatesResult.data || []);
+    } catch (error) {
+      console.error('Error fetching programs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPrograms();
+  }, [fetchPrograms]);
+
+  const createProgram = async (formData: ProgramFormData) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('programs')
+      .insert({
+        name: formData.name,
+        description: formData.description || null,
+        weeks: formData.weeks,
+        created_by: user.id,
+      });
+
+    if (error) {
+      console.error('Error creating program:', error);
+      throw error;
+    }
+    await fetchPrograms();
+  };
+
+  const deleteProgram = async (programId: string) => {
+    const { error } = await supabase
+      .from('programs')
+      .delete()
+      .eq('id', programId);
+
+    if (error) {
+      console.error('Error deleting program:', error);
+      throw error;
+    }
+    await fetchPrograms();
+  };
+
+  const addProgramWorkout = async (program: Program, slot: ProgramSlot) => {
+    // New workouts go after anything already planned for the same day
+    const sameDay = (program.program_workouts || []).filter(
+      (entry) => entry.week === slot.week && entry.day === slot.day
+    );
+
+    const { error } = await supabase
+      .from('program_workouts')
+      .insert({
+        ...slot,
+        program_id: program.id,
+        order_index: sameDay.length,
+      });
+
+    if (error) {
+      console.error('Error adding workout to program:', error);
+      throw error;
+    }
+    await fetchPrograms();
+  };
+
+  const removeProgramWorkout = async (programWorkoutId: string) => {
+    const { error } = await supabase
+      .from('program_workouts')
+      .delete()
+      .eq('id', programWorkoutId);
+
+    if (error) {
+      console.error('Error removing workout from program:', error);
+      throw error;
+    }
+    await fetchPrograms();
+  };
+
+  // Enrolls the current user and schedules a copy of every program workout
+  // for them, dated from the chosen start date. The copies carry the
+  // enrollment id so they stay out of the box's shared programming.
+  const startProgram = async (program: Program, startDate: string) => {
+    if (!user) return;
+
+    const enrollmentId = uuidv4();
+    const { error: enrollmentError } = await supabase
+      .from('program_enrollments')
+      .insert({
+        id: enrollmentId,
+        program_id: program.id,
+        user_id: user.id,
+        start_date: startDate,
+      });
+
+    if (enrollmentError) {
+      console.error('Error starting program:', enrollmentError);
+      throw enrollmentError;
+    }
+
+    try {
+      const programWorkouts = program.program_workouts || [];
+      const workoutIds = Array.from(new Set(programWorkouts.map((entry) => entry.workout_id)));
+      if (workoutIds.length === 0) return;
+
+      const { data, error } = await supabase
+        .from('workouts')
+        .select(`
+          *,
+          workout_exercises (*)
+        `)
+        .in('id', workoutIds);
+
+      if (error) throw error;
+
+      const templates = new Map<string, Workout>((data || []).map((workout) => [workout.id, workout]));
+      await insertWorkoutCopies(programWorkouts.flatMap((entry) => {
+        const workout = templates.get(entry.workout_id);
+        if (!workout) return [];
+        return [{
+          workout,
+          changes: {
+            created_by: user.id,
+            scheduled_date: programDate(startDate, entry.week, entry.day),
+            is_wod: false,
+            program_enrollment_id: enrollmentId,
+          },
+        }];
+      }));
+    } catch (error) {
+      console.error('Error scheduling program workouts:', error);
+      // Removing the enrollment also removes any copies that were created
+      await supabase.from('program_enrollments').delete().eq('id', enrollmentId);
+      throw error;
+    }
+  };
+
+  return {
+    programs,
+    templates,
+    loading,
+    createProgram,
+    deleteProgram,
+    addProgramWorkout,
+    removeProgramWorkout,
+    startProgram,
+    refresh: fetchPrograms,
+  };
+}
@@ -0,0 +1,14 @@
+import { useEffect, useRef } from 'react';
+import { subscribeToTables, type RealtimeChange } from '../lib/realtime';
+
+// Subscribes for the lifetime of the component. The latest `onChange` is always
+// called, so callers don't need to memoize it.
+export function useRealtime(tables: string[], onChange: (change: RealtimeChange) => void) {
+  const handler = useRef(onChange);
+  handler.current = onChange;
+  const key = tables.join(',');
+
+  useEffect(() => {
+    return subscribeToTables(key.split(','), (change) => handler.current(change));
+  }, [key]);
+}
@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import type { AttachedWorkoutLog } from '../types/message';
+
+export function useRecentWorkoutLogs(limit = 20) {
+  const { user } = useAuth();
+  const [logs, setLogs] = useState<AttachedWorkoutLog[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchLogs() {
+      if (!user) return;
+
+      try {
+        const { data, error } = await supabase
+          .from('workout_logs')
+          .select(`
+            id,
+            user_id,
+            completed_at,
+            total,
+            division,
+            result_time_seconds,
+            result_rounds,
+            result_reps,
+            title,
+            workout:workouts (
+              name,
+              format
+            )
+          `)
+          .eq('user_id', user.id)
+          .eq('in_progress', false)
+          .order('completed_at', { ascending: false })
+          .limit(limit);
+
+        if (error) throw error;
+        setLogs((data || []).map((log) => ({
+          ...log,
+          // Typed as an array by the untyped client, returned as an object for this many-to-one join
+          workout: Array.isArray(log.workout) ? log.workout[0] : log.workout,
+        })));
+      } catch (error) {
+        console.error('Error fetching workout logs:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchLogs();
+  }, [user, limit]);
+
+  return { logs, loading };
+}
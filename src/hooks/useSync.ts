@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+import type { PendingWorkoutLog } from '../lib/offlineQueue';
+import type { WorkoutLogSubmission } from '../lib/workoutLogSync';
+import type { NewPersonalRecord } from '../lib/personalRecords';
+
+export interface SubmitResult {
+  status: 'synced' | 'queued';
+  // Records are only known once the log reaches the server
+  records: NewPersonalRecord[];
+}
+
+interface SyncContextType {
+  online: boolean;
+  syncing: boolean;
+  pending: PendingWorkoutLog[];
+  syncedLogIds: string[];
+  lastSyncedAt: number | null;
+  submitWorkoutLog: (submission: WorkoutLogSubmission) => Promise<SubmitResult>;
+  flush: () => Promise<void>;
+}
+
+export const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+}
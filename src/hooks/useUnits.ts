@@ -0,0 +1,17 @@
+import { createContext, useContext } from 'react';
+import type { UnitPreferences } from '../lib/units';
+
+interface UnitsContextType {
+  units: UnitPreferences;
+  updateUnits: (update: Partial<UnitPreferences>) => Promise<void>;
+}
+
+export const UnitsContext = createContext<UnitsContextType | undefined>(undefined);
+
+export function useUnits() {
+  const context = useContext(UnitsContext);
+  if (context === undefined) {
+    throw new Error('useUnits must be used within a UnitsProvider');
+  }
+  return context;
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { DEFAULT_ONE_RM_FORMULA, DEFAULT_PERCENTAGE_TABLE, type OneRepMaxFormula } from '../lib/oneRepMax';
+
+export interface UserPreferences {
+  one_rm_formula: OneRepMaxFormula;
+  percentage_table: number[];
+}
+
+const DEFAULT_PREFERENCES: UserPreferences = {
+  one_rm_formula: DEFAULT_ONE_RM_FORMULA,
+  percentage_table: DEFAULT_PERCENTAGE_TABLE,
+};
+
+export function useUserPreferences() {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchPreferences() {
+      if (!user) return;
+
+      try {
+        const { data, error } = await supabase
+          .from('user_preferences')
+          .select('one_rm_formula, percentage_table')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) throw error;
+        if (data) {
+          setPreferences({
+            one_rm_formula: data.one_rm_formula || DEFAULT_PREFERENCES.one_rm_formula,
+            percentage_table: data.percentage_table?.length ? data.percentage_table : DEFAULT_PREFERENCES.percentage_table,
+          });
+        }
+      } catch (error) {
+        console.error('Error fetching user preferences:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchPreferences();
+  }, [user]);
+
+  const updatePreferences = async (update: Partial<UserPreferences>) => {
+    if (!user) return;
+
+    const previous = preferences;
+    setPreferences((prev) => ({ ...prev, ...update }));
+
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert({ user_id: user.id, ...update }, { onConflict: 'user_id' });
+
+    if (error) {
+      console.error('Error saving user preferences:', error);
+      setPreferences(previous);
+    }
+  };
+
+  return { preferences, loading, updatePreferences };
+}
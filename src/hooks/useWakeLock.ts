@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+
+// Keeps the screen awake while `active`. The browser drops the lock whenever the
+// page is hidden, so it is requested again when the athlete comes back.
+export function useWakeLock(active: boolean) {
+  useEffect(() => {
+    if (!active || !('wakeLock' in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+
+    const request = async () => {
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (released) {
+          lock.release();
+        } else {
+          sentinel = lock;
+        }
+      } catch (error) {
+        console.error('Error keeping the screen awake:', error);
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') request();
+    };
+
+    request();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      released = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      sentinel?.release();
+    };
+  }, [active]);
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { insertWorkoutCopies } from '../lib/workoutCopies';
+import { useAuth } from '../contexts/AuthContext';
+import type { Workout } from '../types/workout';
+
+export function useWorkoutCalendar(startDate: string, endDate: string) {
+  const { user } = useAuth();
+  const [workouts, setWorkouts] = useState<Workout[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchWorkouts = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('workouts')
+        .select(`
+          *,
+          workout_exercises (
+            *,
+            exercise:exercises (*)
+          )
+        `)
+        .gte('scheduled_date', startDate)
+        .lte('scheduled_date', endDate)
+        // Copies scheduled for members by their programs aren't part of the box's programming
+        .is('program_enrollment_id', null)
+        .order('scheduled_date');
+
+      if (error) throw error;
+      setWorkouts(data || []);
+    } catch (error) {
+      console.error('Error fetching calendar workouts:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [startDate, endDate]);
+
+  useEffect(() => {
+    fetchWorkouts();
+  }, [fetchWorkouts]);
+
+  // Moves optimistically so the card lands where it was dropped, rolling back on failure.
+  const moveWorkout = async (workoutId: string, scheduledDate: string) => {
+    const previous = workouts;
+    setWorkouts((prev) => prev.map((workout) =>
+      workout.id === workoutId ? { ...workout, scheduled_date: scheduledDate } : workout
+    ));
+
+    const { error } = await supabase
+      .from('workouts')
+      .update({ scheduled_date: scheduledDate, updated_at: new Date().toISOString() })
+      .eq('id', workoutId);
+
+    if (error) {
+      console.error('Error moving workout:', error);
+      setWorkouts(previous);
+      throw error;
+    }
+  };
+
+  // Copies every workout scheduled on one day, exercises included, onto another day.
+  const duplicateDay = async (fromDate: string, toDate: string) => {
+    if (!user) return;
+
+    const sourceWorkouts = workouts.filter((workout) => workout.scheduled_date?.slice(0, 10) === fromDate);
+    if (sourceWorkouts.length === 0) return;
+
+    try {
+      await insertWorkoutCopies(sourceWorkouts.map((workout) => ({
+        workout,
+        changes: { created_by: user.id, scheduled_date: toDate },
+      })));
+    } catch (error) {
+      console.error('Error duplicating workouts:', error);
+      throw error;
+    }
+
+    await fetchWorkouts();
+  };
+
+  return { workouts, loading, moveWorkout, duplicateDay, refresh: fetchWorkouts };
+}
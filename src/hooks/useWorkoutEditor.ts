@@ -1,7 +1,10 @@
 import { useState } from "react";
     import { supabase } from "../lib/supabase";
     import { v4 as uuidv4 } from "uuid"; // Add this import for UUID generation
-    import type { Workout } from "../types/workout";
+    import { getWorkoutFormat } from "../lib/workoutFormats";
+    import { DEFAULT_INTENSITY_TYPE, getIntensityType } from "../lib/prescriptions";
+    import { applyBlockChange, type BlockUpdate } from "../lib/blocks";
+    import type { IntensityType, Workout, WorkoutFormat } from "../types/workout";
 
     export interface WorkoutExerciseFormData {
       id?: string;
@@ -9,6 +12,17 @@ import { useState } from "react";
       sets: number;
       reps: number;
       weight: number;
+      scaled_weight: number | null;
+      scaled_notes: string | null;
+      foundations_weight: number | null;
+      foundations_notes: string | null;
+      intensity_type: IntensityType;
+      percentage: number | null;
+      percentage_of_exercise_id: string | null;
+      rpe: number | null;
+      rest_seconds: number | null;
+      block: string | null;
+      block_rounds: number | null;
     }
 
     export interface WorkoutFormData {
@@ -17,6 +31,11 @@ import { useState } from "react";
       type: string;
       is_wod: boolean;
       scheduled_date: string;
+      format: WorkoutFormat;
+      time_cap_seconds: number | null;
+      rounds: number | null;
+      interval_seconds: number | null;
+      rest_seconds: number | null;
       exercises: WorkoutExerciseFormData[];
       deletedExerciseIds: string[]; // Track deleted exercise IDs
     }
@@ -30,12 +49,28 @@ import { useState } from "react";
         type: workout.type,
         is_wod: workout.is_wod,
         scheduled_date: workout.scheduled_date || new Date().toISOString().split("T")[0],
+        format: getWorkoutFormat(workout),
+        time_cap_seconds: workout.time_cap_seconds ?? null,
+        rounds: workout.rounds ?? null,
+        interval_seconds: workout.interval_seconds ?? null,
+        rest_seconds: workout.rest_seconds ?? null,
         exercises: workout.workout_exercises?.map((exercise) => ({
           id: exercise.id,
           exercise_id: exercise.exercise_id,
           sets: exercise.sets,
           reps: exercise.reps,
           weight: exercise.weight || 0,
+          scaled_weight: exercise.scaled_weight ?? null,
+          scaled_notes: exercise.scaled_notes ?? null,
+          foundations_weight: exercise.foundations_weight ?? null,
+          foundations_notes: exercise.foundations_notes ?? null,
+          intensity_type: getIntensityType(exercise),
+          percentage: exercise.percentage ?? null,
+          percentage_of_exercise_id: exercise.percentage_of_exercise_id ?? null,
+          rpe: exercise.rpe ?? null,
+          rest_seconds: exercise.rest_seconds ?? null,
+          block: exercise.block ?? null,
+          block_rounds: exercise.block_rounds ?? null,
         })) || [],
         deletedExerciseIds: [], // Initialize empty array for tracking deletions
       });
@@ -44,6 +79,10 @@ import { useState } from "react";
         setFormData((prev) => ({ ...prev, [field]: value }));
       };
 
+      const handleFormatChange = (update: Partial<WorkoutFormData>) => {
+        setFormData((prev) => ({ ...prev, ...update }));
+      };
+
       const handleExerciseChange = (
         index: number,
         field: keyof WorkoutExerciseFormData,
@@ -57,12 +96,19 @@ import { useState } from "react";
         }));
       };
 
+      const handleBlockChange = (index: number, update: BlockUpdate) => {
+        setFormData((prev) => ({
+          ...prev,
+          exercises: applyBlockChange(prev.exercises, index, update),
+        }));
+      };
+
       const addExercise = () => {
         setFormData((prev) => ({
           ...prev,
           exercises: [
             ...prev.exercises,
-            { id: uuidv4(), exercise_id: "", sets: null, reps: null, weight: null }, // Generate a unique ID for new exercises
+            { id: uuidv4(), exercise_id: "", sets: null, reps: null, weight: null, scaled_weight: null, scaled_notes: null, foundations_weight: null, foundations_notes: null, intensity_type: DEFAULT_INTENSITY_TYPE, percentage: null, percentage_of_exercise_id: null, rpe: null, rest_seconds: null, block: null, block_rounds: null }, // Generate a unique ID for new exercises
           ],
         }));
       };
@@ -97,6 +143,11 @@ import { useState } from "react";
               type: formData.type,
               is_wod: formData.is_wod,
               scheduled_date: formData.scheduled_date,
+              format: formData.format,
+              time_cap_seconds: formData.time_cap_seconds,
+              rounds: formData.rounds,
+              interval_seconds: formData.interval_seconds,
+              rest_seconds: formData.rest_seconds,
               updated_at: new Date().toISOString(),
             })
             .eq("id", workout.id);
@@ -121,6 +172,17 @@ import { useState } from "react";
             sets: exercise.sets,
             reps: exercise.reps,
             weight: exercise.weight,
+            scaled_weight: exercise.scaled_weight,
+            scaled_notes: exercise.scaled_notes,
+            foundations_weight: exercise.foundations_weight,
+            foundations_notes: exercise.foundations_notes,
+            intensity_type: exercise.intensity_type,
+            percentage: exercise.percentage,
+            percentage_of_exercise_id: exercise.percentage_of_exercise_id,
+            rpe: exercise.rpe,
+            rest_seconds: exercise.rest_seconds,
+            block: exercise.block,
+            block_rounds: exercise.block_rounds,
             order_index: index,
           }));
 
@@ -146,7 +208,9 @@ import { useState } from "react";
         loading,
         error,
         handleChange,
+        handleFormatChange,
         handleExerciseChange,
+        handleBlockChange,
         handleSubmit,
         addExercise,
         removeExercise,
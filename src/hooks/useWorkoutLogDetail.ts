@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useRealtime } from './useRealtime';
+import type { Kudos, WorkoutLog } from '../types/workout';
+
+export type WorkoutLogDetail = WorkoutLog & {
+  profiles: { profile_name: string | null } | null;
+  kudos: Kudos[];
+};
+
+export function useWorkoutLogDetail(logId: string) {
+  const [log, setLog] = useState<WorkoutLogDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchLog = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('workout_logs')
+        .select(`
+          *,
+          workout:workouts (
+            *,
+            workout_exercises (exercise:exercises (scoring_metric))
+          ),
+          profiles (
+            profile_name
+          ),
+          kudos (
+            *,
+            profiles (
+              profile_name
+            )
+          )
+        `)
+        .eq('id', logId)
+        .single();
+
+      if (error) throw error;
+      setLog(data);
+    } catch (error) {
+      console.error('Error fetching workout log:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [logId]);
+
+  useEffect(() => {
+    fetchLog();
+  }, [fetchLog]);
+
+  useRealtime(['kudos'], (change) => {
+    const row = change.eventType === 'DELETE' ? change.old : change.new;
+    if (row.workout_log_id === logId) fetchLog();
+  });
+
+  return { log, loading, refresh: fetchLog };
+}
@@ -24,17 +24,19 @@ export function useWorkoutStats() {
       try {
         const [prCount, workoutCount, streakData] = await Promise.all([
           supabase
-            .from('exercise_scores')
-            .select('id', { count: 'exact' })
+            .from('personal_records')
+            .select('id', { count: 'exact', head: true })
             .eq('user_id', user.id),
           supabase
             .from('workout_logs')
             .select('id', { count: 'exact' })
-            .eq('user_id', user.id),
+            .eq('user_id', user.id)
+            .eq('in_progress', false),
           supabase
             .from('workout_logs')
             .select('completed_at')
             .eq('user_id', user.id)
+            .eq('in_progress', false)
             .order('completed_at', { ascending: false })
         ]);
 
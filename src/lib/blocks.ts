@@ -0,0 +1,73 @@
+import type { WorkoutExercise } from '../types/workout';
+
+export const BLOCK_LABELS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+export const DEFAULT_BLOCK_ROUNDS = 3;
+
+type BlockedExercise = Pick<WorkoutExercise, 'block' | 'block_rounds' | 'sets'>;
+
+export type BlockUpdate = Partial<Pick<WorkoutExercise, 'block' | 'block_rounds'>>;
+
+export interface ExerciseBlock {
+  // Null for an exercise that stands on its own
+  label: string | null;
+  rounds: number;
+  // Positions in the workout's exercise list, in order
+  indexes: number[];
+}
+
+// Groups exercises into their blocks, placed where the block's first exercise is.
+export function groupBlocks(exercises: BlockedExercise[]): ExerciseBlock[] {
+  const blocks: ExerciseBlock[] = [];
+  exercises.forEach((exercise, index) => {
+    const block = exercise.block ? blocks.find((candidate) => candidate.label === exercise.block) : null;
+    if (block) {
+      block.indexes.push(index);
+    } else {
+      blocks.push({
+        label: exercise.block || null,
+        rounds: exercise.block ? exercise.block_rounds || DEFAULT_BLOCK_ROUNDS : exercise.sets,
+        indexes: [index],
+      });
+    }
+  });
+  return blocks;
+}
+
+// A1, A2, ... for the exercise at `position` within its block
+export function memberLabel(block: Pick<ExerciseBlock, 'label'>, position: number) {
+  return block.label ? `${block.label}${position + 1}` : null;
+}
+
+export function describeBlock(block: ExerciseBlock) {
+  const kind = block.indexes.length > 2 ? 'Circuit' : block.indexes.length === 2 ? 'Superset' : 'Block';
+  return `${kind} · ${block.rounds} ${block.rounds === 1 ? 'round' : 'rounds'}`;
+}
+
+// Applies a block or rounds change to one exercise. An exercise joining a block
+// takes on its rounds, and changing the rounds changes them for the whole block.
+// Members get one set per round so the block logs evenly.
+export function applyBlockChange<T extends BlockedExercise>(exercises: T[], index: number, update: BlockUpdate): T[] {
+  const current = exercises[index];
+  const label = update.block !== undefined ? update.block : current.block;
+
+  if (!label) {
+    return exercises.map((exercise, i) => (i === index ? { ...exercise, block: null, block_rounds: null } : exercise));
+  }
+
+  const joining = label !== current.block;
+  const existing = exercises.find((exercise, i) => i !== index && exercise.block === label);
+  const rounds = !joining && update.block_rounds !== undefined
+    ? update.block_rounds
+    : existing?.block_rounds ?? current.block_rounds ?? DEFAULT_BLOCK_ROUNDS;
+
+  return exercises.map((exercise, i) => {
+    if (i !== index && (joining || exercise.block !== label)) return exercise;
+    return {
+      ...exercise,
+      block: label,
+      block_rounds: rounds,
+      sets: rounds ?? exercise.sets,
+    };
+  });
+}
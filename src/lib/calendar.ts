@@ -0,0 +1,42 @@
+import {
+  addDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import type { Workout } from '../types/workout';
+
+export type CalendarView = 'month' | 'week';
+
+// Weeks start on Monday, matching the weekly exercise summary.
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// The days shown for the view, padded to whole weeks so the grid lines up.
+export function calendarDays(view: CalendarView, anchor: Date): Date[] {
+  const start = view === 'month'
+    ? startOfWeek(startOfMonth(anchor), WEEK_OPTIONS)
+    : startOfWeek(anchor, WEEK_OPTIONS);
+  const end = view === 'month'
+    ? endOfWeek(endOfMonth(anchor), WEEK_OPTIONS)
+    : endOfWeek(anchor, WEEK_OPTIONS);
+  return eachDayOfInterval({ start, end });
+}
+
+export function weekdayLabels(): string[] {
+  const monday = startOfWeek(new Date(), WEEK_OPTIONS);
+  return Array.from({ length: 7 }, (_, index) => format(addDays(monday, index), 'EEE'));
+}
+
+export function groupByDate<T extends Pick<Workout, 'scheduled_date'>>(workouts: T[]): Record<string, T[]> {
+  return workouts.reduce<Record<string, T[]>>((groups, workout) => {
+    if (!workout.scheduled_date) return groups;
+    const key = workout.scheduled_date.slice(0, 10);
+    (groups[key] ||= []).push(workout);
+    return groups;
+  }, {});
+}
@@ -0,0 +1,251 @@
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { toCsv } from './csv';
+import { formatDuration } from './duration';
+import { DEFAULT_UNITS, fromStoredDistance, fromStoredWeight, type UnitPreferences } from './units';
+import type { PersonalRecordType } from '../types/workout';
+
+// PostgREST caps responses at 1000 rows, well below a few years of sets
+const PAGE_SIZE = 1000;
+
+export const ARCHIVE_VERSION = 1;
+
+interface NamedExercise {
+  name: string;
+}
+
+export interface ExportedSet {
+  id: string;
+  workout_log_id: string;
+  exercise_id: string;
+  exercise: string | null;
+  weight: number | null;
+  reps: number | null;
+  distance: number | null;
+  // Seconds
+  time: number | null;
+  calories: number | null;
+}
+
+export interface ExportedLog {
+  id: string;
+  workout_id: string;
+  workout: string | null;
+  workout_format: string | null;
+  completed_at: string;
+  notes: string | null;
+  score: number | null;
+  total: number | null;
+  division: string | null;
+  result_time_seconds: number | null;
+  result_rounds: number | null;
+  result_reps: number | null;
+  title: string | null;
+  sets: ExportedSet[];
+}
+
+export interface ExportedRecord {
+  exercise_id: string;
+  exercise: string | null;
+  workout_log_id: string;
+  record_type: PersonalRecordType;
+  reps: number | null;
+  distance: number | null;
+  value: number;
+  previous_value: number | null;
+  achieved_at: string;
+}
+
+export interface ExportedMax {
+  exercise_id: string;
+  exercise: string | null;
+  weight: number;
+  tested_at: string;
+}
+
+export interface TrainingArchive {
+  version: number;
+  exported_at: string;
+  // Units of every weight and distance in the archive
+  units: { weight: 'lb'; distance: 'm'; time: 's' };
+  profile: { profile_name: string | null; first_name: string | null; last_name: string | null } | null;
+  workout_logs: ExportedLog[];
+  personal_records: ExportedRecord[];
+  one_rep_maxes: ExportedMax[];
+}
+
+// Typed as an array by the untyped client, returned as an object for this many-to-one join
+const unwrap = <T>(value: T | T[] | null | undefined): T | null =>
+  (Array.isArray(value) ? value[0] : value) ?? null;
+
+// Every row of a query, fetched a page at a time. `page` builds the query for
+// one range and needs a stable order so pages don't overlap.
+export async function fetchPages<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: unknown }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Every row the user owns in `table`, fetched a page at a time.
+export function fetchAllRows<T>(
+  table: string,
+  columns: string,
+  userId: string,
+  orderBy: string
+): Promise<T[]> {
+  return fetchPages<T>((from, to) => supabase
+    .from(table)
+    .select(columns)
+    .eq('user_id', userId)
+    .order(orderBy)
+    .order('id')
+    .range(from, to));
+}
+
+interface LogRow extends Omit<ExportedLog, 'workout' | 'workout_format' | 'sets'> {
+  workout: { name: string; format: string | null } | { name: string; format: string | null }[] | null;
+}
+
+type SetRow = Omit<ExportedSet, 'exercise'> & {
+  exercise: NamedExercise | NamedExercise[] | null;
+  set_index: number | null;
+  workout_exercise: { order_index: number | null } | { order_index: number | null }[] | null;
+};
+
+// Sets without a workout exercise, e.g. imported ones, come after those with one
+const exercisePosition = (set: SetRow) => unwrap(set.workout_exercise)?.order_index ?? Number.MAX_SAFE_INTEGER;
+
+// Within a log: the workout's exercise order, each exercise's sets together, then the set order
+const compareSets = (a: SetRow, b: SetRow) =>
+  exercisePosition(a) - exercisePosition(b)
+  || a.exercise_id.localeCompare(b.exercise_id)
+  || (a.set_index ?? 0) - (b.set_index ?? 0);
+type RecordRow = Omit<ExportedRecord, 'exercise'> & { exercise: NamedExercise | NamedExercise[] | null };
+type MaxRow = Omit<ExportedMax, 'exercise'> & { exercise: NamedExercise | NamedExercise[] | null };
+
+// Everything a member has logged, with each log's sets nested under it.
+export async function fetchTrainingArchive(userId: string): Promise<TrainingArchive> {
+  const [profileResult, logs, sets, records, maxes] = await Promise.all([
+    supabase
+      .from('profiles')
+      .select('profile_name, first_name, last_name')
+      .eq('id', userId)
+      .maybeSingle(),
+    fetchAllRows<LogRow>(
+      'workout_logs',
+      `id, workout_id, completed_at, notes, score, total, division,
+        result_time_seconds, result_rounds, result_reps, title,
+        workout:workouts (name, format)`,
+      userId,
+      'completed_at'
+    ),
+    fetchAllRows<SetRow>(
+      'exercise_scores',
+      `id, workout_log_id, exercise_id, weight, reps, distance, time, calories, set_index,
+        exercise:exercises (name), workout_exercise:workout_exercises (order_index)`,
+      userId,
+      'set_index'
+    ),
+    fetchAllRows<RecordRow>(
+      'personal_records',
+      'exercise_id, workout_log_id, record_type, reps, distance, value, previous_value, achieved_at, exercise:exercises (name)',
+      userId,
+      'achieved_at'
+    ),
+    fetchAllRows<MaxRow>(
+      'one_rep_maxes',
+      'exercise_id, weight, tested_at, exercise:exercises (name)',
+      userId,
+      'tested_at'
+    ),
+  ]);
+
+  if (profileResult.error) throw profileResult.error;
+
+  const setsByLog = new Map<string, ExportedSet[]>();
+  [...sets].sort(compareSets).forEach((set) => {
+    const entry: ExportedSet = {
+      id: set.id,
+      workout_log_id: set.workout_log_id,
+      exercise_id: set.exercise_id,
+      exercise: unwrap(set.exercise)?.name ?? null,
+      weight: set.weight,
+      reps: set.reps,
+      distance: set.distance,
+      time: set.time,
+      calories: set.calories,
+    };
+    setsByLog.set(set.workout_log_id, [...(setsByLog.get(set.workout_log_id) || []), entry]);
+  });
+
+  return {
+    version: ARCHIVE_VERSION,
+    exported_at: new Date().toISOString(),
+    units: { weight: 'lb', distance: 'm', time: 's' },
+    profile: profileResult.data,
+    workout_logs: logs.map(({ workout, ...log }) => {
+      const details = unwrap(workout);
+      return {
+        ...log,
+        workout: details?.name ?? log.title,
+        workout_format: details?.format ?? null,
+        sets: setsByLog.get(log.id) || [],
+      };
+    }),
+    personal_records: records.map((record) => ({ ...record, exercise: unwrap(record.exercise)?.name ?? null })),
+    one_rep_maxes: maxes.map((max) => ({ ...max, exercise: unwrap(max.exercise)?.name ?? null })),
+  };
+}
+
+// One row per logged set, oldest first, numbered within each exercise of a log.
+// Weights and distances are written in the member's own units.
+export function archiveToSetsCsv(archive: TrainingArchive, units: UnitPreferences = DEFAULT_UNITS): string {
+  const header = [
+    'date',
+    'workout',
+    'exercise',
+    'set',
+    `weight (${units.weight_unit})`,
+    'reps',
+    `distance (${units.distance_unit})`,
+    'time',
+    'calories',
+  ];
+  const rows = archive.workout_logs.flatMap((log) => {
+    const setNumbers = new Map<string, number>();
+    return log.sets.map((set) => {
+      const number = (setNumbers.get(set.exercise_id) || 0) + 1;
+      setNumbers.set(set.exercise_id, number);
+      return [
+        format(new Date(log.completed_at), 'yyyy-MM-dd'),
+        log.workout,
+        set.exercise,
+        number,
+        set.weight == null ? null : fromStoredWeight(set.weight, units.weight_unit),
+        set.reps,
+        set.distance == null ? null : fromStoredDistance(set.distance, units.distance_unit),
+        set.time == null ? null : formatDuration(set.time),
+        set.calories,
+      ];
+    });
+  });
+  return toCsv(header, rows);
+}
+
+export function downloadFile(filename: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,54 @@
+import { DEFAULT_UNITS, formatWeight, type UnitPreferences } from './units';
+import type { Division, WorkoutExercise, WorkoutLog } from '../types/workout';
+
+export const DEFAULT_DIVISION: Division = 'rx';
+
+export const DIVISIONS: { value: Division; label: string }[] = [
+  { value: 'rx', label: 'Rx' },
+  { value: 'scaled', label: 'Scaled' },
+  { value: 'foundations', label: 'Foundations' },
+];
+
+export interface Prescription {
+  weight: number | null;
+  notes: string | null;
+}
+
+type PrescribedExercise = Pick<
+  WorkoutExercise,
+  'weight' | 'scaled_weight' | 'scaled_notes' | 'foundations_weight' | 'foundations_notes'
+>;
+
+export function getDivision(log?: Pick<WorkoutLog, 'division'> | null): Division {
+  return log?.division || DEFAULT_DIVISION;
+}
+
+export function getDivisionLabel(division: Division) {
+  return DIVISIONS.find((option) => option.value === division)?.label || 'Rx';
+}
+
+// A division without its own weight falls back to the next harder one,
+// so coaches only fill in what actually changes.
+export function getPrescription(exercise: PrescribedExercise, division: Division): Prescription {
+  const rx: Prescription = { weight: exercise.weight ?? null, notes: null };
+  const scaled: Prescription = {
+    weight: exercise.scaled_weight ?? rx.weight,
+    notes: exercise.scaled_notes || null,
+  };
+
+  switch (division) {
+    case 'scaled':
+      return scaled;
+    case 'foundations':
+      return {
+        weight: exercise.foundations_weight ?? scaled.weight,
+        notes: exercise.foundations_notes || scaled.notes,
+      };
+    default:
+      return rx;
+  }
+}
+
+export function describePrescription({ weight, notes }: Prescription, units: UnitPreferences = DEFAULT_UNITS): string {
+  return [weight ? formatWeight(weight, units.weight_unit) : null, notes].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,33 @@
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Formats a duration in seconds as `m:ss`, or `h:mm:ss` once it passes an hour.
+export function formatDuration(totalSeconds: number | null | undefined): string {
+  if (totalSeconds == null || !Number.isFinite(totalSeconds)) return '';
+
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainder = seconds % 60;
+
+  return hours > 0
+    ? `${hours}:${pad(minutes)}:${pad(remainder)}`
+    : `${minutes}:${pad(remainder)}`;
+}
+
+export const DURATION_FORMAT_HINT = 'm:ss, h:mm:ss or seconds';
+
+// Reads `m:ss`, `h:mm:ss` or plain seconds into seconds. Only the first part may
+// run past 59 (so `75:00` is fine, `4:75` isn't) and only the last may have a
+// fraction. Returns null for anything else, including an empty string.
+export function parseDuration(input: string): number | null {
+  const parts = input.trim().split(':');
+  if (parts.length > 3 || parts.some((part) => part === '')) return null;
+
+  const numbers = parts.map((part, index) => {
+    const pattern = index === parts.length - 1 ? /^\d+(\.\d+)?$/ : /^\d+$/;
+    return pattern.test(part) ? Number(part) : NaN;
+  });
+  if (numbers.some((value, index) => Number.isNaN(value) || (index > 0 && value >= 60))) return null;
+
+  return numbers.reduce((total, value) => total * 60 + value, 0);
+}
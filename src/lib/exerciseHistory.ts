@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+import { fetchPages } from './dataExport';
+import {
+  DEFAULT_ONE_RM_FORMULA,
+  bestOneRepMax,
+  type LiftSet,
+  type OneRepMaxFormula,
+} from './oneRepMax';
+
+export interface TestedMax {
+  weight: number;
+  tested_at: string;
+}
+
+export interface LiftHistory {
+  sets: LiftSet[];
+  tested: TestedMax | null;
+}
+
+interface LiftScore extends LiftSet {
+  exercise_id: string;
+}
+
+// Every weighted set plus the latest tested 1RM for each requested exercise.
+export async function fetchLiftHistory(userId: string, exerciseIds: string[]): Promise<Record<string, LiftHistory>> {
+  const history: Record<string, LiftHistory> = {};
+  if (exerciseIds.length === 0) return history;
+
+  const [scores, maxesResult] = await Promise.all([
+    fetchPages<LiftScore>((from, to) => supabase
+      .from('exercise_scores')
+      .select('exercise_id, weight, reps')
+      .eq('user_id', userId)
+      .in('exercise_id', exerciseIds)
+      .gt('weight', 0)
+      .order('id')
+      .range(from, to)),
+    supabase
+      .from('one_rep_maxes')
+      .select('exercise_id, weight, tested_at')
+      .eq('user_id', userId)
+      .in('exercise_id', exerciseIds)
+      .order('tested_at', { ascending: false }),
+  ]);
+
+  if (maxesResult.error) throw maxesResult.error;
+
+  exerciseIds.forEach((id) => {
+    history[id] = { sets: [], tested: null };
+  });
+  scores.forEach(({ exercise_id, weight, reps }) => {
+    history[exercise_id]?.sets.push({ weight, reps });
+  });
+  (maxesResult.data || []).forEach(({ exercise_id, weight, tested_at }) => {
+    // Ordered newest first, so the first row per exercise wins
+    if (history[exercise_id] && !history[exercise_id].tested) {
+      history[exercise_id].tested = { weight, tested_at };
+    }
+  });
+
+  return history;
+}
+
+// The max percentages are worked from: a tested 1RM when recorded, else the best estimate.
+export function trainingMax(history: LiftHistory | undefined, formula: OneRepMaxFormula = DEFAULT_ONE_RM_FORMULA) {
+  if (!history) return 0;
+  return history.tested?.weight || bestOneRepMax(history.sets, formula)?.estimate || 0;
+}
+
+export async function fetchOneRmFormula(userId: string): Promise<OneRepMaxFormula> {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('one_rm_formula')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.one_rm_formula || DEFAULT_ONE_RM_FORMULA;
+}
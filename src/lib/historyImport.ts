@@ -0,0 +1,430 @@
+import { format, isValid, parse, parseISO } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from './supabase';
+import { fetchAllRows } from './dataExport';
+import { DURATION_FORMAT_HINT, parseDuration } from './duration';
+import { getScoringMetric, scoreSets, totalSets } from './scoring';
+import { toStoredDistance, toStoredWeight, type UnitPreferences } from './units';
+import type { Exercise, LoggedSet } from '../types/workout';
+
+export type ImportField =
+  | 'date'
+  | 'workout'
+  | 'exercise'
+  | 'weight'
+  | 'reps'
+  | 'distance'
+  | 'time'
+  | 'calories'
+  | 'notes';
+
+interface ImportFieldDefinition {
+  value: ImportField;
+  label: string;
+  required: boolean;
+  // Header names other trackers use for the column, compared normalized
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { value: 'date', label: 'Date', required: true, aliases: ['date', 'day', 'completed', 'completed at', 'workout date'] },
+  { value: 'exercise', label: 'Exercise', required: true, aliases: ['exercise', 'exercise name', 'movement', 'lift'] },
+  { value: 'workout', label: 'Workout', required: false, aliases: ['workout', 'workout name', 'session', 'routine'] },
+  { value: 'weight', label: 'Weight', required: false, aliases: ['weight', 'load', 'lb', 'lbs', 'kg', 'weight lb', 'weight lbs', 'weight kg'] },
+  { value: 'reps', label: 'Reps', required: false, aliases: ['reps', 'repetitions', 'rep'] },
+  { value: 'distance', label: 'Distance', required: false, aliases: ['distance', 'meters', 'distance m', 'distance km', 'distance mi'] },
+  { value: 'time', label: 'Time', required: false, aliases: ['time', 'duration', 'seconds'] },
+  { value: 'calories', label: 'Calories', required: false, aliases: ['calories', 'cals', 'cal'] },
+  { value: 'notes', label: 'Notes', required: false, aliases: ['notes', 'note', 'comment', 'comments'] },
+];
+
+// Column index for each mapped field
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportRow {
+  // Line in the file, counting the header, for error reports
+  line: number;
+  date: string;
+  workout: string | null;
+  exercise: string;
+  weight: number | null;
+  reps: number | null;
+  distance: number | null;
+  time: number | null;
+  calories: number | null;
+  notes: string | null;
+}
+
+export interface InvalidRow {
+  line: number;
+  reason: string;
+}
+
+export type MatchStatus = 'exact' | 'suggested' | 'unmatched';
+
+export interface ExerciseMatch {
+  name: string;
+  rows: number;
+  exercise_id: string | null;
+  status: MatchStatus;
+}
+
+export type MatchedRow = ImportRow & { exercise_id: string };
+
+export interface ImportSession {
+  date: string;
+  title: string;
+  notes: string | null;
+  sets: MatchedRow[];
+}
+
+export interface ImportPlan {
+  sessions: ImportSession[];
+  duplicates: ImportRow[];
+  unmatched: ImportRow[];
+}
+
+const SUGGESTION_THRESHOLD = 0.6;
+const INSERT_BATCH_SIZE = 500;
+// `yyyy` also reads a 2-digit year as it stands, so `M/d/yy` has to come first
+const DATE_FORMATS = ['yyyy-MM-dd', 'yyyy/MM/dd', 'M/d/yy', 'M/d/yyyy', 'd.M.yyyy', 'd MMM yyyy', 'MMM d, yyyy'];
+
+// Earlier years come from a misread date rather than real training
+const EARLIEST_YEAR = 1900;
+
+const isPlausibleDate = (date: Date) => isValid(date) && date.getFullYear() >= EARLIEST_YEAR;
+
+export const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export function guessMapping(header: string[]): ColumnMapping {
+  const normalized = header.map(normalizeName);
+  return IMPORT_FIELDS.reduce<ColumnMapping>((mapping, field) => {
+    const index = normalized.findIndex((name) => field.aliases.includes(name));
+    if (index !== -1 && !Object.values(mapping).includes(index)) mapping[field.value] = index;
+    return mapping;
+  }, {});
+}
+
+export function missingFields(mapping: ColumnMapping): ImportFieldDefinition[] {
+  return IMPORT_FIELDS.filter((field) => field.required && mapping[field.value] === undefined);
+}
+
+// Dates are kept as calendar days; ISO timestamps are cut to their day. A
+// year before 1900 is treated as unreadable.
+export function parseImportDate(value: string): string | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  const iso = parseISO(text);
+  if (isPlausibleDate(iso)) return format(iso, 'yyyy-MM-dd');
+
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(text, pattern, new Date());
+    if (isPlausibleDate(date)) return format(date, 'yyyy-MM-dd');
+  }
+  return null;
+}
+
+// Accepts thousands separators and trailing units like `225 lb`.
+function parseNumber(value: string): number | null | undefined {
+  const text = value.trim().replace(/,/g, '');
+  if (!text) return null;
+  const number = parseFloat(text);
+  return Number.isFinite(number) && number >= 0 ? number : undefined;
+}
+
+const NUMERIC_FIELDS = ['weight', 'reps', 'distance', 'calories'] as const;
+
+// Weights and distances in the file are read in `units` and stored in pounds and meters.
+export function readImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  units: UnitPreferences
+): { rows: ImportRow[]; invalid: InvalidRow[] } {
+  const valid: ImportRow[] = [];
+  const invalid: InvalidRow[] = [];
+
+  rows.slice(1).forEach((cells, index) => {
+    const line = index + 2;
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] || '').trim();
+    };
+
+    const date = parseImportDate(cell('date'));
+    if (!date) {
+      invalid.push({ line, reason: `Unreadable date "${cell('date')}"` });
+      return;
+    }
+    const exercise = cell('exercise');
+    if (!exercise) {
+      invalid.push({ line, reason: 'Missing exercise' });
+      return;
+    }
+
+    const row: ImportRow = {
+      line,
+      date,
+      workout: cell('workout') || null,
+      exercise,
+      weight: null,
+      reps: null,
+      distance: null,
+      time: null,
+      calories: null,
+      notes: cell('notes') || null,
+    };
+    if (cell('time')) {
+      row.time = parseDuration(cell('time'));
+      if (row.time == null) {
+        invalid.push({ line, reason: `Invalid time "${cell('time')}", use ${DURATION_FORMAT_HINT}` });
+        return;
+      }
+    }
+    for (const field of NUMERIC_FIELDS) {
+      const value = parseNumber(cell(field));
+      if (value === undefined) {
+        invalid.push({ line, reason: `Invalid ${field} "${cell(field)}"` });
+        return;
+      }
+      row[field] = value;
+    }
+    if (row.weight) row.weight = toStoredWeight(row.weight, units.weight_unit);
+    if (row.distance) row.distance = toStoredDistance(row.distance, units.distance_unit);
+
+    if (!row.weight && !row.reps && !row.distance && !row.time && !row.calories) {
+      invalid.push({ line, reason: 'No weight, reps, distance, time or calories' });
+      return;
+    }
+    valid.push(row);
+  });
+
+  return { rows: valid, invalid };
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 0 to 1. Takes the better of character similarity, which catches typos, and
+// word overlap, which catches reordered names like "Squat (Back)".
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const characters = 1 - editDistance(left, right) / Math.max(left.length, right.length);
+  const leftWords = new Set(left.split(' '));
+  const rightWords = new Set(right.split(' '));
+  const shared = Array.from(leftWords).filter((word) => rightWords.has(word)).length;
+  const words = shared / new Set([...leftWords, ...rightWords]).size;
+  return Math.max(characters, words);
+}
+
+// One match per distinct exercise name in the file. Anything short of an exact
+// match is left for the member to confirm.
+export function matchExercises(rows: ImportRow[], exercises: Pick<Exercise, 'id' | 'name'>[]): ExerciseMatch[] {
+  const counts = new Map<string, number>();
+  rows.forEach((row) => counts.set(row.exercise, (counts.get(row.exercise) || 0) + 1));
+
+  return Array.from(counts.entries()).map(([name, count]) => {
+    const best = exercises.reduce<{ id: string | null; score: number }>((top, exercise) => {
+      const score = nameSimilarity(name, exercise.name);
+      return score > top.score ? { id: exercise.id, score } : top;
+    }, { id: null, score: 0 });
+
+    if (best.score === 1) return { name, rows: count, exercise_id: best.id, status: 'exact' };
+    if (best.score >= SUGGESTION_THRESHOLD) return { name, rows: count, exercise_id: best.id, status: 'suggested' };
+    return { name, rows: count, exercise_id: null, status: 'unmatched' };
+  });
+}
+
+type SetValues = Pick<ImportRow, 'weight' | 'reps' | 'distance' | 'calories' | 'time'>;
+
+const setKey = (date: string, exerciseId: string, set: SetValues) =>
+  [
+    date,
+    exerciseId,
+    Number(set.weight) || 0,
+    Number(set.reps) || 0,
+    Number(set.distance) || 0,
+    Number(set.time) || 0,
+    Number(set.calories) || 0,
+  ].join('|');
+
+interface ExistingSet extends SetValues {
+  exercise_id: string;
+  workout_logs: { completed_at: string } | { completed_at: string }[];
+}
+
+// How many sets are already logged per day, exercise and values.
+export async function fetchExistingSetCounts(userId: string): Promise<Map<string, number>> {
+  const sets = await fetchAllRows<ExistingSet>(
+    'exercise_scores',
+    'id, exercise_id, weight, reps, distance, time, calories, workout_logs!inner (completed_at)',
+    userId,
+    'created_at'
+  );
+  const counts = new Map<string, number>();
+  sets.forEach((set) => {
+    // Typed as an array by the untyped client, returned as an object for this many-to-one join
+    const log = Array.isArray(set.workout_logs) ? set.workout_logs[0] : set.workout_logs;
+    const key = setKey(format(new Date(log.completed_at), 'yyyy-MM-dd'), set.exercise_id, set);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return counts;
+}
+
+// Groups rows into one session per day and workout name. Each set already
+// logged accounts for one matching row, which is reported as a duplicate and
+// left out; identical sets within the file are otherwise all imported.
+export function planImport(
+  rows: ImportRow[],
+  matches: Record<string, string | null>,
+  existingCounts: Map<string, number>
+): ImportPlan {
+  const remaining = new Map(existingCounts);
+  const sessions = new Map<string, ImportSession>();
+  const duplicates: ImportRow[] = [];
+  const unmatched: ImportRow[] = [];
+
+  rows.forEach((row) => {
+    const exerciseId = matches[row.exercise];
+    if (!exerciseId) {
+      unmatched.push(row);
+      return;
+    }
+    const key = setKey(row.date, exerciseId, row);
+    const existing = remaining.get(key) || 0;
+    if (existing > 0) {
+      remaining.set(key, existing - 1);
+      duplicates.push(row);
+      return;
+    }
+
+    const title = row.workout || 'Imported workout';
+    const sessionKey = `${row.date}|${title}`;
+    const session = sessions.get(sessionKey) || { date: row.date, title, notes: null, sets: [] };
+    session.notes = session.notes || row.notes;
+    session.sets.push({ ...row, exercise_id: exerciseId });
+    sessions.set(sessionKey, session);
+  });
+
+  return {
+    sessions: Array.from(sessions.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    duplicates,
+    unmatched,
+  };
+}
+
+function sessionResult(session: ImportSession, exercises: Pick<Exercise, 'id' | 'scoring_metric'>[]) {
+  const byExercise = new Map<string, LoggedSet[]>();
+  session.sets.forEach((set) => {
+    byExercise.set(set.exercise_id, [...(byExercise.get(set.exercise_id) || []), {
+      weight: set.weight,
+      reps: set.reps || 0,
+      distance: set.distance ?? undefined,
+      time: set.time,
+      calories: set.calories ?? undefined,
+    }]);
+  });
+
+  return Array.from(byExercise.entries()).reduce(
+    (result, [exerciseId, sets]) => {
+      const metric = getScoringMetric(exercises.find((exercise) => exercise.id === exerciseId));
+      return {
+        score: result.score + scoreSets(metric, sets),
+        total: result.total + totalSets(metric, sets),
+      };
+    },
+    { score: 0, total: 0 }
+  );
+}
+
+async function insertInBatches(table: string, rows: object[]) {
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from(table).insert(rows.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) throw error;
+  }
+}
+
+async function deleteInBatches(table: string, column: string, ids: string[]) {
+  for (let i = 0; i < ids.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabase.from(table).delete().in(column, ids.slice(i, i + INSERT_BATCH_SIZE));
+    if (error) throw error;
+  }
+}
+
+// Thrown when an import fails and the sessions it already wrote couldn't be removed
+export class PartialImportError extends Error {}
+
+// Writes each session as a workout log dated by the original day. Logged at
+// noon so the day survives time zone conversion. A failure part way removes
+// everything written by this import.
+export async function importSessions(
+  userId: string,
+  sessions: ImportSession[],
+  exercises: Pick<Exercise, 'id' | 'scoring_metric'>[]
+): Promise<void> {
+  const importedAt = new Date().toISOString();
+  const logs = sessions.map((session) => ({
+    id: uuidv4(),
+    user_id: userId,
+    workout_id: null,
+    title: session.title,
+    notes: session.notes,
+    completed_at: parseISO(`${session.date}T12:00:00`).toISOString(),
+    imported_at: importedAt,
+    ...sessionResult(session, exercises),
+  }));
+  const scores = sessions.flatMap((session, index) => {
+    // Sets keep the order they had in the file
+    const setCounts = new Map<string, number>();
+    return session.sets.map((set) => {
+      const setIndex = setCounts.get(set.exercise_id) || 0;
+      setCounts.set(set.exercise_id, setIndex + 1);
+      return {
+        id: uuidv4(),
+        user_id: userId,
+        workout_log_id: logs[index].id,
+        exercise_id: set.exercise_id,
+        weight: set.weight,
+        reps: set.reps,
+        distance: set.distance,
+        time: set.time,
+        calories: set.calories,
+        set_index: setIndex,
+      };
+    });
+  });
+
+  try {
+    await insertInBatches('workout_logs', logs);
+    await insertInBatches('exercise_scores', scores);
+  } catch (error) {
+    console.error('Error importing training history:', error);
+    const logIds = logs.map((log) => log.id);
+    try {
+      await deleteInBatches('exercise_scores', 'workout_log_id', logIds);
+      await deleteInBatches('workout_logs', 'id', logIds);
+    } catch (rollbackError) {
+      console.error('Error removing a partial import:', rollbackError);
+      throw new PartialImportError('Some imported sessions could not be removed');
+    }
+    throw error;
+  }
+}
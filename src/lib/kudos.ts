@@ -0,0 +1,33 @@
+import { supabase } from './supabase';
+import { publishChange } from './realtime';
+import type { Kudos } from '../types/workout';
+
+export type KudosGiver = Pick<Kudos, 'user_id'> & Partial<Pick<Kudos, 'profiles'>>;
+
+export const hasGivenKudos = (kudos: KudosGiver[], userId: string | undefined) =>
+  !!userId && kudos.some((entry) => entry.user_id === userId);
+
+// The kudos list after the user gives or takes back kudos, for optimistic updates.
+export function toggleKudosList<T extends KudosGiver>(kudos: T[], userId: string): KudosGiver[] {
+  return hasGivenKudos(kudos, userId)
+    ? kudos.filter((entry) => entry.user_id !== userId)
+    : [...kudos, { user_id: userId }];
+}
+
+// Gives kudos on a log, or takes them back when the user already has.
+export async function toggleKudos(workoutLogId: string, userId: string, given: boolean) {
+  const row = { workout_log_id: workoutLogId, user_id: userId };
+
+  const { error } = given
+    ? await supabase
+      .from('kudos')
+      .delete()
+      .eq('workout_log_id', workoutLogId)
+      .eq('user_id', userId)
+    : await supabase
+      .from('kudos')
+      .upsert(row, { onConflict: 'workout_log_id,user_id', ignoreDuplicates: true });
+
+  if (error) throw error;
+  publishChange('kudos', given ? 'DELETE' : 'INSERT', row);
+}
@@ -0,0 +1,58 @@
+export interface MentionableProfile {
+  id: string;
+  profile_name: string | null;
+}
+
+export interface ContentSegment {
+  text: string;
+  profileId?: string;
+}
+
+// `@name` runs to the next space or punctuation other than `.`, `_` and `-`,
+// and never ends on `.` or `-` so "nice job @Alex." still finds Alex
+const MENTION_PATTERN = /@([\w.-]*\w)/g;
+
+// Profile names can contain spaces, so `@JaneDoe` and `@janedoe` both match "Jane Doe"
+export const mentionKey = (name: string) => name.toLowerCase().replace(/\s+/g, '');
+
+export const mentionHandle = (profile: MentionableProfile) => (profile.profile_name || '').replace(/\s+/g, '');
+
+function profilesByKey(profiles: MentionableProfile[]) {
+  return new Map(
+    profiles
+      .filter((profile) => profile.profile_name)
+      .map((profile) => [mentionKey(profile.profile_name!), profile])
+  );
+}
+
+// Ids of the profiles mentioned in a post, each once.
+export function resolveMentions(content: string, profiles: MentionableProfile[]): string[] {
+  const byKey = profilesByKey(profiles);
+  const ids = Array.from(content.matchAll(MENTION_PATTERN))
+    .map((match) => byKey.get(mentionKey(match[1]))?.id)
+    .filter((id): id is string => !!id);
+  return Array.from(new Set(ids));
+}
+
+// Splits a post into plain text and resolved mentions for highlighting.
+export function splitMentions(content: string, profiles: MentionableProfile[]): ContentSegment[] {
+  const byKey = profilesByKey(profiles);
+  const segments: ContentSegment[] = [];
+  let last = 0;
+
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const profile = byKey.get(mentionKey(match[1]));
+    if (!profile || match.index === undefined) continue;
+    if (match.index > last) segments.push({ text: content.slice(last, match.index) });
+    segments.push({ text: match[0], profileId: profile.id });
+    last = match.index + match[0].length;
+  }
+  if (last < content.length) segments.push({ text: content.slice(last) });
+  return segments;
+}
+
+// The partial `@name` being typed just before the caret, if any.
+export function activeMentionQuery(text: string, caret: number): string | null {
+  const match = text.slice(0, caret).match(/(?:^|\s)@([\w.-]*)$/);
+  return match ? match[1] : null;
+}
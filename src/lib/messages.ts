@@ -0,0 +1,45 @@
+import type { Message, MessageReaction, MessageThread, Reaction } from '../types/message';
+
+export interface ReactionSummary {
+  likes: number;
+  dislikes: number;
+  userReaction: Reaction | null;
+}
+
+export function summarizeReactions(reactions: MessageReaction[], userId: string | undefined): ReactionSummary {
+  return {
+    likes: reactions.filter((entry) => entry.reaction === 'like').length,
+    dislikes: reactions.filter((entry) => entry.reaction === 'dislike').length,
+    userReaction: reactions.find((entry) => entry.user_id === userId)?.reaction ?? null,
+  };
+}
+
+// Reacting again with the same reaction takes it back; the other one replaces it.
+export function toggleReaction(reactions: MessageReaction[], userId: string, reaction: Reaction): MessageReaction[] {
+  const current = reactions.find((entry) => entry.user_id === userId);
+  const others = reactions.filter((entry) => entry.user_id !== userId);
+  return current?.reaction === reaction ? others : [...others, { user_id: userId, reaction }];
+}
+
+// Pinned posts stay on top, most recently pinned first; everything else is newest first.
+export function sortMessages<T extends Pick<Message, 'is_pinned' | 'pinned_at' | 'created_at'>>(messages: T[]): T[] {
+  return [...messages].sort((a, b) => {
+    if (a.is_pinned !== b.is_pinned) return a.is_pinned ? -1 : 1;
+    if (a.is_pinned) return (b.pinned_at || '').localeCompare(a.pinned_at || '');
+    return b.created_at.localeCompare(a.created_at);
+  });
+}
+
+// Top-level posts in board order, each with its replies oldest first.
+export function threadMessages(messages: Message[]): MessageThread[] {
+  const replies = new Map<string, Message[]>();
+  messages.forEach((message) => {
+    if (!message.parent_id) return;
+    replies.set(message.parent_id, [...(replies.get(message.parent_id) || []), message]);
+  });
+
+  return sortMessages(messages.filter((message) => !message.parent_id)).map((message) => ({
+    ...message,
+    replies: (replies.get(message.id) || []).sort((a, b) => a.created_at.localeCompare(b.created_at)),
+  }));
+}
@@ -0,0 +1,24 @@
+import { supabase } from './supabase';
+import type { Notification } from '../types/message';
+
+export type NewNotification = Pick<Notification, 'user_id' | 'type'> &
+  Partial<Pick<Notification, 'message_id' | 'workout_log_id'>>;
+
+// Sends one notification per recipient, never to the actor themselves. A
+// failure is logged rather than thrown: the post or comment that triggered it
+// has already been saved.
+export async function sendNotifications(actorId: string, notifications: NewNotification[]) {
+  const seen = new Set<string>();
+  const rows = notifications.filter((notification) => {
+    if (notification.user_id === actorId || seen.has(notification.user_id)) return false;
+    seen.add(notification.user_id);
+    return true;
+  });
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .insert(rows.map((notification) => ({ ...notification, actor_id: actorId })));
+
+  if (error) console.error('Error sending notifications:', error);
+}
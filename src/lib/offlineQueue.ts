@@ -0,0 +1,81 @@
+import type { WorkoutLogSubmission } from './workoutLogSync';
+
+const DB_NAME = 'primal-lifts';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+
+export interface PendingWorkoutLog extends WorkoutLogSubmission {
+  id: string;
+  queued_at: string;
+  attempts: number;
+  last_error: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(OUTBOX_STORE)) {
+          request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(OUTBOX_STORE, mode);
+    const request = run(transaction.objectStore(OUTBOX_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Entries are keyed by workout log id, so saving the same log again while it is
+// still queued replaces the older snapshot instead of duplicating it.
+export async function enqueueWorkoutLog(submission: WorkoutLogSubmission): Promise<PendingWorkoutLog> {
+  const entry: PendingWorkoutLog = {
+    ...submission,
+    id: submission.log.id,
+    queued_at: new Date().toISOString(),
+    attempts: 0,
+    last_error: null,
+  };
+  await withStore('readwrite', (store) => store.put(entry));
+  return entry;
+}
+
+export async function updatePendingWorkoutLog(entry: PendingWorkoutLog) {
+  await withStore('readwrite', (store) => store.put(entry));
+}
+
+export async function getPendingWorkoutLogs(userId: string): Promise<PendingWorkoutLog[]> {
+  const entries = await withStore<PendingWorkoutLog[]>('readonly', (store) => store.getAll());
+  return entries
+    .filter((entry) => entry.log.user_id === userId)
+    .sort((a, b) => a.queued_at.localeCompare(b.queued_at));
+}
+
+export async function removePendingWorkoutLog(id: string) {
+  await withStore('readwrite', (store) => store.delete(id));
+}
@@ -0,0 +1,93 @@
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
+export const DEFAULT_ONE_RM_FORMULA: OneRepMaxFormula = 'epley';
+
+export const ONE_RM_FORMULAS: { value: OneRepMaxFormula; label: string }[] = [
+  { value: 'epley', label: 'Epley' },
+  { value: 'brzycki', label: 'Brzycki' },
+];
+
+export const DEFAULT_PERCENTAGE_TABLE = [100, 95, 90, 85, 80, 75, 70, 65, 60, 50];
+
+export interface LiftSet {
+  weight: number | null;
+  reps: number | null;
+}
+
+export interface OneRepMaxEstimate {
+  estimate: number;
+  weight: number;
+  reps: number;
+}
+
+export interface PercentagePrescription {
+  sets: number;
+  reps: number;
+  percentage: number;
+}
+
+export function epley(weight: number, reps: number) {
+  return reps === 1 ? weight : weight * (1 + reps / 30);
+}
+
+// Brzycki is undefined from 37 reps on; past that the set says nothing about a single anyway.
+export function brzycki(weight: number, reps: number) {
+  return reps === 1 ? weight : weight * (36 / (37 - Math.min(reps, 36)));
+}
+
+export function estimateOneRepMax(weight: number, reps: number, formula: OneRepMaxFormula = DEFAULT_ONE_RM_FORMULA) {
+  if (!weight || weight <= 0 || !reps || reps <= 0) return 0;
+  return formula === 'brzycki' ? brzycki(weight, reps) : epley(weight, reps);
+}
+
+export function bestOneRepMax(sets: LiftSet[], formula: OneRepMaxFormula = DEFAULT_ONE_RM_FORMULA): OneRepMaxEstimate | null {
+  return sets.reduce<OneRepMaxEstimate | null>((best, set) => {
+    const weight = Number(set.weight) || 0;
+    const reps = Number(set.reps) || 0;
+    const estimate = estimateOneRepMax(weight, reps, formula);
+    if (estimate <= 0 || (best && best.estimate >= estimate)) return best;
+    return { estimate, weight, reps };
+  }, null);
+}
+
+export function roundWeight(weight: number, increment = 0.5) {
+  return Math.round(weight / increment) * increment;
+}
+
+export function weightForPercentage(oneRepMax: number, percentage: number) {
+  return roundWeight((oneRepMax * percentage) / 100);
+}
+
+// Accepts "100, 90, 80" style input; ignores anything that isn't a sensible percentage.
+export function parsePercentageTable(input: string): number[] {
+  const values = input
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter((value) => Number.isFinite(value) && value > 0 && value <= 120);
+  return Array.from(new Set(values)).sort((a, b) => b - a);
+}
+
+const PRESCRIPTION_PATTERN = /(\d+)\s*[xX×]\s*(\d+)\s*@\s*(\d+(?:\.\d+)?)\s*%/g;
+
+export function parsePercentagePrescriptions(text: string): PercentagePrescription[] {
+  return Array.from(text.matchAll(PRESCRIPTION_PATTERN), (match) => ({
+    sets: Number(match[1]),
+    reps: Number(match[2]),
+    percentage: Number(match[3]),
+  }));
+}
+
+// Prefers a line that names the exercise ("Back Squat 5x5 @ 75%"); otherwise a
+// description with a single prescription is taken to apply to every lift.
+export function findPercentagePrescription(text: string | null | undefined, exerciseName: string): PercentagePrescription | null {
+  if (!text) return null;
+
+  const name = exerciseName.trim().toLowerCase();
+  const namedLine = name
+    ? text.split('\n').find((line) => line.toLowerCase().includes(name) && parsePercentagePrescriptions(line).length > 0)
+    : undefined;
+  if (namedLine) return parsePercentagePrescriptions(namedLine)[0];
+
+  const prescriptions = parsePercentagePrescriptions(text);
+  return prescriptions.length === 1 ? prescriptions[0] : null;
+}
@@ -0,0 +1,164 @@
+import { supabase } from './supabase';
+import { formatDuration } from './duration';
+import { getScoringMetric } from './scoring';
+import { DEFAULT_UNITS, formatDistance, formatWeight, type UnitPreferences } from './units';
+import type { PersonalRecord, PersonalRecordType, ScoringMetric } from '../types/workout';
+
+export interface RecordSet {
+  exercise_id: string;
+  weight: number | null;
+  reps: number | null;
+  distance?: number | null;
+  // Seconds
+  time?: number | null;
+  calories?: number | null;
+}
+
+export type NewPersonalRecord = Pick<
+  PersonalRecord,
+  'exercise_id' | 'record_type' | 'reps' | 'distance' | 'value' | 'previous_value'
+>;
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+  weight_for_reps: 'Heaviest',
+  distance: 'Longest distance',
+  calories: 'Most calories',
+  time: 'Fastest time',
+};
+
+type Effort = Omit<NewPersonalRecord, 'previous_value'>;
+
+const lowerIsBetter = (type: PersonalRecordType) => type === 'time';
+
+const beats = (type: PersonalRecordType, value: number, best: number) =>
+  lowerIsBetter(type) ? value < best : value > best;
+
+// Weight records are tracked per rep count and times per distance, so a 5RM
+// and a 1RM (or a 500m and a 2k row) are separate records.
+function efforts(set: RecordSet, metric: ScoringMetric): Effort[] {
+  const weight = Number(set.weight) || 0;
+  const reps = Number(set.reps) || 0;
+  const distance = Number(set.distance) || 0;
+  const calories = Number(set.calories) || 0;
+  const time = Number(set.time) || 0;
+  const base = { exercise_id: set.exercise_id, reps: null, distance: null };
+  const result: Effort[] = [];
+
+  if (weight > 0 && reps > 0) {
+    result.push({ ...base, record_type: 'weight_for_reps', reps, value: weight });
+  }
+  if (metric === 'time') {
+    if (time > 0) result.push({ ...base, record_type: 'time', distance: distance || null, value: time });
+  } else if (distance > 0) {
+    result.push({ ...base, record_type: 'distance', value: distance });
+  }
+  if (calories > 0) {
+    result.push({ ...base, record_type: 'calories', value: calories });
+  }
+  return result;
+}
+
+const effortKey = (effort: Effort) =>
+  [effort.exercise_id, effort.record_type, effort.reps ?? '', effort.distance ?? ''].join('|');
+
+function bestEfforts(sets: RecordSet[], metrics: Record<string, ScoringMetric>) {
+  const best = new Map<string, Effort>();
+  sets.forEach((set) => {
+    efforts(set, metrics[set.exercise_id] || getScoringMetric()).forEach((effort) => {
+      const key = effortKey(effort);
+      const current = best.get(key);
+      if (!current || beats(effort.record_type, effort.value, current.value)) {
+        best.set(key, effort);
+      }
+    });
+  });
+  return best;
+}
+
+// A set is only a PR when it beats an earlier effort of the same kind; a first
+// attempt sets the baseline rather than filling the feed with "records".
+export function detectPersonalRecords(
+  current: RecordSet[],
+  previous: RecordSet[],
+  metrics: Record<string, ScoringMetric>
+): NewPersonalRecord[] {
+  const previousBest = bestEfforts(previous, metrics);
+  return Array.from(bestEfforts(current, metrics).entries()).flatMap(([key, effort]) => {
+    const before = previousBest.get(key);
+    if (!before || !beats(effort.record_type, effort.value, before.value)) return [];
+    return [{ ...effort, previous_value: before.value }];
+  });
+}
+
+export function describeRecordValue(
+  record: Pick<PersonalRecord, 'record_type' | 'value' | 'reps' | 'distance'>,
+  units: UnitPreferences = DEFAULT_UNITS
+) {
+  switch (record.record_type) {
+    case 'weight_for_reps':
+      return `${formatWeight(record.value, units.weight_unit)} × ${record.reps}`;
+    case 'distance':
+      return formatDistance(record.value, units.distance_unit);
+    case 'calories':
+      return `${record.value} cal`;
+    case 'time':
+      return `${formatDuration(record.value)}${record.distance ? ` for ${formatDistance(record.distance, units.distance_unit)}` : ''}`;
+  }
+}
+
+interface SavedLog {
+  id: string;
+  user_id: string;
+  completed_at: string;
+}
+
+// Re-detects the records of a saved log. Records from an earlier save of the
+// same log are replaced so editing a log never duplicates its PRs.
+export async function recordPersonalRecords(log: SavedLog, sets: RecordSet[]): Promise<NewPersonalRecord[]> {
+  const exerciseIds = Array.from(new Set(sets.map((set) => set.exercise_id)));
+
+  const { error: deleteError } = await supabase
+    .from('personal_records')
+    .delete()
+    .eq('workout_log_id', log.id);
+
+  if (deleteError) throw deleteError;
+  if (exerciseIds.length === 0) return [];
+
+  const [exercisesResult, previousResult] = await Promise.all([
+    supabase
+      .from('exercises')
+      .select('id, scoring_metric')
+      .in('id', exerciseIds),
+    supabase
+      .from('exercise_scores')
+      .select('exercise_id, weight, reps, distance, time, calories, workout_logs!inner (completed_at)')
+      .eq('user_id', log.user_id)
+      .in('exercise_id', exerciseIds)
+      .neq('workout_log_id', log.id)
+      // Only sessions before this one count, so a back-dated or imported log is
+      // judged against what the athlete had done by then
+      .lt('workout_logs.completed_at', log.completed_at),
+  ]);
+
+  if (exercisesResult.error) throw exercisesResult.error;
+  if (previousResult.error) throw previousResult.error;
+
+  const metrics = Object.fromEntries(
+    (exercisesResult.data || []).map((exercise) => [exercise.id, getScoringMetric(exercise)])
+  );
+  const records = detectPersonalRecords(sets, previousResult.data || [], metrics);
+  if (records.length === 0) return [];
+
+  const { error: insertError } = await supabase
+    .from('personal_records')
+    .insert(records.map((record) => ({
+      ...record,
+      user_id: log.user_id,
+      workout_log_id: log.id,
+      achieved_at: log.completed_at,
+    })));
+
+  if (insertError) throw insertError;
+  return records;
+}
@@ -0,0 +1,94 @@
+import type { WeightUnit } from './units';
+
+export interface PlateStock {
+  weight: number;
+  // Plates are loaded in pairs, one on each sleeve
+  pairs: number;
+}
+
+export interface PlateInventory {
+  bars: number[];
+  plates: PlateStock[];
+}
+
+// Each unit has its own bars and plates; athletes load from the set matching their unit.
+export type GymPlateInventory = Record<WeightUnit, PlateInventory>;
+
+export interface BarLoad {
+  // Plates for one side, heaviest first
+  perSide: number[];
+  loaded: number;
+  // Target minus what could be loaded; non-zero when the inventory can't make the weight
+  remainder: number;
+}
+
+export const PLATE_INVENTORY_KEY = 'plate_inventory';
+
+export const DEFAULT_PLATE_INVENTORY: GymPlateInventory = {
+  lb: {
+    bars: [45, 35, 15],
+    plates: [
+      { weight: 45, pairs: 4 },
+      { weight: 35, pairs: 2 },
+      { weight: 25, pairs: 2 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 2 },
+      { weight: 2.5, pairs: 2 },
+    ],
+  },
+  kg: {
+    bars: [20, 15, 10],
+    plates: [
+      { weight: 25, pairs: 4 },
+      { weight: 20, pairs: 2 },
+      { weight: 15, pairs: 2 },
+      { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 2 },
+      { weight: 2.5, pairs: 2 },
+      { weight: 1.25, pairs: 2 },
+    ],
+  },
+};
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && value > 0;
+
+function readInventory(value: Partial<PlateInventory> | undefined, fallback: PlateInventory): PlateInventory {
+  const bars = (value?.bars || []).filter(isPositive);
+  const plates = (value?.plates || []).filter((plate) => isPositive(plate?.weight) && isPositive(plate?.pairs));
+  return {
+    bars: bars.length > 0 ? bars : fallback.bars,
+    plates: plates.length > 0 ? plates : fallback.plates,
+  };
+}
+
+// Stored as JSON in `app_settings`; anything missing or malformed falls back to the defaults.
+export function parsePlateInventory(value: string | null | undefined): GymPlateInventory {
+  let parsed: Partial<Record<WeightUnit, Partial<PlateInventory>>> = {};
+  try {
+    parsed = value ? JSON.parse(value) : {};
+  } catch {
+    console.error('Invalid plate inventory setting');
+  }
+  return {
+    lb: readInventory(parsed.lb, DEFAULT_PLATE_INVENTORY.lb),
+    kg: readInventory(parsed.kg, DEFAULT_PLATE_INVENTORY.kg),
+  };
+}
+
+// Loads heaviest plates first within the pairs available. Rounds to the
+// nearest hundredth so fractional plates don't leave float dust behind.
+export function loadBar(target: number, bar: number, inventory: PlateInventory): BarLoad {
+  const plates = [...inventory.plates].sort((a, b) => b.weight - a.weight);
+  let side = Math.max(0, (target - bar) / 2);
+  const perSide: number[] = [];
+
+  plates.forEach((plate) => {
+    for (let used = 0; used < plate.pairs && side + 0.001 >= plate.weight; used++) {
+      perSide.push(plate.weight);
+      side = Math.round((side - plate.weight) * 100) / 100;
+    }
+  });
+
+  const loaded = bar + perSide.reduce((total, plate) => total + plate, 0) * 2;
+  return { perSide, loaded, remainder: Math.round((target - loaded) * 100) / 100 };
+}
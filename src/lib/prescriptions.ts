@@ -0,0 +1,68 @@
+import { roundWeight, weightForPercentage } from './oneRepMax';
+import type { IntensityType, WorkoutExercise } from '../types/workout';
+
+export const DEFAULT_INTENSITY_TYPE: IntensityType = 'absolute';
+
+export const INTENSITY_TYPES: { value: IntensityType; label: string }[] = [
+  { value: 'absolute', label: 'Fixed weight' },
+  { value: 'percentage', label: '% of 1RM' },
+  { value: 'rpe', label: 'RPE' },
+];
+
+export const RPE_OPTIONS = [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+
+type IntensityPrescription = Pick<
+  WorkoutExercise,
+  'exercise_id' | 'sets' | 'reps' | 'intensity_type' | 'percentage' | 'percentage_of_exercise_id' | 'rpe'
+>;
+
+export function getIntensityType(exercise?: Partial<Pick<WorkoutExercise, 'intensity_type'>> | null): IntensityType {
+  return exercise?.intensity_type || DEFAULT_INTENSITY_TYPE;
+}
+
+export function isRelativeIntensity(exercise?: Partial<Pick<WorkoutExercise, 'intensity_type'>> | null) {
+  return getIntensityType(exercise) !== 'absolute';
+}
+
+// The lift whose 1RM a relative prescription is worked from, e.g. front squat at 70% of back squat.
+export function getBaseExerciseId(exercise: Pick<WorkoutExercise, 'exercise_id' | 'percentage_of_exercise_id'>) {
+  return exercise.percentage_of_exercise_id || exercise.exercise_id;
+}
+
+// RPE 10 leaves no reps in reserve, so 5 reps @ RPE 8 is treated as a 7-rep max
+// and inverted through Epley.
+export function rpePercentage(reps: number, rpe: number) {
+  const repsToFailure = Math.max(1, reps + (10 - rpe));
+  return repsToFailure === 1 ? 100 : 100 / (1 + repsToFailure / 30);
+}
+
+export function prescribedWeight(exercise: IntensityPrescription, oneRepMax: number): number | null {
+  if (!oneRepMax) return null;
+
+  switch (getIntensityType(exercise)) {
+    case 'percentage':
+      return exercise.percentage ? weightForPercentage(oneRepMax, exercise.percentage) : null;
+    case 'rpe':
+      return exercise.rpe ? roundWeight((oneRepMax * rpePercentage(exercise.reps || 1, exercise.rpe)) / 100) : null;
+    default:
+      return null;
+  }
+}
+
+export function describeIntensity(exercise: IntensityPrescription, baseExerciseName?: string): string {
+  const volume = exercise.sets && exercise.reps ? `${exercise.sets}×${exercise.reps}` : '';
+
+  switch (getIntensityType(exercise)) {
+    case 'percentage':
+      if (!exercise.percentage) return volume;
+      return [
+        volume,
+        `@ ${exercise.percentage}%`,
+        exercise.percentage_of_exercise_id && baseExerciseName ? `of ${baseExerciseName} 1RM` : 'of 1RM',
+      ].filter(Boolean).join(' ');
+    case 'rpe':
+      return exercise.rpe ? [volume, `@ RPE ${exercise.rpe}`].filter(Boolean).join(' ') : volume;
+    default:
+      return volume;
+  }
+}
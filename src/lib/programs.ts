@@ -0,0 +1,37 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { ProgramWorkout } from '../types/workout';
+
+export const DAYS_PER_WEEK = 7;
+
+export interface ProgramCompletion {
+  completed: number;
+  total: number;
+  percent: number;
+}
+
+export function sortProgramWorkouts<T extends Pick<ProgramWorkout, 'week' | 'day' | 'order_index'>>(workouts: T[]): T[] {
+  return [...workouts].sort((a, b) => a.week - b.week || a.day - b.day || a.order_index - b.order_index);
+}
+
+// Days are counted from the start date, so day 1 of week 1 is the day the
+// member starts, whatever weekday that is.
+export function programDate(startDate: string, week: number, day: number): string {
+  const offset = (week - 1) * DAYS_PER_WEEK + (day - 1);
+  return format(addDays(parseISO(startDate), offset), 'yyyy-MM-dd');
+}
+
+// The program week a date falls in, clamped to the length of the program.
+export function currentProgramWeek(startDate: string, weeks: number, today = new Date()): number {
+  const elapsed = differenceInCalendarDays(today, parseISO(startDate));
+  return Math.min(weeks, Math.max(1, Math.floor(elapsed / DAYS_PER_WEEK) + 1));
+}
+
+export function programCompletion(completedFlags: boolean[]): ProgramCompletion {
+  const total = completedFlags.length;
+  const completed = completedFlags.filter(Boolean).length;
+  return {
+    completed,
+    total,
+    percent: total > 0 ? Math.round((completed / total) * 100) : 0,
+  };
+}
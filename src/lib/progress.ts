@@ -0,0 +1,91 @@
+import { subMonths } from 'date-fns';
+import { DEFAULT_ONE_RM_FORMULA, bestOneRepMax, roundWeight, type OneRepMaxFormula } from './oneRepMax';
+import type { Measure } from './units';
+
+export type ProgressSeries = 'max_weight' | 'estimated_1rm' | 'volume' | 'distance' | 'calories';
+
+export type ProgressRange = '1m' | '3m' | '6m' | '1y' | 'all';
+
+// Series are built from stored pounds and meters and converted for display.
+export const PROGRESS_SERIES: Record<ProgressSeries, { label: string; measure: Measure }> = {
+  max_weight: { label: 'Max Weight', measure: 'weight' },
+  estimated_1rm: { label: 'Estimated 1RM', measure: 'weight' },
+  volume: { label: 'Total Volume', measure: 'weight' },
+  distance: { label: 'Best Distance', measure: 'distance' },
+  calories: { label: 'Best Calories', measure: 'count' },
+};
+
+export const PROGRESS_RANGES: { value: ProgressRange; label: string; months: number | null }[] = [
+  { value: '1m', label: '1M', months: 1 },
+  { value: '3m', label: '3M', months: 3 },
+  { value: '6m', label: '6M', months: 6 },
+  { value: '1y', label: '1Y', months: 12 },
+  { value: 'all', label: 'All', months: null },
+];
+
+export interface ProgressSet {
+  weight: number | null;
+  reps: number | null;
+  distance?: number | null;
+  calories?: number | null;
+}
+
+// All sets of one exercise logged in a single workout log.
+export interface ProgressSession {
+  completed_at: string;
+  sets: ProgressSet[];
+}
+
+export interface ProgressPoint {
+  date: string;
+  value: number;
+  isPr: boolean;
+}
+
+const max = (values: number[]) => values.reduce((best, value) => Math.max(best, value), 0);
+
+export function sessionValue(series: ProgressSeries, sets: ProgressSet[], formula: OneRepMaxFormula = DEFAULT_ONE_RM_FORMULA) {
+  switch (series) {
+    case 'max_weight':
+      return max(sets.map((set) => Number(set.weight) || 0));
+    case 'estimated_1rm':
+      return roundWeight(bestOneRepMax(sets, formula)?.estimate || 0);
+    case 'volume':
+      return sets.reduce((total, set) => total + (Number(set.weight) || 0) * (Number(set.reps) || 0), 0);
+    case 'distance':
+      return max(sets.map((set) => Number(set.distance) || 0));
+    case 'calories':
+      return max(sets.map((set) => Number(set.calories) || 0));
+  }
+}
+
+// PRs are flagged against all earlier sessions, so narrowing the range afterwards
+// never turns an old best into a new "PR".
+export function buildProgress(
+  sessions: ProgressSession[],
+  series: ProgressSeries,
+  formula: OneRepMaxFormula = DEFAULT_ONE_RM_FORMULA
+): ProgressPoint[] {
+  let best = 0;
+  return [...sessions]
+    .sort((a, b) => a.completed_at.localeCompare(b.completed_at))
+    .map((session) => ({ date: session.completed_at, value: sessionValue(series, session.sets, formula) }))
+    .filter((point) => point.value > 0)
+    .map((point, index) => {
+      const isPr = index > 0 && point.value > best;
+      best = Math.max(best, point.value);
+      return { ...point, isPr };
+    });
+}
+
+export function availableSeries(sessions: ProgressSession[]): ProgressSeries[] {
+  const sets = sessions.flatMap((session) => session.sets);
+  return (Object.keys(PROGRESS_SERIES) as ProgressSeries[]).filter((series) => sessionValue(series, sets) > 0);
+}
+
+export function filterByRange(points: ProgressPoint[], range: ProgressRange, now = new Date()) {
+  const months = PROGRESS_RANGES.find((option) => option.value === range)?.months;
+  if (!months) return points;
+  const start = subMonths(now, months).toISOString();
+  return points.filter((point) => point.date >= start);
+}
@@ -0,0 +1,93 @@
+import { supabase } from './supabase';
+
+export type RealtimeMode = 'supabase' | 'local';
+
+export type RealtimeEvent = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface RealtimeChange {
+  table: string;
+  eventType: RealtimeEvent;
+  new: Record<string, unknown>;
+  old: Record<string, unknown>;
+}
+
+type ChangeListener = (change: RealtimeChange) => void;
+
+// `local` stands in for Supabase realtime during development, when the project
+// has no replication set up: writes made in this browser are broadcast to its
+// other tabs instead of coming back from the database.
+export const REALTIME_MODE: RealtimeMode =
+  import.meta.env.VITE_REALTIME_MODE === 'local' ? 'local' : 'supabase';
+
+const LOCAL_CHANNEL = 'primal-lifts-realtime';
+
+// Same-tab listeners; BroadcastChannel never delivers to the tab that posted
+const localListeners = new Set<ChangeListener>();
+let localChannel: BroadcastChannel | null = null;
+
+function getLocalChannel() {
+  if (!localChannel && typeof BroadcastChannel !== 'undefined') {
+    localChannel = new BroadcastChannel(LOCAL_CHANNEL);
+    localChannel.onmessage = (event: MessageEvent<RealtimeChange>) => {
+      localListeners.forEach((listener) => listener(event.data));
+    };
+  }
+  return localChannel;
+}
+
+// Announces a write in local mode. A no-op against Supabase, where the
+// database reports its own changes.
+export function publishChange(
+  table: string,
+  eventType: RealtimeEvent,
+  row: Record<string, unknown>
+) {
+  if (REALTIME_MODE !== 'local') return;
+
+  const change: RealtimeChange = {
+    table,
+    eventType,
+    new: eventType === 'DELETE' ? {} : row,
+    old: eventType === 'DELETE' ? row : {},
+  };
+  getLocalChannel()?.postMessage(change);
+  localListeners.forEach((listener) => listener(change));
+}
+
+let channelCount = 0;
+
+// Calls `onChange` for every insert, update and delete on the given tables
+// until the returned function is called.
+export function subscribeToTables(tables: string[], onChange: ChangeListener): () => void {
+  if (REALTIME_MODE === 'local') {
+    getLocalChannel();
+    const listener: ChangeListener = (change) => {
+      if (tables.includes(change.table)) onChange(change);
+    };
+    localListeners.add(listener);
+    return () => {
+      localListeners.delete(listener);
+    };
+  }
+
+  const channel = supabase.channel(`realtime:${tables.join(',')}:${++channelCount}`);
+  tables.forEach((table) => {
+    channel.on('postgres_changes', { event: '*', schema: 'public', table }, (payload) => {
+      onChange({
+        table,
+        eventType: payload.eventType,
+        new: payload.new as Record<string, unknown>,
+        old: payload.old as Record<string, unknown>,
+      });
+    });
+  });
+  channel.subscribe((status) => {
+    if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+      console.error(`Realtime subscription to ${tables.join(', ')} failed:`, status);
+    }
+  });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
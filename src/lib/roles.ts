@@ -0,0 +1,21 @@
+export type Role = 'admin' | 'coach' | 'member';
+
+export const DEFAULT_ROLE: Role = 'member';
+
+export const ROLES: { value: Role; label: string; description: string }[] = [
+  { value: 'member', label: 'Member', description: 'Logs workouts and follows programs' },
+  { value: 'coach', label: 'Coach', description: 'Programs workouts, WODs and training cycles' },
+  { value: 'admin', label: 'Admin', description: 'Manages users, exercises and app settings' },
+];
+
+// Profiles created before roles were introduced were stored as `user`.
+export function getRole(value: string | null | undefined): Role {
+  return ROLES.some((role) => role.value === value) ? (value as Role) : DEFAULT_ROLE;
+}
+
+export function getRoleLabel(role: Role): string {
+  return ROLES.find((option) => option.value === role)?.label ?? role;
+}
+
+// Admins can do everything a coach can.
+export const isStaffRole = (role: Role | null) => role === 'coach' || role === 'admin';
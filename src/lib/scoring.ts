@@ -0,0 +1,125 @@
+import type { Measure } from './units';
+import type { Exercise, ExerciseLog, LoggedSet, ScoringMetric, WorkoutExercise } from '../types/workout';
+
+export const DEFAULT_SCORING_METRIC: ScoringMetric = 'max_load';
+
+export const SCORING_METRICS: { value: ScoringMetric; label: string }[] = [
+  { value: 'max_load', label: 'Max load (heaviest set)' },
+  { value: 'load_volume', label: 'Load volume (weight × reps)' },
+  { value: 'distance', label: 'Distance' },
+  { value: 'calories', label: 'Calories' },
+  { value: 'time', label: 'Time' },
+  { value: 'reps', label: 'Reps' },
+];
+
+export interface WorkoutResult {
+  score: number;
+  total: number;
+}
+
+export function getScoringMetric(exercise?: Pick<Exercise, 'scoring_metric'> | null): ScoringMetric {
+  return exercise?.scoring_metric || DEFAULT_SCORING_METRIC;
+}
+
+export function isLoadMetric(metric: ScoringMetric) {
+  return metric === 'max_load' || metric === 'load_volume';
+}
+
+const toNumber = (value: number | string | null | undefined) => {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : 0;
+};
+
+const sum = (sets: LoggedSet[], pick: (set: LoggedSet) => number) =>
+  sets.reduce((total, set) => total + pick(set), 0);
+
+const volume = (sets: LoggedSet[]) =>
+  sum(sets, (set) => toNumber(set.weight) * toNumber(set.reps));
+
+// Headline value for a single exercise, e.g. the heaviest set for a max-load lift.
+export function scoreSets(metric: ScoringMetric, sets: LoggedSet[]): number {
+  switch (metric) {
+    case 'max_load':
+      return sets.reduce((max, set) => Math.max(max, toNumber(set.weight)), 0);
+    case 'load_volume':
+      return volume(sets);
+    case 'distance':
+      return sum(sets, (set) => toNumber(set.distance));
+    case 'calories':
+      return sum(sets, (set) => toNumber(set.calories));
+    case 'time':
+      return sum(sets, (set) => toNumber(set.time));
+    case 'reps':
+      return sum(sets, (set) => toNumber(set.reps));
+  }
+}
+
+// Cumulative work for a single exercise. Load metrics always count volume so
+// that heavy singles and high-rep sets contribute to the same leaderboard total.
+export function totalSets(metric: ScoringMetric, sets: LoggedSet[]): number {
+  return isLoadMetric(metric) ? volume(sets) : scoreSets(metric, sets);
+}
+
+// Logs are matched to the workout exercise they were logged against, so
+// reordering the workout's exercises doesn't score sets under the wrong one.
+export function calculateWorkoutResult(
+  exercises: WorkoutExercise[] | undefined,
+  logs: ExerciseLog[]
+): WorkoutResult {
+  return logs.reduce(
+    (result, log) => {
+      const exercise = exercises?.find((candidate) => candidate.id === log.workout_exercise_id);
+      if (!exercise) return result;
+
+      const metric = getScoringMetric(exercise.exercise);
+      return {
+        score: result.score + scoreSets(metric, log.sets),
+        total: result.total + totalSets(metric, log.sets),
+      };
+    },
+    { score: 0, total: 0 }
+  );
+}
+
+// What a metric's scores are stored in: pounds for load metrics, meters for distance
+export function metricMeasure(metric: ScoringMetric): Measure {
+  if (isLoadMetric(metric)) return 'weight';
+  if (metric === 'distance') return 'distance';
+  return 'count';
+}
+
+export function lowerIsBetter(metric: ScoringMetric) {
+  return metric === 'time';
+}
+
+// A workout's total ranks lowest first only when every exercise is scored that
+// way; a mix of metrics ranks highest first.
+export function totalLowerIsBetter(exercises: { exercise?: Pick<Exercise, 'scoring_metric'> | null }[] | null | undefined) {
+  return !!exercises?.length && exercises.every((exercise) => lowerIsBetter(getScoringMetric(exercise.exercise)));
+}
+
+// Value of a single set for the given metric, used to pick records.
+export function setValue(metric: ScoringMetric, set: LoggedSet): number {
+  switch (metric) {
+    case 'max_load':
+    case 'load_volume':
+      return toNumber(set.weight);
+    case 'distance':
+      return toNumber(set.distance);
+    case 'calories':
+      return toNumber(set.calories);
+    case 'time':
+      return toNumber(set.time);
+    case 'reps':
+      return toNumber(set.reps);
+  }
+}
+
+export function pickBestSet<T extends LoggedSet>(metric: ScoringMetric, sets: T[]): T | undefined {
+  const candidates = sets.filter((set) => setValue(metric, set) > 0);
+  return candidates.reduce<T | undefined>((best, current) => {
+    if (!best) return current;
+    const diff = setValue(metric, current) - setValue(metric, best);
+    return (lowerIsBetter(metric) ? diff < 0 : diff > 0) ? current : best;
+  }, undefined);
+}
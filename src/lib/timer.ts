@@ -0,0 +1,155 @@
+import { getWorkoutFormat } from './workoutFormats';
+import type { Workout } from '../types/workout';
+
+export type TimerMode = 'count_up' | 'countdown' | 'emom' | 'tabata';
+
+export interface TimerConfig {
+  mode: TimerMode;
+  // Cap for count-up, length for countdown; unused by interval modes
+  duration_seconds: number | null;
+  rounds: number;
+  work_seconds: number;
+  rest_seconds: number;
+}
+
+export type TimerPhase = 'work' | 'rest' | 'done';
+
+export interface TimerState {
+  phase: TimerPhase;
+  // 1-based; always 1 outside the interval modes
+  round: number;
+  // Seconds shown on the clock: elapsed for count-up, remaining otherwise
+  display: number;
+  // Seconds left in the current phase, null when the clock has no end
+  remaining: number | null;
+}
+
+export const TIMER_MODES: { value: TimerMode; label: string }[] = [
+  { value: 'count_up', label: 'Count Up' },
+  { value: 'countdown', label: 'Countdown' },
+  { value: 'emom', label: 'EMOM' },
+  { value: 'tabata', label: 'Tabata' },
+];
+
+// Seconds the final cue beeps for before a phase ends
+export const CUE_SECONDS = 3;
+
+// Starts the clock from the workout's own format so most WODs need no setup.
+export function timerConfigFor(workout?: Pick<Workout, 'format' | 'time_cap_seconds' | 'rounds' | 'interval_seconds' | 'rest_seconds'> | null): TimerConfig {
+  const base: TimerConfig = { mode: 'count_up', duration_seconds: null, rounds: 8, work_seconds: 60, rest_seconds: 0 };
+
+  switch (getWorkoutFormat(workout)) {
+    case 'for_time':
+      return { ...base, duration_seconds: workout?.time_cap_seconds ?? null };
+    case 'amrap':
+      return { ...base, mode: 'countdown', duration_seconds: workout?.time_cap_seconds || 12 * 60 };
+    case 'emom':
+      return { ...base, mode: 'emom', rounds: workout?.rounds || 10, work_seconds: workout?.interval_seconds || 60 };
+    case 'tabata':
+      return {
+        ...base,
+        mode: 'tabata',
+        rounds: workout?.rounds || 8,
+        work_seconds: workout?.interval_seconds || 20,
+        rest_seconds: workout?.rest_seconds ?? 10,
+      };
+    default:
+      return base;
+  }
+}
+
+// Total length of the clock, or null when it counts up without a cap.
+export function timerLength(config: TimerConfig): number | null {
+  switch (config.mode) {
+    case 'count_up':
+      return config.duration_seconds || null;
+    case 'countdown':
+      return config.duration_seconds || 0;
+    case 'emom':
+      return config.rounds * config.work_seconds;
+    case 'tabata':
+      return config.rounds * (config.work_seconds + config.rest_seconds);
+  }
+}
+
+export function timerState(config: TimerConfig, elapsed: number): TimerState {
+  const length = timerLength(config);
+  if (length != null && elapsed >= length) {
+    const intervals = config.mode === 'emom' || config.mode === 'tabata';
+    return {
+      phase: 'done',
+      round: intervals ? config.rounds : 1,
+      display: config.mode === 'count_up' ? length : 0,
+      remaining: 0,
+    };
+  }
+
+  switch (config.mode) {
+    case 'count_up':
+      return { phase: 'work', round: 1, display: elapsed, remaining: length != null ? length - elapsed : null };
+    case 'countdown':
+      return { phase: 'work', round: 1, display: (length || 0) - elapsed, remaining: (length || 0) - elapsed };
+    case 'emom': {
+      const remaining = config.work_seconds - (elapsed % config.work_seconds);
+      return { phase: 'work', round: Math.floor(elapsed / config.work_seconds) + 1, display: remaining, remaining };
+    }
+    case 'tabata': {
+      const cycle = config.work_seconds + config.rest_seconds;
+      const into = elapsed % cycle;
+      const working = into < config.work_seconds;
+      const remaining = working ? config.work_seconds - into : cycle - into;
+      return { phase: working ? 'work' : 'rest', round: Math.floor(elapsed / cycle) + 1, display: remaining, remaining };
+    }
+  }
+}
+
+export type TimerCue = 'tick' | 'go' | 'end';
+
+const CUE_TONES: Record<TimerCue, { frequency: number; duration: number }> = {
+  tick: { frequency: 660, duration: 0.15 },
+  go: { frequency: 880, duration: 0.4 },
+  end: { frequency: 440, duration: 0.8 },
+};
+
+let audioContext: AudioContext | null = null;
+
+// Browsers only allow audio after a user gesture, so call this from the start button.
+export function unlockTimerAudio() {
+  if (!audioContext && typeof AudioContext !== 'undefined') {
+    audioContext = new AudioContext();
+  }
+  audioContext?.resume().catch(() => {});
+}
+
+export function playTimerCue(cue: TimerCue) {
+  if (!audioContext) return;
+
+  const { frequency, duration } = CUE_TONES[cue];
+  const oscillator = audioContext.createOscillator();
+  const gain = audioContext.createGain();
+  oscillator.frequency.value = frequency;
+  gain.gain.setValueAtTime(0.3, audioContext.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + duration);
+  oscillator.connect(gain).connect(audioContext.destination);
+  oscillator.start();
+  oscillator.stop(audioContext.currentTime + duration);
+}
+
+// Rest after a set when the workout doesn't prescribe one
+export const DEFAULT_REST_SECONDS = 90;
+
+// Asks once for permission so rest alerts still reach an athlete who has
+// switched apps. Call it from a click, where browsers allow the prompt.
+export function requestRestAlerts() {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {});
+  }
+}
+
+export function alertRestOver() {
+  playTimerCue('end');
+  navigator.vibrate?.([200, 100, 200]);
+  if (document.visibilityState === 'hidden' && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+    new Notification('Rest is over', { body: 'Time for your next set.' });
+  }
+}
@@ -0,0 +1,86 @@
+import { roundWeight } from './oneRepMax';
+
+export type WeightUnit = 'lb' | 'kg';
+
+export type DistanceUnit = 'm' | 'km' | 'mi';
+
+export interface UnitPreferences {
+  weight_unit: WeightUnit;
+  distance_unit: DistanceUnit;
+}
+
+export const DEFAULT_UNITS: UnitPreferences = {
+  weight_unit: 'lb',
+  distance_unit: 'm',
+};
+
+export const WEIGHT_UNITS: { value: WeightUnit; label: string }[] = [
+  { value: 'lb', label: 'Pounds (lb)' },
+  { value: 'kg', label: 'Kilograms (kg)' },
+];
+
+export const DISTANCE_UNITS: { value: DistanceUnit; label: string }[] = [
+  { value: 'm', label: 'Meters (m)' },
+  { value: 'km', label: 'Kilometers (km)' },
+  { value: 'mi', label: 'Miles (mi)' },
+];
+
+// Weights are stored in pounds and distances in meters; these are the factors
+// from each unit to the stored one.
+const POUNDS_PER: Record<WeightUnit, number> = { lb: 1, kg: 2.2046226218 };
+const METERS_PER: Record<DistanceUnit, number> = { m: 1, km: 1000, mi: 1609.344 };
+const DISTANCE_DECIMALS: Record<DistanceUnit, number> = { m: 0, km: 2, mi: 2 };
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export function getWeightUnit(value?: string | null): WeightUnit {
+  return value === 'kg' ? 'kg' : DEFAULT_UNITS.weight_unit;
+}
+
+export function getDistanceUnit(value?: string | null): DistanceUnit {
+  return value === 'km' || value === 'mi' ? value : DEFAULT_UNITS.distance_unit;
+}
+
+// Stored values keep two decimals so a kilogram entry reads back unchanged.
+export function toStoredWeight(value: number, unit: WeightUnit): number {
+  return round(value * POUNDS_PER[unit], 2);
+}
+
+export function fromStoredWeight(pounds: number, unit: WeightUnit): number {
+  return round(pounds / POUNDS_PER[unit], 1);
+}
+
+export function toStoredDistance(value: number, unit: DistanceUnit): number {
+  return round(value * METERS_PER[unit], 2);
+}
+
+export function fromStoredDistance(meters: number, unit: DistanceUnit): number {
+  return round(meters / METERS_PER[unit], DISTANCE_DECIMALS[unit]);
+}
+
+// Rounded to the nearest half unit, the smallest plate jump worth showing.
+export function formatWeight(pounds: number | null | undefined, unit: WeightUnit): string {
+  return `${roundWeight(Number(pounds || 0) / POUNDS_PER[unit])} ${unit}`;
+}
+
+export function formatDistance(meters: number | null | undefined, unit: DistanceUnit): string {
+  return `${fromStoredDistance(Number(meters || 0), unit)} ${unit}`;
+}
+
+// What a value measures, for values that may be a weight, a distance or neither.
+export type Measure = 'weight' | 'distance' | 'count';
+
+export function measureUnit(measure: Measure, units: UnitPreferences, countUnit = ''): string {
+  if (measure === 'weight') return units.weight_unit;
+  if (measure === 'distance') return units.distance_unit;
+  return countUnit;
+}
+
+export function fromStoredMeasure(measure: Measure, value: number, units: UnitPreferences): number {
+  if (measure === 'weight') return fromStoredWeight(value, units.weight_unit);
+  if (measure === 'distance') return fromStoredDistance(value, units.distance_unit);
+  return value;
+}
@@ -0,0 +1,50 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from './supabase';
+import type { Workout } from '../types/workout';
+
+export interface WorkoutCopy {
+  // The source workout, with its `workout_exercises` loaded
+  workout: Workout;
+  changes: Partial<Workout>;
+}
+
+// Inserts copies of workouts and their exercises under new ids. Undefined keys
+// are left out of the insert, so timestamps fall back to their defaults.
+export async function insertWorkoutCopies(copies: WorkoutCopy[]) {
+  const rows = copies.map(({ workout, changes }) => {
+    const { workout_exercises, ...fields } = workout;
+    const id = uuidv4();
+    return {
+      workout: {
+        ...fields,
+        ...changes,
+        id,
+        created_at: undefined,
+        updated_at: undefined,
+      },
+      exercises: (workout_exercises || []).map((exercise) => ({
+        ...exercise,
+        id: uuidv4(),
+        workout_id: id,
+        exercise: undefined,
+        created_at: undefined,
+      })),
+    };
+  });
+  if (rows.length === 0) return;
+
+  const { error: workoutsError } = await supabase
+    .from('workouts')
+    .insert(rows.map((row) => row.workout));
+
+  if (workoutsError) throw workoutsError;
+
+  const exercises = rows.flatMap((row) => row.exercises);
+  if (exercises.length === 0) return;
+
+  const { error: exercisesError } = await supabase
+    .from('workout_exercises')
+    .insert(exercises);
+
+  if (exercisesError) throw exercisesError;
+}
@@ -0,0 +1,165 @@
+import { formatDuration } from './duration';
+import { getScoringMetric, metricMeasure } from './scoring';
+import { DEFAULT_UNITS, formatDistance, formatWeight, type UnitPreferences } from './units';
+import type { Exercise, Workout, WorkoutFormat, WorkoutLog } from '../types/workout';
+
+export type FormatParam = 'time_cap_seconds' | 'rounds' | 'interval_seconds' | 'rest_seconds';
+
+export type FormatParams = Pick<Workout, FormatParam>;
+
+export type FormatResult = Pick<WorkoutLog, 'result_time_seconds' | 'result_rounds' | 'result_reps'>;
+
+interface WorkoutFormatDefinition {
+  label: string;
+  description: string;
+  params: FormatParam[];
+  defaults: Partial<FormatParams>;
+}
+
+export const DEFAULT_WORKOUT_FORMAT: WorkoutFormat = 'standard';
+
+export const WORKOUT_FORMATS: Record<WorkoutFormat, WorkoutFormatDefinition> = {
+  standard: {
+    label: 'Sets & Reps',
+    description: 'Scored from the logged sets of each exercise.',
+    params: [],
+    defaults: {},
+  },
+  for_time: {
+    label: 'For Time',
+    description: 'Complete the work as fast as possible. Lower time wins.',
+    params: ['rounds', 'time_cap_seconds'],
+    defaults: {},
+  },
+  amrap: {
+    label: 'AMRAP',
+    description: 'As many rounds and reps as possible before the clock runs out.',
+    params: ['time_cap_seconds'],
+    defaults: { time_cap_seconds: 12 * 60 },
+  },
+  emom: {
+    label: 'EMOM',
+    description: 'Start the work at the top of every interval.',
+    params: ['rounds', 'interval_seconds'],
+    defaults: { rounds: 10, interval_seconds: 60 },
+  },
+  tabata: {
+    label: 'Tabata',
+    description: 'Work and rest intervals, scored by total reps.',
+    params: ['rounds', 'interval_seconds', 'rest_seconds'],
+    defaults: { rounds: 8, interval_seconds: 20, rest_seconds: 10 },
+  },
+};
+
+export const EMPTY_FORMAT_RESULT: FormatResult = {
+  result_time_seconds: null,
+  result_rounds: null,
+  result_reps: null,
+};
+
+export function getWorkoutFormat(workout?: Pick<Workout, 'format'> | null): WorkoutFormat {
+  return workout?.format || DEFAULT_WORKOUT_FORMAT;
+}
+
+export function hasFormatResult(format: WorkoutFormat) {
+  return format !== 'standard';
+}
+
+// Fills in the format's default parameters without overwriting values the coach set.
+export function applyFormatDefaults(format: WorkoutFormat, params: FormatParams): FormatParams {
+  const { defaults } = WORKOUT_FORMATS[format];
+  return {
+    time_cap_seconds: params.time_cap_seconds ?? defaults.time_cap_seconds ?? null,
+    rounds: params.rounds ?? defaults.rounds ?? null,
+    interval_seconds: params.interval_seconds ?? defaults.interval_seconds ?? null,
+    rest_seconds: params.rest_seconds ?? defaults.rest_seconds ?? null,
+  };
+}
+
+// A single number stored as the log's score/total so older views keep working.
+export function formatResultScore(workout: Workout, result: FormatResult): number {
+  const rounds = result.result_rounds || 0;
+  const reps = result.result_reps || 0;
+
+  switch (getWorkoutFormat(workout)) {
+    case 'for_time':
+      return result.result_time_seconds || reps;
+    case 'amrap': {
+      const repsPerRound = (workout.workout_exercises || [])
+        .reduce((total, exercise) => total + (exercise.reps || 0), 0);
+      return rounds * repsPerRound + reps;
+    }
+    case 'emom':
+      return rounds;
+    default:
+      return reps;
+  }
+}
+
+// Negative when `a` ranks above `b`.
+export function compareResults(format: WorkoutFormat, a: FormatResult, b: FormatResult): number {
+  switch (format) {
+    case 'for_time': {
+      // Finishers rank ahead of capped athletes, who are ranked by reps completed.
+      const aTime = a.result_time_seconds || 0;
+      const bTime = b.result_time_seconds || 0;
+      if (aTime && bTime) return aTime - bTime;
+      if (aTime || bTime) return aTime ? -1 : 1;
+      return (b.result_reps || 0) - (a.result_reps || 0);
+    }
+    case 'amrap':
+    case 'emom':
+      return (b.result_rounds || 0) - (a.result_rounds || 0)
+        || (b.result_reps || 0) - (a.result_reps || 0);
+    default:
+      return (b.result_reps || 0) - (a.result_reps || 0);
+  }
+}
+
+export function describeResult(format: WorkoutFormat, result: FormatResult): string {
+  switch (format) {
+    case 'for_time':
+      if (result.result_time_seconds) return formatDuration(result.result_time_seconds);
+      return result.result_reps != null ? `CAP + ${result.result_reps} reps` : 'No result';
+    case 'amrap':
+      return `${result.result_rounds || 0} rounds + ${result.result_reps || 0} reps`;
+    case 'emom':
+      return `${result.result_rounds || 0} rounds`;
+    default:
+      return `${result.result_reps || 0} reps`;
+  }
+}
+
+// Imported logs have no workout and are named by their own title.
+export function getLogTitle(log: Pick<WorkoutLog, 'title'> & { workout?: Pick<Workout, 'name'> | null }): string {
+  return log.workout?.name || log.title || 'Workout';
+}
+
+export type ScoredExercise = { exercise?: Pick<Exercise, 'scoring_metric'> | null };
+
+// A standard workout's total in the viewer's units. The total only has a unit
+// when every exercise is scored in the same one; a mix is shown as stored.
+export function describeTotal(
+  total: number,
+  exercises: ScoredExercise[] | null | undefined,
+  units: UnitPreferences = DEFAULT_UNITS
+): string {
+  const measures = new Set((exercises || []).map((exercise) => metricMeasure(getScoringMetric(exercise.exercise))));
+  const [measure] = measures.size === 1 ? Array.from(measures) : ['count'];
+  if (measure === 'weight') return `Score: ${formatWeight(total, units.weight_unit)}`;
+  if (measure === 'distance') return `Score: ${formatDistance(total, units.distance_unit)}`;
+  return `Score: ${total}`;
+}
+
+// A log's headline result: the format result where the format has one, the scored total otherwise.
+export function describeLogResult(
+  log: FormatResult & Pick<WorkoutLog, 'total'> & {
+    workout?: (Pick<Workout, 'format'> & { workout_exercises?: ScoredExercise[] }) | null;
+  },
+  units: UnitPreferences = DEFAULT_UNITS
+): string {
+  const format = getWorkoutFormat(log.workout);
+  return hasFormatResult(format)
+    ? describeResult(format, log)
+    : describeTotal(log.total, log.workout?.workout_exercises, units);
+}
@@ -0,0 +1,135 @@
+import { supabase } from './supabase';
+import { recordPersonalRecords, type NewPersonalRecord } from './personalRecords';
+import { publishChange } from './realtime';
+import type { FormatResult } from './workoutFormats';
+import type { Division, Workout } from '../types/workout';
+
+export interface WorkoutLogRow extends FormatResult {
+  id: string;
+  user_id: string;
+  workout_id: string;
+  notes: string;
+  score: number;
+  total: number;
+  division: Division;
+  completed_at: string;
+  in_progress?: boolean;
+}
+
+export interface ExerciseScoreRow {
+  id: string;
+  user_id: string;
+  workout_log_id: string;
+  exercise_id: string;
+  // Entry of the workout the set was logged against; a movement can appear more than once
+  workout_exercise_id?: string | null;
+  weight: number | null;
+  reps: number;
+  distance?: number;
+  time?: number | null;
+  calories?: number;
+  completed_at?: string | null;
+  rest_seconds?: number | null;
+  // Position of the set within its exercise in the log
+  set_index?: number | null;
+}
+
+// Everything needed to write one logged workout. Rows carry client-generated ids
+// so the same submission can be replayed safely after a failed or offline save.
+export interface WorkoutLogSubmission {
+  workout: Pick<Workout, 'id' | 'name' | 'format'>;
+  log: WorkoutLogRow;
+  scores: ExerciseScoreRow[];
+  deleted_score_ids: string[];
+}
+
+export function isNetworkError(error: unknown) {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error || (error && typeof error === 'object' && 'message' in error)
+    ? String((error as { message: unknown }).message)
+    : String(error);
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+// Saves one set of a live session as it's done. The log is created with the
+// first set and left untouched after that; finishing the session overwrites it.
+export async function saveLiveSet(log: WorkoutLogRow, score: ExerciseScoreRow) {
+  const { error: logError } = await supabase
+    .from('workout_logs')
+    .upsert({ ...log, in_progress: true }, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (logError) throw logError;
+  publishChange('workout_logs', 'UPDATE', { ...log, in_progress: true });
+
+  const { error: scoreError } = await supabase
+    .from('exercise_scores')
+    .upsert(score, { onConflict: 'id' });
+
+  if (scoreError) throw scoreError;
+}
+
+// Removes sets deleted from a live session so they don't come back on resume.
+export async function deleteLiveSets(scoreIds: string[]) {
+  const { error } = await supabase
+    .from('exercise_scores')
+    .delete()
+    .in('id', scoreIds);
+
+  if (error) throw error;
+}
+
+// Removes an abandoned live session and the sets saved so far.
+export async function discardLiveSession(logId: string) {
+  const { error: scoresError } = await supabase
+    .from('exercise_scores')
+    .delete()
+    .eq('workout_log_id', logId);
+
+  if (scoresError) throw scoresError;
+
+  const { error: logError } = await supabase
+    .from('workout_logs')
+    .delete()
+    .eq('id', logId)
+    .eq('in_progress', true);
+
+  if (logError) throw logError;
+  publishChange('workout_logs', 'DELETE', { id: logId });
+}
+
+// Writes the log and its sets, then returns the personal records they set.
+export async function saveWorkoutLog({ log, scores, deleted_score_ids }: WorkoutLogSubmission): Promise<NewPersonalRecord[]> {
+  const { error: logError } = await supabase
+    .from('workout_logs')
+    .upsert(log, { onConflict: 'id' });
+
+  if (logError) throw logError;
+  // Upserts are reported as updates; listeners refetch either way
+  publishChange('workout_logs', 'UPDATE', { ...log });
+
+  if (scores.length > 0) {
+    const { error: scoresError } = await supabase
+      .from('exercise_scores')
+      .upsert(scores, { onConflict: 'id' });
+
+    if (scoresError) throw scoresError;
+  }
+
+  if (deleted_score_ids.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('exercise_scores')
+      .delete()
+      .in('id', deleted_score_ids);
+
+    if (deleteError) throw deleteError;
+  }
+
+  try {
+    return await recordPersonalRecords(log, scores);
+  } catch (error) {
+    // The log itself is saved; only a dropped connection is worth replaying for
+    if (isNetworkError(error)) throw error;
+    console.error('Error recording personal records:', error);
+    return [];
+  }
+}
@@ -0,0 +1,16 @@
+import React from 'react';
+import { ProgrammingCalendar } from '../components/calendar/ProgrammingCalendar';
+
+export default function Calendar() {
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold dark:text-gray-100">Programming Calendar</h1>
+        <p className="text-gray-500 mt-1">
+          Drag workouts between days to reschedule them, or copy a day onto another.
+        </p>
+      </div>
+      <ProgrammingCalendar />
+    </div>
+  );
+}
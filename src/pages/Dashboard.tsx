@@ -6,10 +6,13 @@ import { LoadingSpinner } from '../components/common/LoadingSpinner';
 import type { Workout, WorkoutExercise } from '../types/workout';
 import { WeeklyExercises } from '../components/weekly/WeeklyExercises';
 import { RecentWorkouts } from '../components/dashboard/RecentWorkouts';
-import { Dumbbell, Calendar, Clock } from 'lucide-react';
+import { PersonalRecords } from '../components/dashboard/PersonalRecords';
+import { LiveSessions } from '../components/dashboard/LiveSessions';
+import { Dumbbell, Calendar, Clock, Timer } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { WorkoutLogger } from '../components/workouts/WorkoutLogger';
 import { WorkoutEditor } from '../components/workouts/WorkoutEditor';
+import { WorkoutTimer } from '../components/workouts/WorkoutTimer';
 import { parseISO } from 'date-fns';
 import { useAuth } from '../contexts/AuthContext';
 
@@ -27,9 +30,11 @@ export default function Dashboard() {
   const [exercises, setExercises] = useState<WorkoutExercise[]>([]);
   const [isLogging, setIsLogging] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
+  const [isTiming, setIsTiming] = useState(false);
+  const [timerSeconds, setTimerSeconds] = useState<number | null>(null);
   const [isCompleted, setIsCompleted] = useState(false);
   const [previousLogs, setPreviousLogs] = useState<any[]>([]);
-  const { user } = useAuth();
+  const { user, isStaff } = useAuth();
 
   useEffect(() => {
     async function fetchWOD() {
@@ -80,7 +85,7 @@ export default function Dashboard() {
       }
 
       if (data && data.length > 0) {
-        setIsCompleted(true);
+        setIsCompleted(!data[0].in_progress);
         setPreviousLogs(data);
       } else {
         setIsCompleted(false);
@@ -97,18 +102,33 @@ export default function Dashboard() {
   };
 
   const handleStartWorkout = () => {
+    setTimerSeconds(null);
     setIsLogging(true);
   };
 
   const handleViewWorkout = () => {
+    setTimerSeconds(null);
     setIsLogging(true);
     setRefreshKey(prev => prev + 1); // Trigger re-fetch by updating refreshKey
   };
 
+  const handleTimerStop = (elapsedSeconds: number) => {
+    setIsTiming(false);
+    setTimerSeconds(elapsedSeconds);
+    setIsLogging(true);
+  };
+
   const handleClose = () => {
     setIsEditing(false);
   };
 
+  // Sets saved while logging may have started a live session, which the button
+  // has to resume rather than start afresh
+  const handleLoggerClose = () => {
+    setIsLogging(false);
+    setRefreshKey(prev => prev + 1); // Trigger re-fetch by updating refreshKey
+  };
+
   const formatDate = (dateString: string | null) => {
     if (!dateString) return '';
     try {
@@ -132,6 +152,7 @@ export default function Dashboard() {
             selectedDate={selectedDate}
             onChange={setSelectedDate}
           />
+          <LiveSessions />
           {wodWorkout ? (
             <div className="bg-white dark:bg-darkBackground dark:text-gray-100 dark:text-gray-200 rounded-lg shadow-md p-6 transition-all duration-300">
               <h2 className="text-2xl font-bold dark:text-gray-100">Workout of the Day</h2>
@@ -152,11 +173,20 @@ export default function Dashboard() {
                 ))}
               </div>
               <div className="mt-6 flex justify-end space-x-4">
+                {isStaff && (
+                  <button
+                    onClick={() => setIsEditing(true)}
+                    className="text-indigo-600 hover:text-indigo-700 font-medium"
+                  >
+                    Edit
+                  </button>
+                )}
                 <button
-                  onClick={() => setIsEditing(true)}
-                  className="text-indigo-600 hover:text-indigo-700 font-medium"
+                  onClick={() => setIsTiming(true)}
+                  className="flex items-center text-indigo-600 hover:text-indigo-700 font-medium"
                 >
-                  Edit
+                  <Timer className="h-4 w-4 mr-1" />
+                  Timer
                 </button>
                 <button
                   onClick={isCompleted ? handleViewWorkout : handleStartWorkout}
@@ -166,7 +196,7 @@ export default function Dashboard() {
                       : 'bg-indigo-600 hover:bg-indigo-700'
                   }`}
                 >
-                  {isCompleted ? 'View Workout' : 'Start Workout'}
+                  {isCompleted ? 'View Workout' : previousLogs.length > 0 ? 'Resume Workout' : 'Start Workout'}
                 </button>
               </div>
             </div>
@@ -181,13 +211,23 @@ export default function Dashboard() {
         </div>
         <div className="space-y-4">
           <WeeklyExercises completedExercises={completedExercises} />
+          <PersonalRecords key={refreshKey} />
         </div>
       </div>
       {isLogging && (
         <WorkoutLogger
           workout={wodWorkout}
-          onClose={() => setIsLogging(false)}
+          onClose={handleLoggerClose}
           previousLogs={previousLogs}
+          elapsedSeconds={timerSeconds}
+        />
+      )}
+
+      {isTiming && wodWorkout && (
+        <WorkoutTimer
+          workout={wodWorkout}
+          onClose={() => setIsTiming(false)}
+          onStop={handleTimerStop}
         />
       )}
 
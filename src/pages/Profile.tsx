@@ -6,6 +6,9 @@ import React, { useState } from 'react';
     import { LoadingSpinner } from '../components/common/LoadingSpinner';
     import { useExercises } from '../hooks/useExercises';
     import { ExercisePercentages } from '../components/workouts/ExercisePercentages';
+    import { ExerciseProgress } from '../components/profile/ExerciseProgress';
+    import { PersonalRecords } from '../components/dashboard/PersonalRecords';
+    import { ProgramProgress } from '../components/programs/ProgramProgress';
 
     export default function Profile() {
       const { profile, loading } = useProfile();
@@ -39,12 +42,17 @@ import React, { useState } from 'react';
                 </select>
               </div>
               {selectedExercise && (
-                <ExercisePercentages exerciseId={selectedExercise} exerciseName={exercises.find(ex => ex.id === selectedExercise)?.name || ''} />
+                <>
+                  <ExerciseProgress exerciseId={selectedExercise} exerciseName={exercises.find(ex => ex.id === selectedExercise)?.name || ''} />
+                  <ExercisePercentages exerciseId={selectedExercise} exerciseName={exercises.find(ex => ex.id === selectedExercise)?.name || ''} />
+                </>
               )}
               <WorkoutHistory exerciseId={selectedExercise} />
             </div>
-            <div>
+            <div className="space-y-8">
               <ProfileStats />
+              <ProgramProgress userId={profile.id} />
+              <PersonalRecords userId={profile.id} />
             </div>
           </div>
         </div>
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { LoadingSpinner } from '../components/common/LoadingSpinner';
+import { ProgramCard } from '../components/programs/ProgramCard';
+import { ProgramForm } from '../components/programs/ProgramForm';
+import { ProgramProgress } from '../components/programs/ProgramProgress';
+import { usePrograms } from '../hooks/usePrograms';
+import { useAuth } from '../contexts/AuthContext';
+
+export default function Programs() {
+  const { user, isStaff } = useAuth();
+  const {
+    programs,
+    templates,
+    loading,
+    createProgram,
+    deleteProgram,
+    addProgramWorkout,
+    removeProgramWorkout,
+    startProgram,
+  } = usePrograms();
+  // Remount the progress panel after starting a program so it picks up the new enrollment
+  const [progressKey, setProgressKey] = useState(0);
+
+  if (loading) return <LoadingSpinner />;
+
+  return (
+    <div className="space-y-8">
+      <h1 className="text-3xl font-bold dark:text-gray-100">Programs</h1>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <div className="lg:col-span-2 space-y-6">
+          {isStaff && <ProgramForm onSubmit={createProgram} />}
+          {programs.map((program) => (
+            <ProgramCard
+              key={program.id}
+              program={program}
+              templates={templates}
+              onAddWorkout={addProgramWorkout}
+              onRemoveWorkout={removeProgramWorkout}
+              onStart={async (selected, startDate) => {
+                await startProgram(selected, startDate);
+                setProgressKey((key) => key + 1);
+              }}
+              onDelete={deleteProgram}
+            />
+          ))}
+          {programs.length === 0 && (
+            <p className="text-gray-500 text-center py-4">No programs yet</p>
+          )}
+        </div>
+        <div>
+          {user && <ProgramProgress key={progressKey} userId={user.id} showCurrentWeek />}
+        </div>
+      </div>
+    </div>
+  );
+}
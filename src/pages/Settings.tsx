@@ -2,10 +2,16 @@ import React from 'react';
     import { ProfileSettings } from '../components/settings/ProfileSettings';
     import { SecuritySettings } from '../components/settings/SecuritySettings';
     import { NotificationSettings } from '../components/settings/NotificationSettings';
+    import { UnitSettings } from '../components/settings/UnitSettings';
+    import { DataExport } from '../components/settings/DataExport';
+    import { HistoryImport } from '../components/settings/HistoryImport';
     import { UserManagement } from '../components/settings/UserManagement';
     import { AdminSettings } from '../components/settings/AdminSettings';
+    import { useAuth } from '../contexts/AuthContext';
     
     export default function Settings() {
+      const { isAdmin } = useAuth();
+
       return (
         <div className="space-y-8">
           <h1 className="text-3xl font-bold dark:text-gray-100">Settings</h1>
@@ -13,9 +19,16 @@ import React from 'react';
           <div className="space-y-6">
             <ProfileSettings />
             <SecuritySettings />
+            <UnitSettings />
             <NotificationSettings />
-            <UserManagement />
-            <AdminSettings />
+            <DataExport />
+            <HistoryImport />
+            {isAdmin && (
+              <>
+                <UserManagement />
+                <AdminSettings />
+              </>
+            )}
           </div>
         </div>
       );
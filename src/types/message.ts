@@ -0,0 +1,59 @@
+import type { WorkoutLog } from './workout';
+
+export type Reaction = 'like' | 'dislike';
+
+export type NotificationType = 'mention' | 'reply' | 'comment';
+
+export interface MessageReaction {
+  user_id: string;
+  reaction: Reaction;
+}
+
+export interface Message {
+  id: string;
+  content: string;
+  created_at: string;
+  edited_at: string | null;
+  profile_id: string;
+  parent_id: string | null;
+  workout_log_id: string | null;
+  is_hidden: boolean;
+  hidden_at: string | null;
+  is_pinned: boolean;
+  pinned_at: string | null;
+  profiles: {
+    profile_name: string | null;
+  } | null;
+  message_reactions: MessageReaction[];
+  workout_log?: AttachedWorkoutLog | null;
+}
+
+export type AttachedWorkoutLog = Pick<
+  WorkoutLog,
+  'id' | 'user_id' | 'completed_at' | 'total' | 'division' | 'result_time_seconds' | 'result_rounds' | 'result_reps' | 'title'
+> & {
+  workout: Pick<WorkoutLog['workout'], 'name' | 'format' | 'workout_exercises'> | null;
+};
+
+export interface MessageThread extends Message {
+  replies: Message[];
+}
+
+export interface MessageEdit {
+  id: string;
+  message_id: string;
+  content: string | null;
+  edited_at: string;
+}
+
+export interface Notification {
+  id: string;
+  user_id: string;
+  actor_id: string;
+  type: NotificationType;
+  message_id: string | null;
+  workout_log_id: string | null;
+  read_at: string | null;
+  created_at: string;
+  actor?: { profile_name: string | null } | null;
+}
@@ -1,4 +1,7 @@
-export interface Profile {
+import type { Role } from '../lib/roles';
+    import type { DistanceUnit, WeightUnit } from '../lib/units';
+
+    export interface Profile {
       id: string;
       first_name: string | null;
       last_name: string | null;
@@ -10,4 +13,7 @@ export interface Profile {
       created_at: string;
       updated_at: string;
       birthday: string | null;
+      role: Role;
+      weight_unit: WeightUnit;
+      distance_unit: DistanceUnit;
     }
@@ -1,8 +1,25 @@
+export type ScoringMetric =
+      | 'load_volume'
+      | 'max_load'
+      | 'distance'
+      | 'calories'
+      | 'time'
+      | 'reps';
+
+export type WorkoutFormat = 'standard' | 'for_time' | 'amrap' | 'emom' | 'tabata';
+
+export type Division = 'rx' | 'scaled' | 'foundations';
+
+export type IntensityType = 'absolute' | 'percentage' | 'rpe';
+
+export type PersonalRecordType = 'weight_for_reps' | 'distance' | 'calories' | 'time';
+
 export interface Exercise {
       id: string;
       name: string;
       description: string | null;
       category: string | null;
+      scoring_metric: ScoringMetric;
       created_at: string;
     }
 
@@ -13,8 +30,23 @@ export interface Exercise {
       sets: number;
       reps: number;
       weight: number | null;
+      scaled_weight: number | null;
+      scaled_notes: string | null;
+      foundations_weight: number | null;
+      foundations_notes: string | null;
+      intensity_type: IntensityType;
+      percentage: number | null;
+      percentage_of_exercise_id: string | null;
+      rpe: number | null;
+      // Prescribed rest after each set
+      rest_seconds: number | null;
+      // Letter of the superset or circuit this exercise is part of, null on its own
+      block: string | null;
+      block_rounds: number | null;
       distance?: number;
+      // Seconds
       time?: number;
+      calories?: number;
       order_index: number;
       created_at: string;
       exercise: Exercise;
@@ -28,6 +60,12 @@ export interface Exercise {
       created_by: string;
       scheduled_date: string | null;
       is_wod: boolean;
+      format: WorkoutFormat;
+      time_cap_seconds: number | null;
+      rounds: number | null;
+      interval_seconds: number | null;
+      rest_seconds: number | null;
+      program_enrollment_id?: string | null;
       created_at: string;
       updated_at: string;
       workout_exercises?: WorkoutExercise[];
@@ -40,6 +78,16 @@ export interface Exercise {
       completed_at: string;
       notes: string | null;
       score: number;
+      total: number;
+      division: Division;
+      result_time_seconds: number | null;
+      result_rounds: number | null;
+      result_reps: number | null;
+      // Session name for logs without a workout, e.g. imported history
+      title: string | null;
+      imported_at: string | null;
+      // Still being logged set by set; hidden from results until finished
+      in_progress: boolean;
       created_at: string;
       workout: Workout;
     }
@@ -52,7 +100,92 @@ export interface Exercise {
       reps: number;
       distance?: number;
       time?: number;
+      calories?: number;
       date: string;
       created_at: string;
       exercise: Exercise;
     }
+
+    export interface LoggedSet {
+      id?: string;
+      weight: number | null;
+      reps: number;
+      distance?: number;
+      // Seconds
+      time?: number | null;
+      calories?: number;
+      completed_at?: string | null;
+      // Rest actually taken after the set
+      rest_seconds?: number | null;
+    }
+
+    export interface ExerciseLog {
+      exercise_id: string;
+      // The workout exercise the sets were logged against
+      workout_exercise_id: string;
+      sets: LoggedSet[];
+    }
+
+    export interface PersonalRecord {
+      id: string;
+      user_id: string;
+      exercise_id: string;
+      workout_log_id: string;
+      record_type: PersonalRecordType;
+      reps: number | null;
+      distance: number | null;
+      value: number;
+      previous_value: number | null;
+      achieved_at: string;
+      created_at: string;
+      exercise?: Exercise;
+      profiles?: { profile_name: string | null };
+    }
+
+    export interface Program {
+      id: string;
+      name: string;
+      description: string | null;
+      weeks: number;
+      created_by: string;
+      created_at: string;
+      updated_at: string;
+      program_workouts?: ProgramWorkout[];
+    }
+
+    export interface ProgramWorkout {
+      id: string;
+      program_id: string;
+      workout_id: string;
+      week: number;
+      day: number;
+      order_index: number;
+      created_at: string;
+      workout?: Workout;
+    }
+
+    export interface ProgramEnrollment {
+      id: string;
+      program_id: string;
+      user_id: string;
+      start_date: string;
+      created_at: string;
+      program?: Program;
+    }
+
+    export interface Kudos {
+      id: string;
+      workout_log_id: string;
+      user_id: string;
+      created_at: string;
+      profiles?: { profile_name: string | null } | null;
+    }
+
+    export interface WorkoutLogComment {
+      id: string;
+      workout_log_id: string;
+      profile_id: string;
+      content: string;
+      created_at: string;
+      profiles?: { profile_name: string | null } | null;
+    }
@@ -0,0 +1,29 @@
+/*
+  # Exercise scoring metrics
+
+  1. Changes
+    - `exercises`
+      - Add `scoring_metric` declaring how logged sets are scored
+        (load volume, max load, distance, calories, time or reps)
+    - `exercise_scores`
+      - Add `calories`, already written by the workout logger
+    - `workout_logs`
+      - Add `total`, already written by the workout logger and read by the leaderboard
+
+  2. Backfill
+    - Exercises previously special-cased by name in the client keep their behaviour:
+      `Run` and `Rower` score by distance, `Assault Bike` by calories
+*/
+
+ALTER TABLE exercises
+  ADD COLUMN IF NOT EXISTS scoring_metric text NOT NULL DEFAULT 'max_load'
+  CHECK (scoring_metric IN ('load_volume', 'max_load', 'distance', 'calories', 'time', 'reps'));
+
+ALTER TABLE exercise_scores
+  ADD COLUMN IF NOT EXISTS calories numeric;
+
+ALTER TABLE workout_logs
+  ADD COLUMN IF NOT EXISTS total numeric;
+
+UPDATE exercises SET scoring_metric = 'distance' WHERE name IN ('Run', 'Rower');
+UPDATE exercises SET scoring_metric = 'calories' WHERE name = 'Assault Bike';
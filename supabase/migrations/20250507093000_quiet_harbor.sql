@@ -0,0 +1,27 @@
+/*
+  # Workout formats
+
+  1. Changes
+    - `workouts`
+      - Add `format` (standard, for_time, amrap, emom, tabata)
+      - Add format parameters: `time_cap_seconds`, `rounds`, `interval_seconds`, `rest_seconds`
+    - `workout_logs`
+      - Add format results: `result_time_seconds` (For Time), `result_rounds` (AMRAP, EMOM)
+        and `result_reps` (AMRAP extra reps, Tabata total, reps completed when capped)
+
+  2. Notes
+    - Existing workouts default to `standard` and keep being scored from their logged sets
+*/
+
+ALTER TABLE workouts
+  ADD COLUMN IF NOT EXISTS format text NOT NULL DEFAULT 'standard'
+    CHECK (format IN ('standard', 'for_time', 'amrap', 'emom', 'tabata')),
+  ADD COLUMN IF NOT EXISTS time_cap_seconds integer CHECK (time_cap_seconds > 0),
+  ADD COLUMN IF NOT EXISTS rounds integer CHECK (rounds > 0),
+  ADD COLUMN IF NOT EXISTS interval_seconds integer CHECK (interval_seconds > 0),
+  ADD COLUMN IF NOT EXISTS rest_seconds integer CHECK (rest_seconds >= 0);
+
+ALTER TABLE workout_logs
+  ADD COLUMN IF NOT EXISTS result_time_seconds integer CHECK (result_time_seconds >= 0),
+  ADD COLUMN IF NOT EXISTS result_rounds integer CHECK (result_rounds >= 0),
+  ADD COLUMN IF NOT EXISTS result_reps integer CHECK (result_reps >= 0);
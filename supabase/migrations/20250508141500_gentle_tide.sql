@@ -0,0 +1,24 @@
+/*
+  # Offline workout log sync
+
+  1. Changes
+    - `workout_logs`
+      - Add policy letting users update their own logs
+    - `exercise_scores`
+      - Add policy letting users delete their own scores
+
+  2. Notes
+    - Logs and scores now get their ids on the client and are written with
+      upserts, so a log queued offline can be replayed without creating duplicates
+*/
+
+DROP POLICY IF EXISTS "Users can update own workout logs" ON workout_logs;
+CREATE POLICY "Users can update own workout logs"
+  ON workout_logs FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own exercise scores" ON exercise_scores;
+CREATE POLICY "Users can delete own exercise scores"
+  ON exercise_scores FOR DELETE
+  USING (auth.uid() = user_id);
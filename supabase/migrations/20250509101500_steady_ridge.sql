@@ -0,0 +1,24 @@
+/*
+  # Rx / Scaled / Foundations divisions
+
+  1. Changes
+    - `workout_exercises`
+      - `weight` stays the Rx prescription
+      - Add `scaled_weight`, `scaled_notes`, `foundations_weight`, `foundations_notes`
+    - `workout_logs`
+      - Add `division` (rx, scaled, foundations)
+
+  2. Notes
+    - Existing logs are treated as Rx
+    - A division without its own weight falls back to the next harder division in the app
+*/
+
+ALTER TABLE workout_exercises
+  ADD COLUMN IF NOT EXISTS scaled_weight numeric CHECK (scaled_weight >= 0),
+  ADD COLUMN IF NOT EXISTS scaled_notes text,
+  ADD COLUMN IF NOT EXISTS foundations_weight numeric CHECK (foundations_weight >= 0),
+  ADD COLUMN IF NOT EXISTS foundations_notes text;
+
+ALTER TABLE workout_logs
+  ADD COLUMN IF NOT EXISTS division text NOT NULL DEFAULT 'rx'
+    CHECK (division IN ('rx', 'scaled', 'foundations'));
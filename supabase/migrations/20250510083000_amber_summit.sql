@@ -0,0 +1,55 @@
+/*
+  # Estimated and tested one-rep maxes
+
+  1. New Tables
+    - `one_rep_maxes`
+      - Tested 1RMs recorded by athletes, one row per test
+      - `user_id`, `exercise_id`, `weight`, `tested_at`
+
+  2. Changes
+    - `user_preferences`
+      - Add `one_rm_formula` (epley, brzycki) used for estimated 1RMs
+      - Add `percentage_table`, the percentages shown in the calculator
+      - Replace the insert policy, which needs WITH CHECK for inserts and upserts
+
+  3. Security
+    - Enable RLS on `one_rep_maxes`
+    - Tested maxes are readable by everyone, written only by their owner
+*/
+
+CREATE TABLE IF NOT EXISTS one_rep_maxes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  exercise_id uuid NOT NULL REFERENCES exercises(id) ON DELETE CASCADE,
+  weight numeric NOT NULL CHECK (weight > 0),
+  tested_at date NOT NULL DEFAULT CURRENT_DATE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS one_rep_maxes_user_exercise_idx
+  ON one_rep_maxes (user_id, exercise_id, tested_at DESC);
+
+ALTER TABLE one_rep_maxes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "One rep maxes are viewable by everyone"
+  ON one_rep_maxes FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can record own one rep maxes"
+  ON one_rep_maxes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own one rep maxes"
+  ON one_rep_maxes FOR DELETE
+  USING (auth.uid() = user_id);
+
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS one_rm_formula text NOT NULL DEFAULT 'epley'
+    CHECK (one_rm_formula IN ('epley', 'brzycki')),
+  ADD COLUMN IF NOT EXISTS percentage_table numeric[] NOT NULL
+    DEFAULT '{100,95,90,85,80,75,70,65,60,50}';
+
+DROP POLICY IF EXISTS "Users can insert their own preferences" ON user_preferences;
+CREATE POLICY "Users can insert their own preferences"
+  ON user_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,23 @@
+/*
+  # Percentage and RPE prescriptions
+
+  1. Changes
+    - `workout_exercises`
+      - Add `intensity_type` (absolute, percentage, rpe)
+      - Add `percentage` of 1RM and `percentage_of_exercise_id`, the lift the
+        percentage is taken from (the exercise itself when null)
+      - Add `rpe` (6-10)
+
+  2. Notes
+    - Existing rows stay `absolute` and keep using `weight`
+    - `percentage_of_exercise_id` deliberately has no foreign key: a second
+      relationship to `exercises` would make the `exercises (*)` embeds used
+      throughout the app ambiguous
+*/
+
+ALTER TABLE workout_exercises
+  ADD COLUMN IF NOT EXISTS intensity_type text NOT NULL DEFAULT 'absolute'
+    CHECK (intensity_type IN ('absolute', 'percentage', 'rpe')),
+  ADD COLUMN IF NOT EXISTS percentage numeric CHECK (percentage > 0 AND percentage <= 120),
+  ADD COLUMN IF NOT EXISTS percentage_of_exercise_id uuid,
+  ADD COLUMN IF NOT EXISTS rpe numeric CHECK (rpe >= 6 AND rpe <= 10);
@@ -0,0 +1,54 @@
+/*
+  # Personal records
+
+  1. New Tables
+    - `personal_records`
+      - One row per record set, detected when a workout log is saved
+      - `record_type` (weight_for_reps, distance, calories, time)
+      - `reps` qualifies weight records, `distance` qualifies time records
+      - `value` and the `previous_value` it beat
+
+  2. Security
+    - Enable RLS on `personal_records`
+    - Records are viewable by everyone for the PR feed
+    - Users can only write and remove their own records
+
+  3. Notes
+    - Records are replaced whenever their workout log is saved again and are
+      removed along with the log
+*/
+
+CREATE TABLE IF NOT EXISTS personal_records (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  exercise_id uuid NOT NULL REFERENCES exercises(id) ON DELETE CASCADE,
+  workout_log_id uuid NOT NULL REFERENCES workout_logs(id) ON DELETE CASCADE,
+  record_type text NOT NULL
+    CHECK (record_type IN ('weight_for_reps', 'distance', 'calories', 'time')),
+  reps integer,
+  distance numeric,
+  value numeric NOT NULL,
+  previous_value numeric,
+  achieved_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS personal_records_achieved_at_idx
+  ON personal_records (achieved_at DESC);
+
+CREATE INDEX IF NOT EXISTS personal_records_user_idx
+  ON personal_records (user_id, achieved_at DESC);
+
+ALTER TABLE personal_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Personal records are viewable by everyone"
+  ON personal_records FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can create own personal records"
+  ON personal_records FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own personal records"
+  ON personal_records FOR DELETE
+  USING (auth.uid() = user_id);
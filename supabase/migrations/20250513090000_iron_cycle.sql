@@ -0,0 +1,132 @@
+/*
+  # Multi-week training programs
+
+  1. New Tables
+    - `programs`
+      - A named cycle of `weeks` weeks built by a coach
+    - `program_workouts`
+      - Places a template workout on a `week` and `day` (1-7) of a program,
+        ordered within the day by `order_index`
+    - `program_enrollments`
+      - A member starting a program on `start_date`
+
+  2. Changes
+    - `workouts`
+      - Add `program_enrollment_id`, set on the copies scheduled for a member
+        when they start a program
+
+  3. Security
+    - Enable RLS on the new tables
+    - Programs and their workouts are viewable by everyone; only the creator
+      can change them
+    - Members manage their own enrollments
+    - Users can add exercises to workouts they created, which starting a
+      program needs for the scheduled copies
+
+  4. Notes
+    - Deleting an enrollment removes the workouts scheduled for it
+*/
+
+CREATE TABLE IF NOT EXISTS programs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  weeks integer NOT NULL CHECK (weeks BETWEEN 1 AND 52),
+  created_by uuid REFERENCES profiles(id),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS program_workouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id uuid NOT NULL REFERENCES programs(id) ON DELETE CASCADE,
+  workout_id uuid NOT NULL REFERENCES workouts(id) ON DELETE CASCADE,
+  week integer NOT NULL CHECK (week >= 1),
+  day integer NOT NULL CHECK (day BETWEEN 1 AND 7),
+  order_index integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS program_workouts_program_idx
+  ON program_workouts (program_id, week, day, order_index);
+
+CREATE TABLE IF NOT EXISTS program_enrollments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  program_id uuid NOT NULL REFERENCES programs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS program_enrollments_user_idx
+  ON program_enrollments (user_id, start_date DESC);
+
+ALTER TABLE workouts
+  ADD COLUMN IF NOT EXISTS program_enrollment_id uuid
+    REFERENCES program_enrollments(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS workouts_program_enrollment_idx
+  ON workouts (program_enrollment_id);
+
+ALTER TABLE programs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE program_workouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE program_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Programs are viewable by everyone"
+  ON programs FOR SELECT
+  USING (true);
+
+CREATE POLICY "Authenticated users can create programs"
+  ON programs FOR INSERT
+  WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can update own programs"
+  ON programs FOR UPDATE
+  USING (auth.uid() = created_by);
+
+CREATE POLICY "Users can delete own programs"
+  ON programs FOR DELETE
+  USING (auth.uid() = created_by);
+
+CREATE POLICY "Program workouts are viewable by everyone"
+  ON program_workouts FOR SELECT
+  USING (true);
+
+CREATE POLICY "Program creators can manage program workouts"
+  ON program_workouts FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM programs
+      WHERE programs.id = program_workouts.program_id
+        AND programs.created_by = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM programs
+      WHERE programs.id = program_workouts.program_id
+        AND programs.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Program enrollments are viewable by everyone"
+  ON program_enrollments FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can start programs for themselves"
+  ON program_enrollments FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can leave own programs"
+  ON program_enrollments FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add exercises to own workouts"
+  ON workout_exercises FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM workouts
+      WHERE workouts.id = workout_exercises.workout_id
+        AND workouts.created_by = auth.uid()
+    )
+  );
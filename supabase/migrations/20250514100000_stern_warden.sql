@@ -0,0 +1,173 @@
+/*
+  # Role-based access control
+
+  1. Changes
+    - `profiles.role` is one of `admin`, `coach` or `member`, defaulting to
+      `member`; existing `user` profiles become members
+    - Helper functions `current_user_role()`, `is_staff()` (coach or admin)
+      and `is_admin()` for use in policies
+
+  2. Security
+    - Only staff can create, update or delete shared workouts and their
+      exercises; members can still create the copies scheduled for them when
+      they start a program, tied to their own enrollment and never as the
+      workout of the day
+    - Only staff can write exercises and create programs
+    - `app_settings` gets RLS: readable by everyone, writable by admins
+    - Admins can update any profile; a trigger stops anyone else from
+      changing a role, including their own
+
+  3. Notes
+    - The helpers are `SECURITY DEFINER` so policies on `profiles` can call
+      them without recursing into themselves
+*/
+
+UPDATE profiles SET role = 'member' WHERE role IS NULL OR role NOT IN ('admin', 'coach', 'member');
+
+ALTER TABLE profiles
+  ALTER COLUMN role SET DEFAULT 'member',
+  ALTER COLUMN role SET NOT NULL,
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('admin', 'coach', 'member'));
+
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM profiles WHERE id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION is_staff()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(current_user_role() IN ('coach', 'admin'), false);
+$$;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(current_user_role() = 'admin', false);
+$$;
+
+-- Profiles
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.role <> 'member' AND NOT is_admin() THEN
+      NEW.role := 'member';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON profiles;
+CREATE TRIGGER protect_profile_role
+  BEFORE INSERT OR UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_role();
+
+CREATE POLICY "Admins can update any profile"
+  ON profiles FOR UPDATE
+  USING (is_admin());
+
+-- Workouts
+DROP POLICY IF EXISTS "Authenticated users can create workouts" ON workouts;
+DROP POLICY IF EXISTS "Users can update own workouts" ON workouts;
+
+CREATE POLICY "Staff can create workouts"
+  ON workouts FOR INSERT
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Members can create their program workouts"
+  ON workouts FOR INSERT
+  WITH CHECK (
+    auth.uid() = created_by
+    AND NOT is_wod
+    AND EXISTS (
+      SELECT 1 FROM program_enrollments pe
+      WHERE pe.id = workouts.program_enrollment_id
+        AND pe.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Staff can update workouts"
+  ON workouts FOR UPDATE
+  USING (is_staff());
+
+CREATE POLICY "Staff can delete workouts"
+  ON workouts FOR DELETE
+  USING (is_staff());
+
+-- Workout exercises
+DROP POLICY IF EXISTS "Users can add exercises to own workouts" ON workout_exercises;
+
+CREATE POLICY "Staff can manage workout exercises"
+  ON workout_exercises FOR ALL
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+CREATE POLICY "Members can add exercises to their program workouts"
+  ON workout_exercises FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM workouts
+      WHERE workouts.id = workout_exercises.workout_id
+        AND workouts.created_by = auth.uid()
+        AND EXISTS (
+          SELECT 1 FROM program_enrollments pe
+          WHERE pe.id = workouts.program_enrollment_id
+            AND pe.user_id = auth.uid()
+        )
+    )
+  );
+
+-- Exercises
+CREATE POLICY "Staff can manage exercises"
+  ON exercises FOR ALL
+  USING (is_staff())
+  WITH CHECK (is_staff());
+
+-- Programs
+DROP POLICY IF EXISTS "Authenticated users can create programs" ON programs;
+DROP POLICY IF EXISTS "Users can update own programs" ON programs;
+DROP POLICY IF EXISTS "Users can delete own programs" ON programs;
+
+CREATE POLICY "Staff can create programs"
+  ON programs FOR INSERT
+  WITH CHECK (is_staff() AND auth.uid() = created_by);
+
+CREATE POLICY "Creators and admins can update programs"
+  ON programs FOR UPDATE
+  USING (is_admin() OR (is_staff() AND auth.uid() = created_by));
+
+CREATE POLICY "Creators and admins can delete programs"
+  ON programs FOR DELETE
+  USING (is_admin() OR (is_staff() AND auth.uid() = created_by));
+
+-- App settings
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "App settings are viewable by everyone"
+  ON app_settings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can manage app settings"
+  ON app_settings FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
@@ -0,0 +1,148 @@
+/*
+  # Message board reactions, editing and moderation
+
+  1. New Tables
+    - `message_reactions`
+      - One `like` or `dislike` per user per message
+    - `message_edits`
+      - The previous `content` of a message each time its author edits it
+
+  2. Changes
+    - `messages`
+      - Drop the `likes` and `dislikes` columns; counts come from
+        `message_reactions`
+      - Add `edited_at`
+      - Add `is_hidden`, `hidden_by` and `hidden_at` for admin moderation
+      - Add `is_pinned` and `pinned_at`
+
+  3. Security
+    - Hidden messages are only visible to their author and admins
+    - Authors can edit and delete their own messages; admins can delete,
+      hide and pin any message
+    - Users manage their own reactions
+    - A trigger records edit history and stops non-admins from changing the
+      moderation fields
+
+  4. Notes
+    - `hidden_by` has no foreign key: a second relationship to `profiles`
+      would make the `profiles (...)` embed on messages ambiguous
+*/
+
+ALTER TABLE messages
+  DROP COLUMN IF EXISTS likes,
+  DROP COLUMN IF EXISTS dislikes;
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS edited_at timestamptz,
+  ADD COLUMN IF NOT EXISTS is_hidden boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS hidden_by uuid,
+  ADD COLUMN IF NOT EXISTS hidden_at timestamptz,
+  ADD COLUMN IF NOT EXISTS is_pinned boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS pinned_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS message_reactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reaction text NOT NULL CHECK (reaction IN ('like', 'dislike')),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (message_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS message_edits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  content text,
+  edited_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS message_edits_message_idx
+  ON message_edits (message_id, edited_at DESC);
+
+CREATE OR REPLACE FUNCTION track_message_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.profile_id := OLD.profile_id;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF auth.uid() IS DISTINCT FROM OLD.profile_id THEN
+      RAISE EXCEPTION 'Only the author can edit a message';
+    END IF;
+    INSERT INTO message_edits (message_id, content)
+    VALUES (OLD.id, OLD.content);
+    NEW.edited_at := now();
+  END IF;
+
+  IF (NEW.is_hidden IS DISTINCT FROM OLD.is_hidden OR NEW.is_pinned IS DISTINCT FROM OLD.is_pinned)
+    AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can moderate messages';
+  END IF;
+
+  IF NEW.is_hidden AND NOT OLD.is_hidden THEN
+    NEW.hidden_by := auth.uid();
+    NEW.hidden_at := now();
+  ELSIF NOT NEW.is_hidden THEN
+    NEW.hidden_by := NULL;
+    NEW.hidden_at := NULL;
+  END IF;
+
+  IF NEW.is_pinned IS DISTINCT FROM OLD.is_pinned THEN
+    NEW.pinned_at := CASE WHEN NEW.is_pinned THEN now() END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS track_message_changes ON messages;
+CREATE TRIGGER track_message_changes
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION track_message_changes();
+
+DROP POLICY IF EXISTS "Messages are viewable by everyone" ON messages;
+
+CREATE POLICY "Visible messages are viewable by everyone"
+  ON messages FOR SELECT
+  USING (NOT is_hidden OR auth.uid() = profile_id OR is_admin());
+
+CREATE POLICY "Authors and admins can update messages"
+  ON messages FOR UPDATE
+  USING (auth.uid() = profile_id OR is_admin());
+
+CREATE POLICY "Authors and admins can delete messages"
+  ON messages FOR DELETE
+  USING (auth.uid() = profile_id OR is_admin());
+
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE message_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Message reactions are viewable by everyone"
+  ON message_reactions FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can react as themselves"
+  ON message_reactions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can change own reactions"
+  ON message_reactions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove own reactions"
+  ON message_reactions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- History follows the visibility of its message
+CREATE POLICY "Edit history is viewable with its message"
+  ON message_edits FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = message_edits.message_id
+    )
+  );
@@ -0,0 +1,64 @@
+/*
+  # Threaded replies, mentions and notifications
+
+  1. Changes
+    - `messages`
+      - Add `parent_id`, the post a reply belongs to
+      - Add `workout_log_id`, a workout log attached to the post
+
+  2. New Tables
+    - `notifications`
+      - Sent to `user_id` by `actor_id`, e.g. when the actor mentions them
+        or replies to their post
+      - `type` says what happened; `message_id` and `workout_log_id` point at
+        what it happened on
+      - `read_at` is set once the recipient has seen it
+
+  3. Security
+    - Enable RLS on `notifications`
+    - Users see and mark their own notifications and can only send
+      notifications as themselves
+
+  4. Notes
+    - Replies are removed with their post; attachments are detached when the
+      log is deleted
+*/
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES messages(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS workout_log_id uuid REFERENCES workout_logs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS messages_parent_idx
+  ON messages (parent_id, created_at);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  actor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type text NOT NULL CHECK (type IN ('mention', 'reply')),
+  message_id uuid REFERENCES messages(id) ON DELETE CASCADE,
+  workout_log_id uuid REFERENCES workout_logs(id) ON DELETE CASCADE,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_idx
+  ON notifications (user_id, created_at DESC);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can send notifications as themselves"
+  ON notifications FOR INSERT
+  WITH CHECK (auth.uid() = actor_id AND auth.uid() <> user_id);
+
+CREATE POLICY "Users can mark own notifications read"
+  ON notifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can clear own notifications"
+  ON notifications FOR DELETE
+  USING (auth.uid() = user_id);
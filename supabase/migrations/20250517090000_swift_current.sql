@@ -0,0 +1,27 @@
+/*
+  # Realtime for the leaderboard and message board
+
+  1. Changes
+    - Publish `workout_logs`, `messages` and `message_reactions` (and `likes`
+      where it exists) to Supabase realtime
+    - Use full replica identity on `messages` and `message_reactions` so
+      deletes report the row that was removed, not just its id
+
+  2. Notes
+    - Realtime respects RLS, so clients only receive rows they can select
+    - Set `VITE_REALTIME_MODE=local` to develop without replication: changes
+      are then shared between the tabs of one browser instead
+*/
+
+ALTER TABLE messages REPLICA IDENTITY FULL;
+ALTER TABLE message_reactions REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE workout_logs, messages, message_reactions;
+
+DO $$
+BEGIN
+  IF to_regclass('public.likes') IS NOT NULL THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE likes;
+  END IF;
+END;
+$$;
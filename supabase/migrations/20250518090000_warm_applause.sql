@@ -0,0 +1,51 @@
+/*
+  # Per-log kudos
+
+  1. New Tables
+    - `kudos`
+      - One per giver (`user_id`) per `workout_logs` row, replacing the
+        profile-wide `likes`
+
+  2. Security
+    - Enable RLS on `kudos`
+    - Kudos are viewable by everyone
+    - Users give and take back their own kudos, and can't give kudos to
+      their own logs
+
+  3. Notes
+    - `likes` is no longer read by the app and is left in place for its data
+    - Published to realtime so the leaderboard updates as kudos come in
+*/
+
+CREATE TABLE IF NOT EXISTS kudos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workout_log_id uuid NOT NULL REFERENCES workout_logs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (workout_log_id, user_id)
+);
+
+ALTER TABLE kudos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Kudos are viewable by everyone"
+  ON kudos FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can give kudos to others' logs"
+  ON kudos FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND NOT EXISTS (
+      SELECT 1 FROM workout_logs
+      WHERE workout_logs.id = kudos.workout_log_id
+        AND workout_logs.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can take back own kudos"
+  ON kudos FOR DELETE
+  USING (auth.uid() = user_id);
+
+ALTER TABLE kudos REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE kudos;
@@ -0,0 +1,61 @@
+/*
+  # Comments on workout logs
+
+  1. New Tables
+    - `workout_log_comments`
+      - A comment by `profile_id` on a `workout_logs` row
+
+  2. Changes
+    - `notifications.type` accepts `comment`, sent to the athlete whose log
+      was commented on
+
+  3. Security
+    - Enable RLS on `workout_log_comments`
+    - Comments are viewable by everyone
+    - Users comment as themselves; a comment can be deleted by its author,
+      the athlete whose log it is on, or an admin
+
+  4. Notes
+    - Published to realtime so open comment threads update live
+*/
+
+CREATE TABLE IF NOT EXISTS workout_log_comments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  workout_log_id uuid NOT NULL REFERENCES workout_logs(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  content text NOT NULL CHECK (length(trim(content)) > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS workout_log_comments_log_idx
+  ON workout_log_comments (workout_log_id, created_at);
+
+ALTER TABLE workout_log_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Log comments are viewable by everyone"
+  ON workout_log_comments FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can comment as themselves"
+  ON workout_log_comments FOR INSERT
+  WITH CHECK (auth.uid() = profile_id);
+
+CREATE POLICY "Authors, athletes and admins can delete log comments"
+  ON workout_log_comments FOR DELETE
+  USING (
+    auth.uid() = profile_id
+    OR is_admin()
+    OR EXISTS (
+      SELECT 1 FROM workout_logs
+      WHERE workout_logs.id = workout_log_comments.workout_log_id
+        AND workout_logs.user_id = auth.uid()
+    )
+  );
+
+ALTER TABLE notifications
+  DROP CONSTRAINT IF EXISTS notifications_type_check,
+  ADD CONSTRAINT notifications_type_check CHECK (type IN ('mention', 'reply', 'comment'));
+
+ALTER TABLE workout_log_comments REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE workout_log_comments;
@@ -0,0 +1,25 @@
+/*
+  # Imported training history
+
+  1. Changes
+    - `workout_logs`
+      - Add `title`, the session name for logs without a workout, such as
+        history imported from a spreadsheet or another tracker
+      - Add `imported_at`, set on logs created by the importer
+
+  2. Security
+    - Users can delete their own imported logs, so a failed import can remove
+      what it already wrote
+
+  3. Notes
+    - Members can't create workouts, so imported sessions are stored with no
+      `workout_id` and are shown by their `title`
+*/
+
+ALTER TABLE workout_logs
+  ADD COLUMN IF NOT EXISTS title text,
+  ADD COLUMN IF NOT EXISTS imported_at timestamptz;
+
+CREATE POLICY "Users can delete own imported logs"
+  ON workout_logs FOR DELETE
+  USING (auth.uid() = user_id AND imported_at IS NOT NULL);
@@ -0,0 +1,19 @@
+/*
+  # Unit preferences
+
+  1. Changes
+    - `profiles`
+      - Add `weight_unit` (lb, kg) and `distance_unit` (m, km, mi), the units
+        each athlete enters and reads weights and distances in
+
+  2. Notes
+    - `exercise_scores`, `one_rep_maxes`, `personal_records` and workout
+      prescriptions keep storing pounds and meters; the app converts on input
+      and display, so athletes using different units share one leaderboard
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS weight_unit text NOT NULL DEFAULT 'lb'
+    CHECK (weight_unit IN ('lb', 'kg')),
+  ADD COLUMN IF NOT EXISTS distance_unit text NOT NULL DEFAULT 'm'
+    CHECK (distance_unit IN ('m', 'km', 'mi'));
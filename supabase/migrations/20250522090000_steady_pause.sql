@@ -0,0 +1,21 @@
+/*
+  # Rest between sets
+
+  1. Changes
+    - `workout_exercises`
+      - Add `rest_seconds`, the rest the coach prescribes after each set
+    - `exercise_scores`
+      - Add `completed_at`, when the athlete marked the set complete
+      - Add `rest_seconds`, the rest actually taken after the set
+
+  2. Notes
+    - Athletes without a prescription rest for the logger's default, which
+      they can adjust while the countdown runs
+*/
+
+ALTER TABLE workout_exercises
+  ADD COLUMN IF NOT EXISTS rest_seconds integer CHECK (rest_seconds >= 0);
+
+ALTER TABLE exercise_scores
+  ADD COLUMN IF NOT EXISTS completed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS rest_seconds integer CHECK (rest_seconds >= 0);
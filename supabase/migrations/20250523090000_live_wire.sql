@@ -0,0 +1,27 @@
+/*
+  # Live workout sessions
+
+  1. Changes
+    - `workout_logs`
+      - Add `in_progress`, set while an athlete is still working through the
+        session and its sets are saved one by one
+      - Add policy letting users delete their own in-progress logs, so an
+        abandoned session can be discarded
+
+  2. Notes
+    - In-progress logs are left out of rankings, history and the feed until
+      the athlete finishes them; their sets are real and count towards lift
+      history straight away
+*/
+
+ALTER TABLE workout_logs
+  ADD COLUMN IF NOT EXISTS in_progress boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS workout_logs_in_progress_idx
+  ON workout_logs (user_id)
+  WHERE in_progress;
+
+DROP POLICY IF EXISTS "Users can delete own in-progress workout logs" ON workout_logs;
+CREATE POLICY "Users can delete own in-progress workout logs"
+  ON workout_logs FOR DELETE
+  USING (auth.uid() = user_id AND in_progress);
@@ -0,0 +1,25 @@
+/*
+  # Times in seconds
+
+  1. Changes
+    - `exercise_scores.time` and `workout_exercises.time` hold seconds instead
+      of minutes, so splits like 4:35 can be logged and prescribed
+    - Existing values and `time` personal records are converted
+    - `workout_exercises.time` is created where it is missing; the client has
+      always written it but no earlier migration added it
+
+  2. Notes
+    - `workout_logs.result_time_seconds` was already in seconds and is unchanged
+*/
+
+ALTER TABLE workout_exercises
+  ADD COLUMN IF NOT EXISTS time numeric;
+
+UPDATE exercise_scores SET time = time * 60 WHERE time IS NOT NULL;
+
+UPDATE workout_exercises SET time = time * 60 WHERE time IS NOT NULL;
+
+UPDATE personal_records
+SET value = value * 60,
+    previous_value = previous_value * 60
+WHERE record_type = 'time';
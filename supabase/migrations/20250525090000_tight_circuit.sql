@@ -0,0 +1,18 @@
+/*
+  # Supersets and circuits
+
+  1. Changes
+    - `workout_exercises`
+      - Add `block`, the letter of the superset or circuit the exercise is part of
+      - Add `block_rounds`, how many rounds the block is worked for
+
+  2. Notes
+    - Exercises sharing a letter form one block and are logged round by round;
+      exercises without a letter stand on their own as before
+    - Every exercise in a block carries the block's rounds, which the editor
+      keeps in step
+*/
+
+ALTER TABLE workout_exercises
+  ADD COLUMN IF NOT EXISTS block text CHECK (block ~ '^[A-Z]$'),
+  ADD COLUMN IF NOT EXISTS block_rounds integer CHECK (block_rounds > 0);
@@ -0,0 +1,29 @@
+/*
+  # Set order
+
+  1. Changes
+    - `exercise_scores`
+      - Add `set_index`, the set's position within its exercise in the log,
+        starting at 0
+
+  2. Notes
+    - Sets saved together share a `created_at`, so it can't tell them apart
+    - Existing sets are numbered by when they were completed, then created
+*/
+
+ALTER TABLE exercise_scores
+  ADD COLUMN IF NOT EXISTS set_index integer CHECK (set_index >= 0);
+
+UPDATE exercise_scores
+SET set_index = numbered.set_index
+FROM (
+  SELECT
+    id,
+    row_number() OVER (
+      PARTITION BY workout_log_id, exercise_id
+      ORDER BY coalesce(completed_at, created_at), created_at, id
+    ) - 1 AS set_index
+  FROM exercise_scores
+) AS numbered
+WHERE exercise_scores.id = numbered.id
+  AND exercise_scores.set_index IS NULL;
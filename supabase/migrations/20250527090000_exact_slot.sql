@@ -0,0 +1,33 @@
+/*
+  # Sets tied to their workout exercise
+
+  1. Changes
+    - `exercise_scores`
+      - Add `workout_exercise_id`, the entry of the workout the set was logged
+        against
+
+  2. Notes
+    - A movement can appear more than once in a workout, in separate blocks or
+      circuits, so `exercise_id` alone can't tell its sets apart
+    - Existing sets are linked where their workout has a single entry for the
+      movement; the rest stay unlinked and load under its first entry
+*/
+
+ALTER TABLE exercise_scores
+  ADD COLUMN IF NOT EXISTS workout_exercise_id uuid REFERENCES workout_exercises(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS exercise_scores_workout_exercise_id_idx
+  ON exercise_scores (workout_exercise_id);
+
+UPDATE exercise_scores
+SET workout_exercise_id = entries.id
+FROM workout_logs, (
+  SELECT workout_id, exercise_id, (array_agg(id))[1] AS id
+  FROM workout_exercises
+  GROUP BY workout_id, exercise_id
+  HAVING count(*) = 1
+) AS entries
+WHERE workout_logs.id = exercise_scores.workout_log_id
+  AND entries.workout_id = workout_logs.workout_id
+  AND entries.exercise_id = exercise_scores.exercise_id
+  AND exercise_scores.workout_exercise_id IS NULL;
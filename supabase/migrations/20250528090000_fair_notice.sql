@@ -0,0 +1,77 @@
+/*
+  # Notifications backed by what they announce
+
+  1. Security
+    - A notification can only be sent for something the actor actually did:
+      - `mention`: a post by the actor whose content mentions the recipient
+      - `reply`: a reply by the actor to a post by the recipient
+      - `comment`: a comment by the actor on a workout log of the recipient
+    - Replaces the insert policy that only checked the actor
+
+  2. Notes
+    - The check is a `SECURITY DEFINER` helper so it can see the post, log or
+      comment whatever the sender's own read access
+    - Mentions are matched like the app does: `@` and the profile name without
+      spaces, ignoring case, not followed by more of a handle
+*/
+
+CREATE OR REPLACE FUNCTION notification_is_backed(
+  actor uuid,
+  recipient uuid,
+  kind text,
+  message uuid,
+  log uuid
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE kind
+    WHEN 'mention' THEN EXISTS (
+      SELECT 1
+      FROM messages m
+      JOIN profiles p ON p.id = recipient
+      WHERE m.id = message
+        AND m.profile_id = actor
+        AND p.profile_name IS NOT NULL
+        AND m.content ~* (
+          '@'
+          || regexp_replace(
+            regexp_replace(p.profile_name, '\s+', '', 'g'),
+            '([.*+?^${}()|\[\]\\-])', '\\\1', 'g'
+          )
+          -- The handle has to end where the mention does, so `@Al` isn't found in `@Alex`
+          || '(?![\w.-]*\w)'
+        )
+    )
+    WHEN 'reply' THEN EXISTS (
+      SELECT 1
+      FROM messages m
+      JOIN messages parent ON parent.id = m.parent_id
+      WHERE m.id = message
+        AND m.profile_id = actor
+        AND parent.profile_id = recipient
+    )
+    WHEN 'comment' THEN EXISTS (
+      SELECT 1
+      FROM workout_logs l
+      JOIN workout_log_comments c ON c.workout_log_id = l.id
+      WHERE l.id = log
+        AND l.user_id = recipient
+        AND c.profile_id = actor
+    )
+    ELSE false
+  END;
+$$;
+
+DROP POLICY IF EXISTS "Users can send notifications as themselves" ON notifications;
+
+CREATE POLICY "Users can send notifications for their own posts and comments"
+  ON notifications FOR INSERT
+  WITH CHECK (
+    auth.uid() = actor_id
+    AND auth.uid() <> user_id
+    AND notification_is_backed(actor_id, user_id, type, message_id, workout_log_id)
+  );